@@ -1,43 +1,41 @@
 // day03_llm_mind/code.ts
-// Goal: Build intuition for tokens, context window truncation, temperature sampling, and latency.
-// Run: npx tsx day03_llm_mind/code.ts
+// Goal: Build intuition for tokens, context window truncation, temperature sampling, decoding knobs, and latency.
+// Run: npx tsx day03_llm_mind/code.ts [seed]
+
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { getDefaultTokenizer } from "./tokenizer.js";
+import { fitToContext, type ContextMessage } from "./context_window.js";
+import {
+  NGramModel,
+  beamSearch,
+  createRng,
+  detokenize,
+  generate,
+  sampleIndex,
+  softmaxWithTemperature,
+  type GenerateOptions,
+} from "./decoding.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
 
 // --- Helpers ---------------------------------------------------------------
 
-// Approximate tokenizer: split on whitespace and basic punctuation.
-// Real tokenizers (e.g., tiktoken) differ, but this is enough for intuition.
-function tokenizeApprox(text: string): string[] {
-  return text
-    .toLowerCase()
-    .replace(/[^a-z0-9_\s'-]+/g, ' ') // drop punctuation (keeps apostrophes/hyphens/underscores)
-    .split(/\s+/)
-    .filter(Boolean);
-}
+// Byte-level BPE tokenizer (see tokenizer.ts), loaded from bpe_vocab.json.
+// Same algorithm family as tiktoken, but with a small vocab trained on this repo.
+const tokenizer = getDefaultTokenizer();
 
-// Truncate tokens to a max context window (e.g., 128 for demo)
-function truncateToContext(tokens: string[], maxContext: number): string[] {
+// Truncate token ids to a max context window (e.g., 128 for demo)
+function truncateToContext(tokens: number[], maxContext: number): number[] {
   if (tokens.length <= maxContext) return tokens;
   return tokens.slice(tokens.length - maxContext); // keep the tail (like when long history pushes out older turns)
 }
 
-// Softmax with temperature over a small fake logits vector
-function softmaxWithTemperature(logits: number[], temperature: number): number[] {
-  const t = Math.max(temperature, 1e-6); // avoid divide-by-zero
-  const exps = logits.map((z) => Math.exp(z / t));
-  const sum = exps.reduce((a, b) => a + b, 0);
-  return exps.map((e) => e / sum);
-}
-
-// Sample an index from a categorical distribution
-function sampleIndex(probs: number[]): number {
-  const r = Math.random();
-  let acc = 0;
-  for (let i = 0; i < probs.length; i++) {
-    acc += probs[i];
-    if (r <= acc) return i;
-  }
-  return probs.length - 1; // fallback
-}
+// Same seed -> same samples. Pass a different seed on the CLI to see other draws.
+const SEED = Number(process.argv[2] ?? 42);
+const rng = createRng(SEED);
 
 // Simple latency estimator: assume X ms per token for prompt+output
 function estimateLatencyMs(promptTokens: number, outputTokens: number, msPerToken = 5): number {
@@ -52,12 +50,29 @@ const sleep = (ms: number) => new Promise((res) => setTimeout(res, ms));
 const prompt = `You are an assistant. Summarize this paragraph in one sentence:
 Large Language Models (LLMs) operate on tokens, not words. Token counts determine cost, speed, and the effective memory (context window). When inputs exceed the window, earlier tokens fall off.`;
 
-const tokens = tokenizeApprox(prompt);
-console.log(`Tokens (approx):`, tokens.length);
+const tokens = tokenizer.encode(prompt);
+console.log(`Tokens (BPE):`, tokens.length, `(chars/4 heuristic: ${Math.ceil(prompt.length / 4)})`);
+console.log(`First 12 pieces:`, tokenizer.tokenize(prompt).slice(0, 12));
 
 const MAX_CONTEXT = 32;
 const truncated = truncateToContext(tokens, MAX_CONTEXT);
-console.log(`Context window = ${MAX_CONTEXT} tokens; kept last ${truncated.length} tokens.`);
+console.log(`Context window = ${MAX_CONTEXT} tokens; kept last ${truncated.length} tokens:`);
+console.log(`  "...${tokenizer.decode(truncated)}"`);
+
+// Chat history version: pin the system prompt, reserve output tokens, evict the oldest turns.
+const history: ContextMessage[] = [
+  { role: "system", content: "You are a concise assistant." },
+  { role: "user", content: "What is a token?" },
+  { role: "assistant", content: "A token is a sub-word piece the model reads and writes, like 'Hel' + 'lo'." },
+  { role: "user", content: "And what is a context window?" },
+  { role: "assistant", content: "The maximum number of tokens (prompt + output) the model can attend to at once." },
+  { role: "user", content: "So what happens when my chat gets too long?" },
+];
+const fitted = fitToContext(history, { contextWindow: 110, maxTokens: 40 });
+console.log(
+  `Chat fit: ${fitted.usedTokens}/${fitted.budget} prompt tokens, kept ${fitted.kept.length} turns, ` +
+    `evicted ${fitted.evicted.length}: ${fitted.evicted.map((m) => `${m.role}:"${m.content.slice(0, 24)}..."`).join(", ")}`
+);
 
 // --- Demo 2: Temperature sampling ----------------------------------------
 
@@ -67,7 +82,7 @@ const vocab = ["yes", "no", "maybe"];
 
 function sampleWithTemp(temp: number) {
   const probs = softmaxWithTemperature(logits, temp);
-  const idx = sampleIndex(probs);
+  const idx = sampleIndex(probs, rng);
   return { temp, probs, choice: vocab[idx] };
 }
 
@@ -77,7 +92,39 @@ console.log("Sampling with temperature 0.2, 1.0, 1.5:");
   console.log(`  T=${t}: probs=${probs.map(p=>p.toFixed(2)).join(", ")} -> "${choice}"`);
 });
 
-// --- Demo 3: Latency estimation ------------------------------------------
+// --- Demo 3: Decoding knobs on a toy n-gram LM --------------------------
+
+// Train a tiny bigram model on the Day 7 markdown corpus.
+const corpusPath = path.join(__dirname, "..", "day07_chunking", "corpus.txt");
+const lm = NGramModel.fromText(fs.readFileSync(corpusPath, "utf-8"), 2);
+const seedText = "the";
+
+const settings: Array<{ label: string; opts: Omit<GenerateOptions, "maxTokens"> }> = [
+  { label: "greedy (T=0)", opts: { temperature: 0 } },
+  { label: "T=1.0", opts: { temperature: 1.0 } },
+  { label: "T=1.5, top-k=3", opts: { temperature: 1.5, topK: 3 } },
+  { label: "T=1.0, top-p=0.5", opts: { temperature: 1.0, topP: 0.5 } },
+  { label: "T=1.5, min-p=0.2", opts: { temperature: 1.5, minP: 0.2 } },
+  { label: "greedy + freq=1.0", opts: { temperature: 0, frequencyPenalty: 1.0 } },
+  { label: "greedy + presence=1.5", opts: { temperature: 0, presencePenalty: 1.5 } },
+];
+
+console.log(`\nDecoding "${seedText} ..." (bigram LM, vocab=${lm.vocab.length}, seed=${SEED}):`);
+for (const { label, opts } of settings) {
+  const out = generate(lm, seedText, { ...opts, maxTokens: 14, seed: SEED, stop: ["."] });
+  console.log(`  ${label.padEnd(22)} -> ${detokenize(out)}`);
+}
+
+// Re-running with the same seed reproduces the exact sample.
+const again = generate(lm, seedText, { temperature: 1.0, maxTokens: 14, seed: SEED, stop: ["."] });
+console.log(`  ${"T=1.0 (same seed)".padEnd(22)} -> ${detokenize(again)}`);
+
+console.log("Beam search (width=3):");
+for (const beam of beamSearch(lm, seedText, { beamWidth: 3, maxTokens: 14, stop: ["."] })) {
+  console.log(`  logP=${beam.logProb.toFixed(2)} -> ${detokenize(beam.tokens)}`);
+}
+
+// --- Demo 4: Latency estimation ------------------------------------------
 
 const desiredOutputTokens = 40;
 const estMs = estimateLatencyMs(tokens.length, desiredOutputTokens, 4);
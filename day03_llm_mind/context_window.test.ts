@@ -0,0 +1,55 @@
+// day03_llm_mind/context_window.test.ts
+// Run: npm test
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { fitToContext, fitToContextWithSummary, messageTokens, truncateAtSentence, type ContextMessage } from "./context_window.js";
+
+const system: ContextMessage = { role: "system", content: "You are terse." };
+const longQuestion = "Some background. ".repeat(200) + "What is the actual question?";
+
+test("fitToContext: evicts the oldest turns first", () => {
+  const history: ContextMessage[] = [system, ...Array.from({ length: 10 }, (_, i) => ({ role: "user" as const, content: `turn ${i} `.repeat(10) }))];
+  const fitted = fitToContext(history, { contextWindow: 200, maxTokens: 50 });
+  assert.ok(fitted.usedTokens <= fitted.budget);
+  assert.ok(fitted.evicted.length > 0);
+  assert.equal(fitted.messages[0], system);
+  assert.deepEqual(fitted.kept, history.slice(history.length - fitted.kept.length));
+});
+
+test("fitToContext: an oversized latest message throws by default", () => {
+  assert.throws(() => fitToContext([system, { role: "user", content: longQuestion }], { contextWindow: 300, maxTokens: 50 }), /Context overflow/);
+});
+
+test('fitToContext: overflow "truncate" keeps the turn, cut to its tail', () => {
+  const latest: ContextMessage = { role: "user", content: longQuestion };
+  const fitted = fitToContext([system, { role: "assistant", content: "Earlier answer." }, latest], {
+    contextWindow: 300,
+    maxTokens: 50,
+    overflow: "truncate",
+  });
+  assert.equal(fitted.truncated, latest);
+  assert.equal(fitted.kept.length, 1);
+  assert.ok(fitted.kept[0].content.endsWith("What is the actual question?"));
+  assert.ok(longQuestion.endsWith(fitted.kept[0].content));
+  assert.ok(fitted.usedTokens <= fitted.budget);
+  assert.equal(fitted.evicted.length, 1);
+  assert.deepEqual(fitted.messages, [system, fitted.kept[0]]);
+});
+
+test("truncateAtSentence: never stops mid-sentence", () => {
+  const text = "First sentence is short. Second sentence is a little longer than the first. Third one.";
+  assert.equal(truncateAtSentence(text, 1000), text);
+  assert.equal(truncateAtSentence(text, 12), "First sentence is short.");
+  assert.equal(truncateAtSentence("no punctuation at all in this long run of words", 5).split(" ").length < 9, true);
+});
+
+test("fitToContextWithSummary: note holds whole sentences, fullSummary everything", async () => {
+  const history: ContextMessage[] = [system, ...Array.from({ length: 12 }, (_, i) => ({ role: "user" as const, content: `message ${i} `.repeat(12) }))];
+  const summaryText = Array.from({ length: 40 }, (_, i) => `Fact number ${i} was decided.`).join(" ");
+  const fitted = await fitToContextWithSummary(history, { contextWindow: 300, maxTokens: 50, summaryTokens: 60, summarize: () => summaryText });
+  assert.equal(fitted.fullSummary, summaryText);
+  assert.ok(fitted.summary!.endsWith("decided."));
+  assert.ok(summaryText.startsWith(fitted.summary!));
+  assert.ok(messageTokens({ role: "system", content: `Summary of earlier conversation:\n${fitted.summary}` }) <= 60);
+});
@@ -0,0 +1,138 @@
+// day03_llm_mind/context_window.ts
+// Context-window manager: fit a role-tagged chat history into a token budget.
+// - system (or explicitly pinned) messages are always kept
+// - room for the model's output (maxTokens) is reserved up front
+// - the oldest turns are dropped, or summarized into a single system note
+// - the caller gets back exactly which messages were evicted
+// - a latest message that can't fit even alone either throws (default) or is cut down to its last tokens
+
+import { estimateTokens, getDefaultTokenizer } from "./tokenizer.js";
+
+export type ContextRole = "system" | "user" | "assistant" | "tool";
+
+export type ContextMessage = {
+  role: ContextRole;
+  content: string;
+  pinned?: boolean; // keep even if it isn't a system message
+};
+
+export type FitOptions = {
+  contextWindow: number;          // model limit (prompt + output)
+  maxTokens: number;              // reserved for the model's output
+  summaryTokens?: number;         // reserved for a summary of evicted turns (0 = drop only)
+  perMessageOverhead?: number;    // role/separator tokens per message (OpenAI chat format ~4)
+  countTokens?: (text: string) => number;
+  overflow?: "throw" | "truncate"; // latest message bigger than the whole budget: error, or keep its tail
+};
+
+export type FitResult<M extends ContextMessage> = {
+  messages: ContextMessage[]; // final prompt, original order (+ summary note if any)
+  kept: M[];                  // non-pinned messages that survived
+  evicted: M[];               // oldest-first list of dropped messages
+  truncated?: M;              // the original latest message, if overflow: "truncate" had to cut it
+  usedTokens: number;
+  budget: number;             // contextWindow - maxTokens
+};
+
+export type SummarizeFn<M extends ContextMessage> = (evicted: M[]) => string | Promise<string>;
+
+const isPinned = (m: ContextMessage) => m.role === "system" || m.pinned === true;
+
+export function messageTokens(m: ContextMessage, opts: Pick<FitOptions, "perMessageOverhead" | "countTokens"> = {}): number {
+  const count = opts.countTokens ?? estimateTokens;
+  return count(m.content) + (opts.perMessageOverhead ?? 4);
+}
+
+// Drop the oldest non-pinned turns until everything fits.
+// If summaryTokens > 0, that much room is left free for fitToContextWithSummary.
+export function fitToContext<M extends ContextMessage>(messages: M[], opts: FitOptions): FitResult<M> {
+  const budget = opts.contextWindow - opts.maxTokens;
+  const tokensOf = (m: ContextMessage) => messageTokens(m, opts);
+
+  const pinnedTokens = messages.filter(isPinned).reduce((s, m) => s + tokensOf(m), 0);
+  const available = budget - pinnedTokens - (opts.summaryTokens ?? 0);
+
+  if (available < 0) {
+    throw new Error(`Context overflow: pinned messages need ${pinnedTokens} tokens but the prompt budget is ${budget}.`);
+  }
+
+  let history = messages.filter((m) => !isPinned(m));
+  const latest = history[history.length - 1];
+  let truncated: M | undefined;
+  if (latest && tokensOf(latest) > available && opts.overflow === "truncate") {
+    // Keep the end of the message (where the actual question usually is); everything older is evicted.
+    // Cut with the Day 3 tokenizer, then shrink until it fits the caller's own token count too.
+    let room = available - (opts.perMessageOverhead ?? 4);
+    let content = "";
+    while (room > 0) {
+      content = getDefaultTokenizer().truncate(latest.content, room, "tail");
+      if (tokensOf({ ...latest, content }) <= available) break;
+      room--;
+    }
+    truncated = latest;
+    history = [...history.slice(0, -1), { ...latest, content: room > 0 ? content : "" }];
+  } else if (latest && tokensOf(latest) > available) {
+    throw new Error(
+      `Context overflow: pinned messages (${pinnedTokens}) + latest ${latest.role} message (${tokensOf(latest)}) ` +
+        `exceed the ${budget}-token prompt budget (contextWindow=${opts.contextWindow}, maxTokens=${opts.maxTokens}).`
+    );
+  }
+
+  // Walk newest -> oldest and keep a contiguous tail of the conversation.
+  let used = 0;
+  let cut = history.length;
+  while (cut > 0 && used + tokensOf(history[cut - 1]) <= available) {
+    used += tokensOf(history[cut - 1]);
+    cut--;
+  }
+
+  const evicted = history.slice(0, cut);
+  const evictedSet = new Set<ContextMessage>(evicted);
+  const final = messages
+    .map((m) => (truncated && m === truncated ? history[history.length - 1] : m))
+    .filter((m) => !evictedSet.has(m));
+
+  return {
+    messages: final,
+    kept: history.slice(cut),
+    evicted,
+    ...(truncated ? { truncated } : {}),
+    usedTokens: pinnedTokens + used,
+    budget,
+  };
+}
+
+// Cut to at most maxTokens, backing off to the last complete sentence (or word) instead of
+// stopping mid-sentence
+export function truncateAtSentence(text: string, maxTokens: number): string {
+  const cut = getDefaultTokenizer().truncate(text, maxTokens);
+  if (cut === text) return text;
+  const sentenceEnd = Math.max(...[...cut.matchAll(/[.!?](?=\s|$)/g)].map((m) => m.index! + 1), 0);
+  if (sentenceEnd > 0) return cut.slice(0, sentenceEnd);
+  const wordEnd = cut.search(/\s+\S*$/);
+  return wordEnd > 0 ? cut.slice(0, wordEnd) : "";
+}
+
+// Same as fitToContext, but evicted turns are folded into one system note
+// placed right before the first surviving turn. `summary` is what fit in the note (whole sentences
+// only); `fullSummary` is everything summarize() returned, for callers that persist it.
+export async function fitToContextWithSummary<M extends ContextMessage>(
+  messages: M[],
+  opts: FitOptions & { summarize: SummarizeFn<M> }
+): Promise<FitResult<M> & { summary?: string; fullSummary?: string }> {
+  const summaryTokens = opts.summaryTokens ?? 200;
+  const result = fitToContext(messages, { ...opts, summaryTokens });
+  if (result.evicted.length === 0) return result;
+
+  const header = "Summary of earlier conversation:\n";
+  const room = summaryTokens - messageTokens({ role: "system", content: header }, opts);
+  const fullSummary = await opts.summarize(result.evicted);
+  const summary = truncateAtSentence(fullSummary, Math.max(0, room));
+  const note: ContextMessage = { role: "system", content: header + summary };
+
+  const firstKept = result.kept[0];
+  const at = firstKept ? result.messages.indexOf(firstKept) : result.messages.length;
+  const final = [...result.messages.slice(0, at), note, ...result.messages.slice(at)];
+
+  return { ...result, messages: final, summary, fullSummary, usedTokens: result.usedTokens + messageTokens(note, opts) };
+}
@@ -0,0 +1,100 @@
+// day03_llm_mind/decoding.test.ts
+// Run: npm test
+
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import {
+  NGramModel,
+  applyPenalties,
+  beamSearch,
+  createRng,
+  generate,
+  minPFilter,
+  nextTokenDistribution,
+  sampleIndex,
+  softmaxWithTemperature,
+  topKFilter,
+  topPFilter,
+} from "./decoding.js";
+
+const close = (actual: number[], expected: number[]) =>
+  assert.ok(actual.every((x, i) => Math.abs(x - expected[i]) < 1e-9), `${actual} ≈ ${expected}`);
+
+const probs = [0.1, 0.4, 0.05, 0.3, 0.15];
+
+describe("filters", () => {
+  test("top-k keeps the k most likely tokens and renormalizes", () => {
+    close(topKFilter(probs, 2), [0, 0.4 / 0.7, 0, 0.3 / 0.7, 0]);
+    assert.equal(topKFilter(probs, 0), probs);
+    assert.equal(topKFilter(probs, 5), probs);
+  });
+
+  test("top-p keeps the smallest set whose mass reaches p", () => {
+    close(topPFilter(probs, 0.7), [0, 0.4 / 0.7, 0, 0.3 / 0.7, 0]);
+    close(topPFilter(probs, 0.75), [0, 0.4 / 0.85, 0, 0.3 / 0.85, 0.15 / 0.85]);
+    close(topPFilter(probs, 0.01), [0, 1, 0, 0, 0]);
+    assert.equal(topPFilter(probs, 1), probs);
+  });
+
+  test("min-p keeps tokens at least minP times as likely as the best one", () => {
+    close(minPFilter(probs, 0.5), [0, 0.4 / 0.7, 0, 0.3 / 0.7, 0]);
+    close(minPFilter(probs, 0.25), [0.1 / 0.95, 0.4 / 0.95, 0, 0.3 / 0.95, 0.15 / 0.95]);
+    assert.equal(minPFilter(probs, 0), probs);
+  });
+
+  test("temperature sharpens or flattens; 0 is greedy", () => {
+    const logits = [2, 1, 0];
+    const cold = softmaxWithTemperature(logits, 0.5);
+    const hot = softmaxWithTemperature(logits, 2);
+    assert.ok(cold[0] > softmaxWithTemperature(logits, 1)[0] && hot[0] < softmaxWithTemperature(logits, 1)[0]);
+    assert.deepEqual(nextTokenDistribution(logits, { temperature: 0 }), [1, 0, 0]);
+  });
+
+  test("penalties lower the logits of tokens already generated", () => {
+    const counts = new Map([[0, 3], [2, 1]]);
+    assert.deepEqual(applyPenalties([5, 5, 5], counts, 0.5, 1), [5 - 1.5 - 1, 5, 5 - 0.5 - 1]);
+    assert.deepEqual(nextTokenDistribution([5, 4.5, 0], { temperature: 0, presencePenalty: 1 }, new Map([[0, 1]])), [0, 1, 0]);
+  });
+});
+
+describe("seeded sampling", () => {
+  test("the same seed gives the same sequence", () => {
+    const a = createRng(42);
+    const b = createRng(42);
+    const xs = Array.from({ length: 5 }, () => a());
+    assert.deepEqual(xs, Array.from({ length: 5 }, () => b()));
+    assert.notDeepEqual(xs, Array.from({ length: 5 }, createRng(43)));
+    assert.ok(xs.every((x) => x >= 0 && x < 1));
+  });
+
+  test("sampleIndex never picks a filtered-out token", () => {
+    const rng = createRng(1);
+    const filtered = topKFilter(probs, 2);
+    for (let i = 0; i < 200; i++) assert.ok([1, 3].includes(sampleIndex(filtered, rng)));
+  });
+
+  test("generate is reproducible with a seed", () => {
+    const model = NGramModel.fromText("the cat sat on the mat . the cat sat on the rug . the dog ran .", 2);
+    const opts = { maxTokens: 12, temperature: 1, seed: 7 };
+    assert.deepEqual(generate(model, "the", opts), generate(model, "the", opts));
+    assert.deepEqual(generate(model, "the", { maxTokens: 5, temperature: 0 }), ["cat", "sat", "on", "the", "cat"]);
+  });
+});
+
+describe("beamSearch", () => {
+  const model = NGramModel.fromText("a b c . a b c . a b d . a e f .", 2);
+
+  test("beams come back best first; the top beam is the most likely sequence", () => {
+    const beams = beamSearch(model, "a", { beamWidth: 3, maxTokens: 2 });
+    assert.equal(beams.length, 3);
+    assert.deepEqual(beams[0].tokens, ["b", "c"]);
+    assert.ok(beams.every((b, i) => i === 0 || beams[i - 1].score >= b.score));
+    close([beams[0].logProb], [Math.log(3 / 4) + Math.log(2 / 3)]);
+  });
+
+  test("beams that hit a stop token are finished early", () => {
+    const beams = beamSearch(model, "a", { beamWidth: 2, maxTokens: 5, stop: ["."] });
+    assert.deepEqual(beams[0].tokens, ["b", "c", "."]);
+    assert.ok(beams.every((b) => b.tokens.at(-1) === "." || b.tokens.length === 5));
+  });
+});
@@ -0,0 +1,239 @@
+// day03_llm_mind/decoding.ts
+// Decoding simulator: temperature, top-k, top-p, min-p, frequency/presence penalties,
+// a seedable PRNG and beam search over a toy n-gram language model.
+
+// --- Seeded RNG ------------------------------------------------------------
+
+export type Rng = () => number;
+
+// mulberry32: tiny, fast, good enough for demos. Same seed -> same sample sequence.
+export function createRng(seed: number): Rng {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// --- Logit / probability transforms -----------------------------------------
+
+export type SamplingParams = {
+  temperature?: number;      // 0 = greedy
+  topK?: number;             // keep the k most likely tokens (0 = off)
+  topP?: number;             // keep the smallest set whose mass >= p (1 = off)
+  minP?: number;             // keep tokens with p >= minP * p(max) (0 = off)
+  frequencyPenalty?: number; // subtract count * penalty from a token's logit
+  presencePenalty?: number;  // subtract penalty once if the token already appeared
+};
+
+// Softmax with temperature (max-subtracted so low temperatures don't overflow)
+export function softmaxWithTemperature(logits: number[], temperature: number): number[] {
+  const t = Math.max(temperature, 1e-6); // avoid divide-by-zero
+  const max = Math.max(...logits);
+  const exps = logits.map((z) => (Number.isFinite(z) ? Math.exp((z - max) / t) : 0));
+  const sum = exps.reduce((a, b) => a + b, 0);
+  return exps.map((e) => e / sum);
+}
+
+// OpenAI-style penalties: logit - count * frequency - (count > 0) * presence
+export function applyPenalties(
+  logits: number[],
+  counts: Map<number, number>,
+  frequencyPenalty = 0,
+  presencePenalty = 0
+): number[] {
+  if (!frequencyPenalty && !presencePenalty) return logits;
+  return logits.map((z, i) => {
+    const c = counts.get(i) ?? 0;
+    return c > 0 ? z - c * frequencyPenalty - presencePenalty : z;
+  });
+}
+
+function renormalize(probs: number[]): number[] {
+  const sum = probs.reduce((a, b) => a + b, 0);
+  return sum > 0 ? probs.map((p) => p / sum) : probs;
+}
+
+function rankByProb(probs: number[]): number[] {
+  return probs.map((_, i) => i).sort((a, b) => probs[b] - probs[a]);
+}
+
+export function topKFilter(probs: number[], k: number): number[] {
+  if (k <= 0 || k >= probs.length) return probs;
+  const keep = new Set(rankByProb(probs).slice(0, k));
+  return renormalize(probs.map((p, i) => (keep.has(i) ? p : 0)));
+}
+
+export function topPFilter(probs: number[], p: number): number[] {
+  if (p >= 1) return probs;
+  const keep = new Set<number>();
+  let mass = 0;
+  for (const i of rankByProb(probs)) {
+    keep.add(i);
+    mass += probs[i];
+    if (mass >= p) break;
+  }
+  return renormalize(probs.map((q, i) => (keep.has(i) ? q : 0)));
+}
+
+export function minPFilter(probs: number[], minP: number): number[] {
+  if (minP <= 0) return probs;
+  const threshold = minP * Math.max(...probs);
+  return renormalize(probs.map((q) => (q >= threshold ? q : 0)));
+}
+
+// Sample an index from a categorical distribution
+export function sampleIndex(probs: number[], rng: Rng = Math.random): number {
+  const r = rng();
+  let acc = 0;
+  for (let i = 0; i < probs.length; i++) {
+    acc += probs[i];
+    if (r <= acc) return i;
+  }
+  return probs.length - 1; // fallback
+}
+
+function argmax(xs: number[]): number {
+  let best = 0;
+  for (let i = 1; i < xs.length; i++) if (xs[i] > xs[best]) best = i;
+  return best;
+}
+
+// Full pipeline, in the order providers apply it: penalties -> temperature -> top-k -> top-p -> min-p -> sample
+export function nextTokenDistribution(
+  logits: number[],
+  params: SamplingParams,
+  counts: Map<number, number> = new Map()
+): number[] {
+  const penalized = applyPenalties(logits, counts, params.frequencyPenalty, params.presencePenalty);
+  if ((params.temperature ?? 1) === 0) {
+    return penalized.map((_, i) => (i === argmax(penalized) ? 1 : 0));
+  }
+  let probs = softmaxWithTemperature(penalized, params.temperature ?? 1);
+  probs = topKFilter(probs, params.topK ?? 0);
+  probs = topPFilter(probs, params.topP ?? 1);
+  probs = minPFilter(probs, params.minP ?? 0);
+  return probs;
+}
+
+// --- Toy n-gram language model ----------------------------------------------
+
+export function wordTokenize(text: string): string[] {
+  return text.toLowerCase().match(/[a-z0-9]+(?:['-][a-z0-9]+)*|[.,!?;:()]/g) ?? [];
+}
+
+// Word-level n-gram model with "stupid backoff" to shorter contexts.
+export class NGramModel {
+  readonly vocab: string[];
+  private index: Map<string, number>;
+  private tables: Map<string, Map<number, number>>[]; // tables[k]: (k-word context) -> next-token counts
+
+  private constructor(readonly n: number, tokens: string[]) {
+    this.vocab = [...new Set(tokens)].sort();
+    this.index = new Map(this.vocab.map((w, i) => [w, i]));
+    this.tables = Array.from({ length: n }, () => new Map());
+
+    for (let i = 0; i < tokens.length; i++) {
+      const next = this.index.get(tokens[i])!;
+      for (let k = 0; k < n && k <= i; k++) {
+        const key = tokens.slice(i - k, i).join(" ");
+        const row = this.tables[k].get(key) ?? new Map<number, number>();
+        row.set(next, (row.get(next) ?? 0) + 1);
+        this.tables[k].set(key, row);
+      }
+    }
+  }
+
+  static fromText(text: string, n = 3): NGramModel {
+    return new NGramModel(n, wordTokenize(text));
+  }
+
+  tokenId(word: string): number | undefined {
+    return this.index.get(word);
+  }
+
+  // Log-probabilities for the next token, backing off until a context has been seen.
+  logits(context: string[]): number[] {
+    for (let k = Math.min(this.n - 1, context.length); k >= 0; k--) {
+      const row = this.tables[k].get(context.slice(context.length - k).join(" "));
+      if (!row) continue;
+      const total = [...row.values()].reduce((a, b) => a + b, 0);
+      return this.vocab.map((_, i) => (row.has(i) ? Math.log(row.get(i)! / total) : -Infinity));
+    }
+    return this.vocab.map(() => -Math.log(this.vocab.length));
+  }
+}
+
+// --- Generation ---------------------------------------------------------------
+
+export type GenerateOptions = SamplingParams & {
+  maxTokens: number;
+  seed?: number;
+  stop?: string[]; // stop after emitting any of these tokens
+};
+
+export function generate(model: NGramModel, prompt: string, opts: GenerateOptions): string[] {
+  const rng = opts.seed === undefined ? Math.random : createRng(opts.seed);
+  const context = wordTokenize(prompt);
+  const out: string[] = [];
+  const counts = new Map<number, number>();
+
+  for (let step = 0; step < opts.maxTokens; step++) {
+    const probs = nextTokenDistribution(model.logits(context), opts, counts);
+    const id = sampleIndex(probs, rng);
+    const word = model.vocab[id];
+
+    out.push(word);
+    context.push(word);
+    counts.set(id, (counts.get(id) ?? 0) + 1);
+    if (opts.stop?.includes(word)) break;
+  }
+  return out;
+}
+
+export type Beam = { tokens: string[]; logProb: number; score: number };
+
+// Keep the `beamWidth` best partial sequences at every step.
+// lengthPenalty > 0 favours longer outputs (score = logProb / len^lengthPenalty).
+export function beamSearch(
+  model: NGramModel,
+  prompt: string,
+  opts: { beamWidth: number; maxTokens: number; lengthPenalty?: number; stop?: string[] }
+): Beam[] {
+  const prefix = wordTokenize(prompt);
+  const alpha = opts.lengthPenalty ?? 0;
+  const score = (logProb: number, len: number) => logProb / Math.pow(Math.max(len, 1), alpha);
+
+  let beams: Beam[] = [{ tokens: [], logProb: 0, score: 0 }];
+  const finished: Beam[] = [];
+
+  for (let step = 0; step < opts.maxTokens && beams.length; step++) {
+    const candidates: Beam[] = [];
+    for (const beam of beams) {
+      const logits = model.logits([...prefix, ...beam.tokens]);
+      logits.forEach((lp, id) => {
+        if (!Number.isFinite(lp)) return;
+        const tokens = [...beam.tokens, model.vocab[id]];
+        const logProb = beam.logProb + lp;
+        candidates.push({ tokens, logProb, score: score(logProb, tokens.length) });
+      });
+    }
+
+    candidates.sort((a, b) => b.score - a.score);
+    beams = [];
+    for (const c of candidates.slice(0, opts.beamWidth)) {
+      if (opts.stop?.includes(c.tokens[c.tokens.length - 1])) finished.push(c);
+      else beams.push(c);
+    }
+  }
+
+  return [...finished, ...beams].sort((a, b) => b.score - a.score).slice(0, opts.beamWidth);
+}
+
+// Join word tokens back into readable text ("hello , world ." -> "hello, world.")
+export function detokenize(tokens: string[]): string {
+  return tokens.join(" ").replace(/ ([.,!?;:)])/g, "$1").replace(/\( /g, "(");
+}
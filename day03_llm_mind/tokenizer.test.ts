@@ -0,0 +1,72 @@
+// day03_llm_mind/tokenizer.test.ts
+// Run: npm test
+
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { BpeTokenizer, getDefaultTokenizer, trainBpe } from "./tokenizer.js";
+
+const tokenizer = getDefaultTokenizer();
+
+const ROUND_TRIP = [
+  "Hello, world!",
+  "Retrieval-Augmented Generation (RAG) combines retrieval with generation.",
+  "const x = await fetch(url);\n  return x.json();",
+  "Ünïcödé, 日本語, emoji 🙂👍🏽, and a zero\u200Bwidth space",
+  "   leading and trailing whitespace \n\n\t",
+  "it's they're we've I'm you'll he'd",
+  "",
+];
+
+describe("BpeTokenizer: shipped vocab", () => {
+  test("decode(encode(text)) === text", () => {
+    for (const text of ROUND_TRIP) assert.equal(tokenizer.decode(tokenizer.encode(text)), text);
+  });
+
+  test("count matches encode and spans", () => {
+    for (const text of ROUND_TRIP) {
+      assert.equal(tokenizer.count(text), tokenizer.encode(text).length);
+      assert.equal(tokenizer.spans(text).reduce((s, span) => s + span.tokens, 0), tokenizer.count(text));
+      assert.equal(tokenizer.spans(text).map((span) => span.text).join(""), text);
+    }
+  });
+
+  // Fixture counts for bpe_vocab.json: if these change, the vocab changed (re-check the Day 3 README numbers)
+  test("token count fixtures", () => {
+    assert.deepEqual(tokenizer.tokenize("Hello, world!"), ["H", "ell", "o", ",", " w", "or", "ld", "!"]);
+    assert.equal(tokenizer.count("Retrieval-Augmented Generation (RAG) combines retrieval with generation."), 15);
+    assert.equal(tokenizer.count("const x = await fetch(url);"), 16);
+    assert.equal(tokenizer.count("日本語"), 9); // no merges for CJK: one token per byte
+    assert.equal(tokenizer.count(""), 0);
+  });
+});
+
+describe("BpeTokenizer.truncate", () => {
+  test("never cuts inside a UTF-8 character", () => {
+    assert.equal(tokenizer.truncate("日本語日本語", 2), "");
+    assert.equal(tokenizer.truncate("日本語日本語", 4), "日");
+    assert.equal(tokenizer.truncate("日本語日本語", 4, "tail"), "語");
+    for (let n = 0; n <= 20; n++) {
+      for (const keep of ["head", "tail"] as const) {
+        const out = tokenizer.truncate("héllo wörld 🙂 日本語", n, keep);
+        assert.ok(!out.includes("�"), `n=${n} keep=${keep}: ${JSON.stringify(out)}`);
+        assert.ok(tokenizer.count(out) <= n);
+      }
+    }
+  });
+
+  test("keeps head or tail within the budget", () => {
+    const text = "one two three four five six seven eight nine ten";
+    assert.equal(tokenizer.truncate(text, 100), text);
+    assert.ok(text.startsWith(tokenizer.truncate(text, 4)));
+    assert.ok(text.endsWith(tokenizer.truncate(text, 4, "tail")));
+    assert.equal(tokenizer.count(tokenizer.truncate(text, 4)), 4);
+  });
+});
+
+test("trainBpe: learns the most frequent pairs first and round-trips", () => {
+  const vocab = trainBpe("low low low lower lowest newer newest", 10);
+  const tok = new BpeTokenizer(vocab);
+  assert.equal(vocab.merges[0], "l o");
+  assert.deepEqual(tok.tokenize("low"), ["low"]);
+  assert.equal(tok.decode(tok.encode("slower 🙂")), "slower 🙂");
+});
@@ -0,0 +1,257 @@
+// day03_llm_mind/tokenizer.ts
+// Byte-level BPE tokenizer (GPT-2 style) in pure TypeScript.
+// Loads a vocab/merges file from disk and supports encode / decode / count / truncate.
+// Train a vocab with: npm run dev:day3:bpe
+
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// A pre-token ("word") of the input and how many tokens it encodes to. Token boundaries never
+// cross these spans, so cutting text between spans never splits a token.
+export type TokenSpan = { text: string; start: number; end: number; tokens: number };
+
+export type BpeVocabFile = {
+  version: 1;
+  vocab: Record<string, number>; // token string (byte-level unicode) -> id
+  merges: string[];              // "left right", in priority order
+};
+
+// Same pre-tokenization split as GPT-2: contractions, words, numbers, punctuation, whitespace.
+const PRETOKENIZE = /'s|'t|'re|'ve|'m|'ll|'d| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+(?!\S)|\s+/gu;
+
+// Map every byte to a printable unicode char so tokens stay readable strings (GPT-2 trick).
+function bytesToUnicode(): string[] {
+  const printable: number[] = [];
+  for (let b = 33; b <= 126; b++) printable.push(b);
+  for (let b = 161; b <= 172; b++) printable.push(b);
+  for (let b = 174; b <= 255; b++) printable.push(b);
+
+  const table: string[] = new Array(256);
+  let extra = 0;
+  for (let b = 0; b < 256; b++) {
+    table[b] = printable.includes(b) ? String.fromCharCode(b) : String.fromCharCode(256 + extra++);
+  }
+  return table;
+}
+
+const BYTE_TO_CHAR = bytesToUnicode();
+const CHAR_TO_BYTE = new Map(BYTE_TO_CHAR.map((c, b) => [c, b]));
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder("utf-8");
+
+const isContinuation = (b: number) => (b & 0xc0) === 0x80;
+
+// Length of the longest prefix of `bytes` that ends on a complete UTF-8 character
+function completeEnd(bytes: number[]): number {
+  let lead = bytes.length - 1;
+  while (lead > 0 && bytes.length - lead < 4 && isContinuation(bytes[lead])) lead--;
+  if (lead < 0) return 0;
+  const b = bytes[lead];
+  const size = b < 0x80 ? 1 : b >= 0xf0 ? 4 : b >= 0xe0 ? 3 : b >= 0xc0 ? 2 : 1;
+  return lead + size <= bytes.length ? bytes.length : lead;
+}
+
+// Index of the first byte that starts a UTF-8 character (skips leading continuation bytes)
+function completeStart(bytes: number[]): number {
+  let start = 0;
+  while (start < bytes.length && start < 3 && isContinuation(bytes[start])) start++;
+  return start;
+}
+
+function pretokenize(text: string): string[] {
+  return text.match(PRETOKENIZE) ?? [];
+}
+
+// "hello" -> ["h","e","l","l","o"] in byte-level unicode
+function toByteSymbols(word: string): string[] {
+  return Array.from(encoder.encode(word), (b) => BYTE_TO_CHAR[b]);
+}
+
+export class BpeTokenizer {
+  private vocab: Map<string, number>;
+  private idToToken: string[];
+  private ranks: Map<string, number>;
+  private cache = new Map<string, number[]>();
+
+  constructor(file: BpeVocabFile) {
+    this.vocab = new Map(Object.entries(file.vocab));
+    this.idToToken = [];
+    for (const [tok, id] of this.vocab) this.idToToken[id] = tok;
+    this.ranks = new Map(file.merges.map((m, i) => [m, i]));
+  }
+
+  static fromFile(filePath: string): BpeTokenizer {
+    const raw = JSON.parse(fs.readFileSync(filePath, "utf-8")) as BpeVocabFile;
+    if (raw.version !== 1 || !raw.vocab || !Array.isArray(raw.merges)) {
+      throw new Error(`Invalid BPE vocab file: ${filePath}`);
+    }
+    return new BpeTokenizer(raw);
+  }
+
+  get vocabSize(): number {
+    return this.vocab.size;
+  }
+
+  // Apply merges to a single pre-token, lowest rank first (cached per word).
+  private encodeWord(word: string): number[] {
+    const cached = this.cache.get(word);
+    if (cached) return cached;
+
+    let symbols = toByteSymbols(word);
+    while (symbols.length > 1) {
+      let bestRank = Infinity;
+      let bestIdx = -1;
+      for (let i = 0; i < symbols.length - 1; i++) {
+        const rank = this.ranks.get(`${symbols[i]} ${symbols[i + 1]}`);
+        if (rank !== undefined && rank < bestRank) {
+          bestRank = rank;
+          bestIdx = i;
+        }
+      }
+      if (bestIdx === -1) break;
+
+      const left = symbols[bestIdx];
+      const right = symbols[bestIdx + 1];
+      const merged: string[] = [];
+      for (let i = 0; i < symbols.length; i++) {
+        if (i < symbols.length - 1 && symbols[i] === left && symbols[i + 1] === right) {
+          merged.push(left + right);
+          i++;
+        } else {
+          merged.push(symbols[i]);
+        }
+      }
+      symbols = merged;
+    }
+
+    const ids = symbols.map((s) => {
+      const id = this.vocab.get(s);
+      if (id === undefined) throw new Error(`Token missing from vocab: ${JSON.stringify(s)}`);
+      return id;
+    });
+    this.cache.set(word, ids);
+    return ids;
+  }
+
+  encode(text: string): number[] {
+    const ids: number[] = [];
+    for (const word of pretokenize(text)) ids.push(...this.encodeWord(word));
+    return ids;
+  }
+
+  private bytes(ids: number[]): number[] {
+    const bytes: number[] = [];
+    for (const id of ids) {
+      const tok = this.idToToken[id];
+      if (tok === undefined) throw new Error(`Unknown token id: ${id}`);
+      for (const ch of tok) bytes.push(CHAR_TO_BYTE.get(ch)!);
+    }
+    return bytes;
+  }
+
+  decode(ids: number[]): string {
+    return decoder.decode(new Uint8Array(this.bytes(ids)));
+  }
+
+  // Human-readable pieces, e.g. ["Hello", " world", "!"]
+  tokenize(text: string): string[] {
+    return this.encode(text).map((id) => this.decode([id]));
+  }
+
+  count(text: string): number {
+    let n = 0;
+    for (const word of pretokenize(text)) n += this.encodeWord(word).length;
+    return n;
+  }
+
+  spans(text: string): TokenSpan[] {
+    return Array.from(text.matchAll(PRETOKENIZE), (m) => ({
+      text: m[0],
+      start: m.index!,
+      end: m.index! + m[0].length,
+      tokens: this.encodeWord(m[0]).length,
+    }));
+  }
+
+  // Keep at most maxTokens tokens, from the start ("head") or the end ("tail").
+  // Byte-level tokens can end inside a multi-byte character ("日" is 3 bytes); the partial
+  // character is dropped rather than decoded to "\uFFFD".
+  truncate(text: string, maxTokens: number, keep: "head" | "tail" = "head"): string {
+    const ids = this.encode(text);
+    if (ids.length <= maxTokens) return text;
+    const kept = keep === "head" ? ids.slice(0, maxTokens) : ids.slice(ids.length - maxTokens);
+    const bytes = this.bytes(kept);
+    return decoder.decode(new Uint8Array(keep === "head" ? bytes.slice(0, completeEnd(bytes)) : bytes.slice(completeStart(bytes))));
+  }
+}
+
+// Learn merges from raw text: start from 256 byte symbols, repeatedly merge the most frequent pair.
+export function trainBpe(corpus: string, numMerges: number): BpeVocabFile {
+  const vocab: Record<string, number> = {};
+  BYTE_TO_CHAR.forEach((c, b) => (vocab[c] = b));
+  let nextId = 256;
+
+  const wordFreq = new Map<string, number>();
+  for (const w of pretokenize(corpus)) wordFreq.set(w, (wordFreq.get(w) ?? 0) + 1);
+  const words = [...wordFreq].map(([w, freq]) => ({ symbols: toByteSymbols(w), freq }));
+
+  const merges: string[] = [];
+  for (let m = 0; m < numMerges; m++) {
+    const pairCounts = new Map<string, number>();
+    for (const { symbols, freq } of words) {
+      for (let i = 0; i < symbols.length - 1; i++) {
+        const key = `${symbols[i]} ${symbols[i + 1]}`;
+        pairCounts.set(key, (pairCounts.get(key) ?? 0) + freq);
+      }
+    }
+
+    let best = "";
+    let bestCount = 1; // a pair seen only once isn't worth a merge
+    for (const [pair, count] of pairCounts) {
+      if (count > bestCount) {
+        best = pair;
+        bestCount = count;
+      }
+    }
+    if (!best) break;
+
+    const [left, right] = best.split(" ");
+    merges.push(best);
+    if (!(left + right in vocab)) vocab[left + right] = nextId++;
+
+    for (const w of words) {
+      const next: string[] = [];
+      for (let i = 0; i < w.symbols.length; i++) {
+        if (i < w.symbols.length - 1 && w.symbols[i] === left && w.symbols[i + 1] === right) {
+          next.push(left + right);
+          i++;
+        } else {
+          next.push(w.symbols[i]);
+        }
+      }
+      w.symbols = next;
+    }
+  }
+
+  return { version: 1, vocab, merges };
+}
+
+export const DEFAULT_VOCAB_PATH = path.join(__dirname, "bpe_vocab.json");
+
+let defaultTokenizer: BpeTokenizer | null = null;
+
+// Lazily load the vocab shipped with Day 3 (trained on this repo's READMEs).
+export function getDefaultTokenizer(): BpeTokenizer {
+  if (!defaultTokenizer) defaultTokenizer = BpeTokenizer.fromFile(DEFAULT_VOCAB_PATH);
+  return defaultTokenizer;
+}
+
+// Drop-in replacement for the old `Math.ceil(text.length / 4)` heuristic.
+export function estimateTokens(text: string): number {
+  return getDefaultTokenizer().count(text);
+}
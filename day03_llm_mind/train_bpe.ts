@@ -0,0 +1,42 @@
+// day03_llm_mind/train_bpe.ts
+// Train the Day 3 BPE vocab on every README in the repo and write bpe_vocab.json.
+// Run: npx tsx day03_llm_mind/train_bpe.ts [numMerges]
+
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { BpeTokenizer, DEFAULT_VOCAB_PATH, trainBpe } from "./tokenizer.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+function loadTrainingCorpus(): string {
+  const root = path.join(__dirname, "..");
+  const texts: string[] = [];
+  const days = fs.readdirSync(root).filter((name) => /^day\d+_/.test(name)).sort();
+  for (const day of days) {
+    const readme = path.join(root, day, "README.md");
+    if (fs.existsSync(readme)) texts.push(fs.readFileSync(readme, "utf-8"));
+  }
+  texts.push(fs.readFileSync(path.join(root, "README.md"), "utf-8"));
+  return texts.join("\n\n");
+}
+
+async function main() {
+  const numMerges = Number(process.argv[2] ?? 2000);
+  const corpus = loadTrainingCorpus();
+
+  console.log(`Training BPE on ${corpus.length} chars with up to ${numMerges} merges...`);
+  const vocabFile = trainBpe(corpus, numMerges);
+  fs.writeFileSync(DEFAULT_VOCAB_PATH, JSON.stringify(vocabFile), "utf-8");
+
+  const tok = new BpeTokenizer(vocabFile);
+  const sample = "Retrieval-Augmented Generation keeps answers grounded in your docs.";
+  console.log(`Wrote ${vocabFile.merges.length} merges (vocab size ${tok.vocabSize}) to ${DEFAULT_VOCAB_PATH}`);
+  console.log(`Sample: ${JSON.stringify(tok.tokenize(sample))}`);
+  console.log(`Tokens: ${tok.count(sample)} (chars/4 heuristic: ${Math.ceil(sample.length / 4)})`);
+}
+
+main().catch((err) => {
+  console.error("BPE training failed:", err);
+});
@@ -5,6 +5,10 @@
 //
 // Run: npx tsx day04_prompt_engineering/code.ts
 
+import { createTemplate, formatExamples, PARTIALS } from './templates.js';
+import { ExampleStore, type SelectOptions } from './example_selector.js';
+import { PromptRegistry } from './prompt_registry.js';
+
 type PromptType =
   | 'instruction'
   | 'role'
@@ -16,43 +20,64 @@ interface PromptOptions {
   role?: string;
   audience?: string;
   formatHint?: string;
+  context?: string;
   examples?: { input: string; output: string }[];
+  // Pick examples per input instead of using a fixed list (overrides `examples`)
+  exampleStore?: ExampleStore;
+  selectOptions?: SelectOptions;
 }
 
-// Build a reusable prompt template
+// One template per prompt type. Shared pieces (role, audience, format, few-shot)
+// are partials, and each template's variables are type-checked at compile time.
+const templates = {
+  instruction: createTemplate(
+    '{{> role}}\n\nYour task: {{task}}\n\nAnswer step-by-step only if necessary.',
+    { name: 'instruction', partials: PARTIALS }
+  ),
+  role: createTemplate('{{> role}}\n{{> audience}}\n\nYour task: {{task}}', {
+    name: 'role',
+    partials: PARTIALS,
+  }),
+  context: createTemplate(
+    '{{> role}}\n\nUse ONLY the context below.\n\nContext:\n{{context}}\n\nYour task: {{task}}',
+    { name: 'context', partials: PARTIALS }
+  ),
+  few_shot: createTemplate('{{> role}}\n{{> format}}\n\n{{> fewShot}}\n\nYour task: {{task}}', {
+    name: 'few_shot',
+    partials: PARTIALS,
+  }),
+  constrained: createTemplate(
+    '{{> role}}\n{{> format}}\n\nYour task: {{task}}\n\nFollow the format exactly and add nothing else.',
+    { name: 'constrained', partials: PARTIALS }
+  ),
+};
+
+// Build a prompt from the template that matches the prompt type
 function buildPrompt(
   type: PromptType,
   task: string,
   options: PromptOptions = {}
 ): string {
-  const { role, audience, formatHint, examples } = options;
-
-  const header = role ? `You are ${role}.` : 'You are a helpful assistant.';
+  const { role, audience, formatHint, context, exampleStore, selectOptions } = options;
+  const examples = exampleStore ? exampleStore.select(task, selectOptions) : options.examples;
 
-  const audienceLine = audience ? `Target audience: ${audience}.` : '';
-
-  const formatLine = formatHint ? `Format: ${formatHint}.` : '';
-
-  let examplesBlock = '';
-  if (examples && examples.length > 0) {
-    examplesBlock =
-      'Here are some examples: ' +
-      examples
-        .map(
-          (ex, i) =>
-            `Example ${i + 1}: User: ${ex.input} Assistant: ${ex.output}`
-        )
-        .join('');
+  switch (type) {
+    case 'instruction':
+      return templates.instruction.render({ task, role });
+    case 'role':
+      return templates.role.render({ task, role, audience });
+    case 'context':
+      return templates.context.render({ task, role, context: context ?? '' });
+    case 'few_shot':
+      return templates.few_shot.render({
+        task,
+        role,
+        formatHint,
+        examples: examples?.length ? formatExamples(examples) : undefined,
+      });
+    case 'constrained':
+      return templates.constrained.render({ task, role, formatHint });
   }
-
-  return (
-    header +
-    audienceLine +
-    formatLine +
-    examplesBlock +
-    `Your task: ${task}` +
-    'Answer step-by-step only if necessary.'
-  );
 }
 
 console.log('=== Instruction Prompt ===');
@@ -92,6 +117,60 @@ console.log(
   )
 );
 
+console.log('\n=== Context Prompt ===');
+console.log(
+  buildPrompt('context', 'What is an embedding?', {
+    context: 'Embeddings convert text into vectors so similar meanings end up close together.',
+  })
+);
+
+// Dynamic few-shot: the store picks the examples closest to the input,
+// MMR keeps them from being near-duplicates, and maxTokens caps the block.
+console.log('\n=== Few-Shot with Selected Examples ===');
+const exampleStore = new ExampleStore([
+  { input: 'The battery lasts all day, really happy with it.', output: 'positive' },
+  { input: 'Battery died after two hours, very disappointed.', output: 'negative' },
+  { input: 'The battery drains fast and the phone gets hot.', output: 'negative' },
+  { input: 'Shipping was quick and the box was well packed.', output: 'positive' },
+  { input: 'The delivery was late and the package was damaged.', output: 'negative' },
+  { input: 'Customer support solved my issue in minutes.', output: 'positive' },
+  { input: 'Support never answered my emails.', output: 'negative' },
+  { input: 'Great screen, colors look amazing.', output: 'positive' },
+]);
+const review = 'Review: the battery drains overnight even when idle.';
+
+for (const strategy of ['similarity', 'mmr'] as const) {
+  const picked = exampleStore.select(review, { k: 3, strategy, lambda: 0.3 });
+  console.log(`${strategy}:`, picked.map((ex) => `${ex.score.toFixed(2)} "${ex.input}"`));
+}
+
+console.log(
+  buildPrompt('few_shot', review, {
+    formatHint: 'Respond with a single word: positive or negative.',
+    exampleStore,
+    selectOptions: { k: 3, strategy: 'mmr', lambda: 0.3, maxTokens: 80 },
+  })
+);
+
+// Prompts can also be versioned on disk (prompts/*.json) and resolved at runtime.
+console.log('\n=== Prompt Registry ===');
+const registry = new PromptRegistry();
+for (const v of registry.versions('assistant_system')) {
+  console.log(`${v.name}@${v.version} [${v.hash}] by ${v.metadata.author} for ${v.metadata.modelTarget}: ${v.metadata.changelog}`);
+}
+console.log('latest ->', registry.resolve('assistant_system@latest').version);
+console.log(registry.diff('assistant_system', '1.0.0', 'latest'));
+
+// Missing variables fail loudly instead of silently producing "undefined" in the prompt.
+console.log('\n=== Validation ===');
+try {
+  const raw = createTemplate('Summarize {{document}} for {{audience}}.', { name: 'summary' });
+  // @ts-expect-error -- `audience` is missing: the compiler catches it, and so does render()
+  raw.render({ document: 'the Q3 report' });
+} catch (err) {
+  console.log((err as Error).message);
+}
+
 // In a real app, you would send these prompt strings to an LLM via an API
 // (e.g., OpenAI / Anthropic / local model). Here we only design prompts
 // so you can clearly see the structure without any framework magic.
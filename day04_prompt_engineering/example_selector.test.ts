@@ -0,0 +1,50 @@
+// day04_prompt_engineering/example_selector.test.ts
+// Run: npm test
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { estimateTokens } from '../day03_llm_mind/tokenizer.js';
+import { ExampleStore } from './example_selector.js';
+import { formatExamples, type FewShotExample } from './templates.js';
+
+// Hand-made vectors so scores are obvious: the query points along the first axis
+const VECTORS: Record<string, number[]> = {
+  query: [1, 0, 0],
+  'refund a1': [1, 0.1, 0],
+  'refund a2': [1, 0.12, 0],
+  'shipping b': [0.6, 0, 1],
+  'weather c': [0, 1, 0],
+};
+const embedFn = (text: string) => VECTORS[text] ?? [0, 0, 1];
+const example = (input: string, output = 'ok'): FewShotExample => ({ input, output });
+const store = new ExampleStore(['weather c', 'shipping b', 'refund a2', 'refund a1'].map((i) => example(i)), embedFn);
+
+test('similarity: top k by cosine, best first', () => {
+  const picked = store.select('query', { k: 3 });
+  assert.deepEqual(picked.map((e) => e.input), ['refund a1', 'refund a2', 'shipping b']);
+  assert.ok(picked[0].score > picked[1].score && picked[1].score > picked[2].score);
+});
+
+test('mmr: lambda 1 is pure relevance, lambda 0 avoids near-duplicates', () => {
+  assert.deepEqual(store.select('query', { k: 2, strategy: 'mmr', lambda: 1 }).map((e) => e.input), ['refund a1', 'refund a2']);
+  assert.deepEqual(store.select('query', { k: 2, strategy: 'mmr', lambda: 0 }).map((e) => e.input), ['refund a1', 'weather c']);
+  assert.deepEqual(store.select('query', { k: 2, strategy: 'mmr', lambda: 0.5 }).map((e) => e.input), ['refund a1', 'shipping b']);
+});
+
+test('minScore drops unrelated examples, k caps the count', () => {
+  assert.deepEqual(store.select('query', { k: 10, minScore: 0.3 }).map((e) => e.input), ['refund a1', 'refund a2', 'shipping b']);
+  assert.deepEqual(store.select('query', { k: 0 }), []);
+  assert.deepEqual(new ExampleStore([], embedFn).select('query'), []);
+});
+
+test('maxTokens skips an example that does not fit and keeps smaller ones after it', () => {
+  const long = example('refund a1', 'A very long answer about refunds. '.repeat(20));
+  const short = [example('refund a2', 'Five days.'), example('shipping b', 'Two weeks.')];
+  const s = new ExampleStore([long, ...short], embedFn);
+  const budget = estimateTokens(formatExamples(short));
+  assert.ok(estimateTokens(formatExamples([long])) > budget);
+
+  const picked = s.select('query', { k: 3, maxTokens: budget });
+  assert.deepEqual(picked.map((e) => e.input), ['refund a2', 'shipping b']);
+  assert.ok(estimateTokens(formatExamples(picked)) <= budget);
+});
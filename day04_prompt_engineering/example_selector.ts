@@ -0,0 +1,92 @@
+// day04_prompt_engineering/example_selector.ts
+// Pick the few-shot examples that matter for THIS input instead of pasting a fixed list.
+//
+// - similarity: top-k examples by cosine similarity to the input
+// - mmr:        max-marginal-relevance — relevant, but not near-duplicates of each other
+// - maxTokens:  cap on the rendered examples block (keeps selection order, skips what doesn't fit)
+//
+// Runs offline by default with the hashed bag-of-words embedding from Day 25.
+
+import { estimateTokens } from '../day03_llm_mind/tokenizer.js';
+import { cosine, embed } from '../day25_conversation_memory/hashed_embedding.js';
+import { formatExamples, type FewShotExample } from './templates.js';
+
+export type EmbedFn = (text: string) => number[];
+
+export interface SelectOptions {
+  k?: number; // how many examples at most (default 3)
+  strategy?: 'similarity' | 'mmr';
+  lambda?: number; // mmr trade-off: 1 = pure relevance, 0 = pure diversity (default 0.5)
+  maxTokens?: number; // token budget for the formatted examples block
+  minScore?: number; // drop examples less similar than this
+}
+
+export interface ScoredExample extends FewShotExample {
+  score: number; // cosine similarity to the input
+}
+
+export class ExampleStore {
+  private items: { example: FewShotExample; vector: number[] }[] = [];
+
+  // Examples are embedded by their input side — that's what the user's input is compared to.
+  constructor(examples: FewShotExample[] = [], private embedFn: EmbedFn = embed) {
+    this.add(...examples);
+  }
+
+  get size() {
+    return this.items.length;
+  }
+
+  add(...examples: FewShotExample[]) {
+    for (const example of examples) {
+      this.items.push({ example, vector: this.embedFn(example.input) });
+    }
+    return this;
+  }
+
+  select(input: string, opts: SelectOptions = {}): ScoredExample[] {
+    const { k = 3, strategy = 'similarity', lambda = 0.5, maxTokens, minScore = -Infinity } = opts;
+    if (k <= 0 || !this.items.length) return [];
+
+    const query = this.embedFn(input);
+    const candidates = this.items
+      .map((item) => ({ ...item, score: cosine(query, item.vector) }))
+      .filter((c) => c.score >= minScore)
+      .sort((a, b) => b.score - a.score);
+
+    let picked: typeof candidates;
+    if (strategy === 'mmr') {
+      picked = [];
+      const pool = [...candidates];
+      while (picked.length < k && pool.length) {
+        let bestIdx = 0;
+        let bestMmr = -Infinity;
+        pool.forEach((c, i) => {
+          const redundancy = picked.length ? Math.max(...picked.map((p) => cosine(c.vector, p.vector))) : 0;
+          const mmr = lambda * c.score - (1 - lambda) * redundancy;
+          if (mmr > bestMmr) {
+            bestMmr = mmr;
+            bestIdx = i;
+          }
+        });
+        picked.push(pool.splice(bestIdx, 1)[0]);
+      }
+    } else {
+      picked = candidates.slice(0, k);
+    }
+
+    const selected = picked.map((c) => ({ ...c.example, score: c.score }));
+    return maxTokens === undefined ? selected : fitExamples(selected, maxTokens);
+  }
+}
+
+// Keep examples in selection order, skipping any that would push the formatted block over budget
+// (a shorter one further down may still fit).
+function fitExamples(examples: ScoredExample[], maxTokens: number): ScoredExample[] {
+  const kept: ScoredExample[] = [];
+  for (const ex of examples) {
+    if (estimateTokens(formatExamples([...kept, ex])) > maxTokens) continue;
+    kept.push(ex);
+  }
+  return kept;
+}
@@ -2,25 +2,34 @@
 // LangChain prompt engineering demo using:
 // - system roles
 // - anchored instruction
-// - JSON output constraints
+// - JSON output constraints (validated with zod, repaired on failure)
 
 import 'dotenv/config';
 import { ChatOpenAI } from '@langchain/openai';
-import { SystemMessage, HumanMessage } from '@langchain/core/messages';
+import { z } from 'zod';
+import { generateStructured, type StructuredMessage } from './structured_output.js';
 
 const model = new ChatOpenAI({
   model: process.env.MODEL_NAME || 'gpt-4o-mini',
   temperature: 0.2,
 });
 
+// The shape we asked for — "Return JSON ONLY" is checked, not trusted
+const EmbeddingExplanation = z.object({
+  definition: z.string().min(1),
+  simple_example: z.string().min(1),
+  real_use_case: z.string().min(1),
+  analogy: z.string().min(1),
+});
+
 async function run() {
-  const messages = [
+  const messages: StructuredMessage[] = [
     {
-      role: 'system' as const,
+      role: 'system',
       content: 'You are an expert educator. Be concise and beginner-friendly.',
     },
     {
-      role: 'user' as const,
+      role: 'user',
       content: `
 IMPORTANT: Explain embeddings in JSON format.
 
@@ -40,8 +49,21 @@ Remember: Return JSON ONLY.
     },
   ];
 
-  const res = await model.invoke(messages);
-  console.log(res.content);
+  const result = await generateStructured({
+    schema: EmbeddingExplanation,
+    messages,
+    call: async (msgs) => String((await model.invoke(msgs)).content),
+    maxAttempts: 3,
+  });
+
+  if (!result.ok) {
+    console.error(result.error);
+    result.attempts.forEach((a, i) => console.error(`\nAttempt ${i + 1} raw output:\n${a.raw}`));
+    return;
+  }
+
+  console.log(`Valid JSON after ${result.attempts.length} attempt(s):`);
+  console.log(result.value);
 }
 
 run().catch((err) => console.error('Error:', err));
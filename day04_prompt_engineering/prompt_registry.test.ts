@@ -0,0 +1,51 @@
+// day04_prompt_engineering/prompt_registry.test.ts
+// Run: npm test
+
+import assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { test } from 'node:test';
+import { PromptRegistry, hashContent } from './prompt_registry.js';
+
+const meta = { author: 'test', modelTarget: 'gpt-4o-mini', changelog: 'test' };
+
+function tempRegistry() {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'prompts-'));
+  return { dir, registry: new PromptRegistry(dir), file: path.join(dir, 'greet.json') };
+}
+
+test('publish bumps versions, resolve handles pinned and latest refs', () => {
+  const { registry } = tempRegistry();
+  registry.publish('greet', 'Hello.', meta);
+  registry.publish('greet', 'Hello there.', meta, { bump: 'minor' });
+  assert.equal(registry.publish('greet', 'Hello there.', meta).version, '1.1.0'); // same content: no-op
+  assert.equal(registry.resolve('greet').content, 'Hello there.');
+  assert.equal(registry.resolve('greet@1.0.0').content, 'Hello.');
+  assert.throws(() => registry.resolve('greet@2.0.0'), /no version 2\.0\.0 \(available: 1\.0\.0, 1\.1\.0\)/);
+});
+
+test('resolve serves the parsed file from cache until the file changes', () => {
+  const { registry, file } = tempRegistry();
+  registry.publish('greet', 'Hello.', meta);
+  const t = new Date('2025-01-01T00:00:00Z'); // whole seconds survive utimes exactly
+  fs.utimesSync(file, t, t);
+  assert.equal(registry.resolve('greet').content, 'Hello.');
+
+  // Same size and mtime: the cached copy is served, the file is not parsed again
+  fs.writeFileSync(file, fs.readFileSync(file, 'utf-8').replace('Hello.', 'Howdy.'));
+  fs.utimesSync(file, t, t);
+  assert.equal(registry.resolve('greet@latest').content, 'Hello.');
+
+  // A new mtime reloads it, and the hash check catches the edit
+  fs.utimesSync(file, t, new Date(t.getTime() + 5_000));
+  assert.throws(() => registry.resolve('greet'), /does not match its hash/);
+
+  const data = JSON.parse(fs.readFileSync(file, 'utf-8'));
+  data.versions[0].hash = hashContent('Howdy.');
+  fs.writeFileSync(file, JSON.stringify(data));
+  assert.equal(registry.resolve('greet').content, 'Howdy.');
+
+  fs.rmSync(file);
+  assert.throws(() => registry.resolve('greet'), /Unknown prompt "greet"/);
+});
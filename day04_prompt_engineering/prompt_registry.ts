@@ -0,0 +1,214 @@
+// day04_prompt_engineering/prompt_registry.ts
+// File-backed prompt registry: prompts are versioned like code.
+//
+// - one JSON file per prompt name in prompts/ (easy to review in a PR)
+// - semantic versions (1.0.0 -> 1.1.0 ...) with author / model target / changelog
+// - content hashes, checked whenever the file is (re)loaded, so silent edits are caught
+// - parsed files are cached and reloaded when their mtime/size changes, so resolving per request is cheap
+// - "name@latest" or a pinned "name@1.0.0" resolved at runtime
+// - line diff between two versions
+//
+// Run the demo: npx tsx day04_prompt_engineering/code.ts
+
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const DEFAULT_PROMPTS_DIR = path.join(__dirname, 'prompts');
+
+export type PromptMetadata = {
+  author: string;
+  modelTarget: string; // e.g. "gpt-4o-mini" — the model this wording was tuned for
+  changelog: string;
+};
+
+export type PromptVersionRecord = {
+  name: string;
+  version: string; // semver: MAJOR.MINOR.PATCH
+  content: string;
+  hash: string; // sha256 of content (first 16 hex chars)
+  metadata: PromptMetadata;
+  createdAt: string;
+};
+
+type PromptFile = { name: string; versions: PromptVersionRecord[] };
+
+export type Bump = 'major' | 'minor' | 'patch';
+
+// --- semver helpers ------------------------------------------------------------
+
+export function parseSemver(version: string): [number, number, number] {
+  const m = /^(\d+)\.(\d+)\.(\d+)$/.exec(version.trim());
+  if (!m) throw new Error(`Invalid semantic version "${version}" (expected MAJOR.MINOR.PATCH)`);
+  return [Number(m[1]), Number(m[2]), Number(m[3])];
+}
+
+export function compareSemver(a: string, b: string): number {
+  const pa = parseSemver(a);
+  const pb = parseSemver(b);
+  for (let i = 0; i < 3; i++) if (pa[i] !== pb[i]) return pa[i] - pb[i];
+  return 0;
+}
+
+export function bumpSemver(version: string, bump: Bump): string {
+  const [major, minor, patch] = parseSemver(version);
+  if (bump === 'major') return `${major + 1}.0.0`;
+  if (bump === 'minor') return `${major}.${minor + 1}.0`;
+  return `${major}.${minor}.${patch + 1}`;
+}
+
+export function hashContent(content: string): string {
+  return createHash('sha256').update(content, 'utf8').digest('hex').slice(0, 16);
+}
+
+// --- line diff (LCS) -------------------------------------------------------------
+
+// Unified-style line diff: "  " unchanged, "- " removed, "+ " added.
+export function diffLines(before: string, after: string): string {
+  const a = before.split('\n');
+  const b = after.split('\n');
+
+  // lcs[i][j] = length of the longest common subsequence of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const out: string[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      out.push(`  ${a[i++]}`);
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) out.push(`- ${a[i++]}`);
+    else out.push(`+ ${b[j++]}`);
+  }
+  while (i < a.length) out.push(`- ${a[i++]}`);
+  while (j < b.length) out.push(`+ ${b[j++]}`);
+  return out.join('\n');
+}
+
+// --- registry ---------------------------------------------------------------------
+
+export class PromptRegistry {
+  private cache = new Map<string, { mtimeMs: number; size: number; data: PromptFile }>();
+
+  constructor(private dir: string = DEFAULT_PROMPTS_DIR) {}
+
+  private fileFor(name: string) {
+    if (!/^[\w.-]+$/.test(name)) throw new Error(`Invalid prompt name "${name}"`);
+    return path.join(this.dir, `${name}.json`);
+  }
+
+  private read(name: string): PromptFile {
+    const file = this.fileFor(name);
+    const stat = fs.statSync(file, { throwIfNoEntry: false });
+    if (!stat) {
+      this.cache.delete(name);
+      return { name, versions: [] };
+    }
+    const cached = this.cache.get(name);
+    if (cached && cached.mtimeMs === stat.mtimeMs && cached.size === stat.size) return cached.data;
+
+    const data = JSON.parse(fs.readFileSync(file, 'utf-8')) as PromptFile;
+    for (const v of data.versions) {
+      if (hashContent(v.content) !== v.hash) {
+        throw new Error(`Prompt "${name}@${v.version}" content does not match its hash (edited outside the registry?)`);
+      }
+    }
+    this.cache.set(name, { mtimeMs: stat.mtimeMs, size: stat.size, data });
+    return data;
+  }
+
+  private write(data: PromptFile) {
+    const file = this.fileFor(data.name);
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(data, null, 2) + '\n', 'utf-8');
+    const stat = fs.statSync(file);
+    this.cache.set(data.name, { mtimeMs: stat.mtimeMs, size: stat.size, data });
+  }
+
+  names(): string[] {
+    if (!fs.existsSync(this.dir)) return [];
+    return fs
+      .readdirSync(this.dir)
+      .filter((f) => f.endsWith('.json'))
+      .map((f) => f.slice(0, -'.json'.length))
+      .sort();
+  }
+
+  // All versions of a prompt, oldest first
+  versions(name: string): PromptVersionRecord[] {
+    return [...this.read(name).versions].sort((x, y) => compareSemver(x.version, y.version));
+  }
+
+  /**
+   * Publish new content for a prompt. The version is either given explicitly (must be
+   * greater than the latest) or bumped from the latest (first version is 1.0.0).
+   * Publishing content identical to the latest version is a no-op and returns it.
+   */
+  publish(
+    name: string,
+    content: string,
+    metadata: PromptMetadata,
+    opts: { version?: string; bump?: Bump } = {}
+  ): PromptVersionRecord {
+    const data = this.read(name);
+    const versions = this.versions(name);
+    const latest = versions[versions.length - 1];
+    const hash = hashContent(content);
+
+    if (latest && latest.hash === hash) return latest;
+
+    const version = opts.version ?? (latest ? bumpSemver(latest.version, opts.bump ?? 'patch') : '1.0.0');
+    parseSemver(version);
+    if (latest && compareSemver(version, latest.version) <= 0) {
+      throw new Error(`Prompt "${name}": version ${version} must be greater than latest ${latest.version}`);
+    }
+
+    const record: PromptVersionRecord = {
+      name,
+      version,
+      content,
+      hash,
+      metadata,
+      createdAt: new Date().toISOString(),
+    };
+    this.write({ name, versions: [...data.versions, record] });
+    return record;
+  }
+
+  // version: "latest" (default) or an exact pinned semver
+  get(name: string, version = 'latest'): PromptVersionRecord {
+    const versions = this.versions(name);
+    if (!versions.length) throw new Error(`Unknown prompt "${name}"`);
+    if (version === 'latest') return versions[versions.length - 1];
+
+    const hit = versions.find((v) => v.version === version);
+    if (!hit) {
+      throw new Error(`Prompt "${name}" has no version ${version} (available: ${versions.map((v) => v.version).join(', ')})`);
+    }
+    return hit;
+  }
+
+  // Resolve a reference like "assistant_system@1.0.0", "assistant_system@latest" or "assistant_system"
+  resolve(ref: string): PromptVersionRecord {
+    const [name, version = 'latest'] = ref.split('@');
+    return this.get(name, version);
+  }
+
+  diff(name: string, from: string, to = 'latest'): string {
+    const a = this.get(name, from);
+    const b = this.get(name, to);
+    return [`--- ${name}@${a.version} (${a.hash})`, `+++ ${name}@${b.version} (${b.hash})`, diffLines(a.content, b.content)].join(
+      '\n'
+    );
+  }
+}
@@ -0,0 +1,70 @@
+// day04_prompt_engineering/structured_output.test.ts
+// Run: npm test
+
+import assert from 'node:assert/strict';
+import { describe, test } from 'node:test';
+import { z } from 'zod';
+import { MockProvider } from '../day05_inferencing/mock_provider.js';
+import { extractJson, generateStructured, type StructuredMessage } from './structured_output.js';
+
+describe('extractJson', () => {
+  test('plain, fenced and prose-wrapped replies', () => {
+    assert.deepEqual(extractJson(' {"a": 1} '), { ok: true, value: { a: 1 } });
+    assert.deepEqual(extractJson('Here you go:\n```json\n{"a": [1, 2]}\n```\nAnything else?'), { ok: true, value: { a: [1, 2] } });
+    assert.deepEqual(extractJson('Sure! The result is {"note": "braces } in strings", "n": 2}. Hope that helps.'), {
+      ok: true,
+      value: { note: 'braces } in strings', n: 2 },
+    });
+    assert.deepEqual(extractJson('List: [1, 2, 3] done'), { ok: true, value: [1, 2, 3] });
+  });
+
+  test('a trailing comma is not valid JSON, so the repair loop has to fix it', () => {
+    assert.equal(extractJson('{"a": 1, "b": 2,}').ok, false);
+    assert.equal(extractJson('```json\n{"a": 1,}\n```').ok, false);
+    assert.deepEqual(extractJson('no json here'), { ok: false, error: 'No valid JSON object or array found in the response.' });
+  });
+});
+
+describe('generateStructured with MockProvider', () => {
+  const schema = z.object({ sentiment: z.enum(['positive', 'negative']), score: z.number() });
+  const messages: StructuredMessage[] = [{ role: 'user', content: 'Classify: "great product"' }];
+  const callOf = (mock: MockProvider) => async (msgs: StructuredMessage[]) => (await mock.chat({ messages: msgs })).text;
+
+  test('succeeds after one repair, sending the validation errors back', async () => {
+    const mock = new MockProvider({
+      rules: [
+        { match: /could not be used/, reply: '{"sentiment": "positive", "score": 0.9}' },
+        { match: /Classify/, reply: 'Sure: {"sentiment": "great", "score": 0.9,}' },
+      ],
+      onUnmatched: 'error',
+    });
+    const res = await generateStructured({ schema, messages, call: callOf(mock) });
+
+    assert.equal(res.ok, true);
+    assert.deepEqual(res.ok && res.value, { sentiment: 'positive', score: 0.9 });
+    assert.equal(res.attempts.length, 2);
+    assert.match(res.attempts[0].error!, /No valid JSON/);
+
+    const repair = mock.chatCalls()[1].request.messages;
+    assert.deepEqual(repair.slice(0, 2), [messages[0], { role: 'assistant', content: 'Sure: {"sentiment": "great", "score": 0.9,}' }]);
+    assert.match(repair[2].content, /Reply again with ONLY the corrected JSON/);
+  });
+
+  test('schema errors name the field', async () => {
+    const mock = new MockProvider({
+      rules: [{ match: /sentiment.*Invalid/s, reply: '{"sentiment": "negative", "score": 0.1}' }, { reply: '{"sentiment": "meh", "score": 0.5}' }],
+    });
+    const res = await generateStructured({ schema, messages, call: callOf(mock) });
+    assert.equal(res.ok, true);
+    assert.match(res.attempts[0].error!, /^JSON does not match the schema:\n- sentiment: /);
+  });
+
+  test('fails after maxAttempts with every attempt recorded', async () => {
+    const mock = new MockProvider({ rules: [{ reply: 'I cannot answer in JSON, sorry.' }] });
+    const res = await generateStructured({ schema, messages, call: callOf(mock), maxAttempts: 2 });
+    assert.equal(res.ok, false);
+    assert.match(!res.ok ? res.error : '', /^Structured output failed after 2 attempt\(s\)\. Last error:\nNo valid JSON/);
+    assert.equal(res.attempts.length, 2);
+    assert.equal(mock.chatCalls().length, 2);
+  });
+});
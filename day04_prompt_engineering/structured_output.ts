@@ -0,0 +1,128 @@
+// day04_prompt_engineering/structured_output.ts
+// "Return JSON ONLY" is a request, not a guarantee. This module:
+//
+// 1) extracts JSON from the model reply (plain, ```json fenced```, or buried in chatty text)
+// 2) validates it with a zod schema
+// 3) on failure, re-prompts the model with the exact errors, up to maxAttempts
+//
+// and returns either the typed value or a detailed error with every attempt.
+
+import type { z } from 'zod';
+
+export type StructuredMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+// Any chat backend: OpenAI fetch, LangChain model, mock...
+export type StructuredCall = (messages: StructuredMessage[]) => Promise<string>;
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+export type StructuredAttempt = { raw: string; error?: string };
+
+export type StructuredResult<T> =
+  | { ok: true; value: T; attempts: StructuredAttempt[] }
+  | { ok: false; error: string; attempts: StructuredAttempt[] };
+
+// Find the first balanced {...} or [...] in text, skipping braces inside strings.
+function findBalancedJson(text: string): string | null {
+  for (let start = 0; start < text.length; start++) {
+    const open = text[start];
+    if (open !== '{' && open !== '[') continue;
+
+    const stack: string[] = [];
+    let inString = false;
+    for (let i = start; i < text.length; i++) {
+      const ch = text[i];
+      if (inString) {
+        if (ch === '\\') i++;
+        else if (ch === '"') inString = false;
+        continue;
+      }
+      if (ch === '"') inString = true;
+      else if (ch === '{' || ch === '[') stack.push(ch === '{' ? '}' : ']');
+      else if (ch === '}' || ch === ']') {
+        if (stack.pop() !== ch) break;
+        if (!stack.length) {
+          const candidate = text.slice(start, i + 1);
+          try {
+            JSON.parse(candidate);
+            return candidate;
+          } catch {
+            break;
+          }
+        }
+      }
+    }
+  }
+  return null;
+}
+
+// Pull a JSON value out of a model reply.
+export function extractJson(text: string): ParseResult<unknown> {
+  const trimmed = text.trim();
+  const candidates = [trimmed];
+  for (const m of trimmed.matchAll(/```(?:json|JSON)?\s*\n?([\s\S]*?)```/g)) candidates.push(m[1].trim());
+
+  for (const c of candidates) {
+    try {
+      return { ok: true, value: JSON.parse(c) };
+    } catch {
+      // try the next candidate
+    }
+  }
+
+  const embedded = findBalancedJson(trimmed);
+  if (embedded) return { ok: true, value: JSON.parse(embedded) };
+  return { ok: false, error: 'No valid JSON object or array found in the response.' };
+}
+
+export function formatZodError(error: z.ZodError): string {
+  return error.issues.map((i) => `- ${i.path.length ? i.path.join('.') : '(root)'}: ${i.message}`).join('\n');
+}
+
+// Extract + validate a single reply (no model calls).
+export function parseStructured<S extends z.ZodTypeAny>(schema: S, text: string): ParseResult<z.infer<S>> {
+  const json = extractJson(text);
+  if (!json.ok) return json;
+
+  const checked = schema.safeParse(json.value);
+  if (!checked.success) return { ok: false, error: `JSON does not match the schema:\n${formatZodError(checked.error)}` };
+  return { ok: true, value: checked.data };
+}
+
+/**
+ * Ask for structured output and repair it until it validates.
+ * Each failed attempt is sent back to the model together with the validation errors.
+ */
+export async function generateStructured<S extends z.ZodTypeAny>(opts: {
+  schema: S;
+  messages: StructuredMessage[];
+  call: StructuredCall;
+  maxAttempts?: number; // total model calls, including the first (default 3)
+}): Promise<StructuredResult<z.infer<S>>> {
+  const { schema, call, maxAttempts = 3 } = opts;
+  const messages = [...opts.messages];
+  const attempts: StructuredAttempt[] = [];
+
+  for (let i = 0; i < maxAttempts; i++) {
+    const raw = await call(messages);
+    const parsed = parseStructured(schema, raw);
+    if (parsed.ok) {
+      attempts.push({ raw });
+      return { ok: true, value: parsed.value, attempts };
+    }
+
+    attempts.push({ raw, error: parsed.error });
+    messages.push(
+      { role: 'assistant', content: raw },
+      {
+        role: 'user',
+        content:
+          `Your previous reply could not be used:\n${parsed.error}\n\n` +
+          'Reply again with ONLY the corrected JSON. No explanations, no markdown fences.',
+      }
+    );
+  }
+
+  const last = attempts[attempts.length - 1]?.error ?? 'No attempts were made.';
+  return { ok: false, error: `Structured output failed after ${attempts.length} attempt(s). Last error:\n${last}`, attempts };
+}
@@ -0,0 +1,26 @@
+// day04_prompt_engineering/templates.test.ts
+// Run: npm test
+
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { PARTIALS, createTemplate } from './templates.js';
+
+test('render: empty sections leave no blank lines behind', () => {
+  const t = createTemplate('{{> role}}\n\n{{> audience}}\n\n\n{{> format}}\n\nTask: {{task}}', { partials: PARTIALS });
+  assert.equal(t.render({ task: 'Summarize.' }), 'You are a helpful assistant.\n\nTask: Summarize.');
+  assert.equal(t.render({ task: 'Summarize.', audience: 'kids' }), 'You are a helpful assistant.\n\nTarget audience: kids.\n\nTask: Summarize.');
+});
+
+test('render: variable values are inserted exactly as given', () => {
+  const t = createTemplate('Review this code:\n{{code}}\n\n{{#if note}}Note: {{note}}{{/if}}');
+  const code = '  def f():  \n\n\n\n      return 1   \n';
+  assert.equal(t.render({ code }), `Review this code:\n${code}`);
+  assert.equal(t.render({ code: ' x ', note: 'trailing   \n' }), 'Review this code:\n x \n\nNote: trailing   \n');
+});
+
+test('render: missing variables throw with their names', () => {
+  const t = createTemplate('Summarize {{document}} for {{audience}}.', { name: 'summary' });
+  // @ts-expect-error -- missing `audience`
+  assert.throws(() => t.render({ document: 'the report' }), /"summary" is missing variable\(s\): audience/);
+  assert.deepEqual(t.variables, ['document', 'audience']);
+});
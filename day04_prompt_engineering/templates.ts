@@ -0,0 +1,183 @@
+// day04_prompt_engineering/templates.ts
+// Tiny typed prompt template engine.
+//
+//   {{name}}                      -> variable (required)
+//   {{#if name}} ... {{/if}}      -> conditional section (name becomes optional)
+//   {{#if name}} ... {{else}} ... {{/if}}
+//   {{> partial}}                 -> reusable partial (role, audience, format, few-shot, ...)
+//
+// The variables a template needs are inferred from the template literal at compile time,
+// and rendering throws a clear error if one is missing at runtime.
+
+export type TemplateValue = string | number;
+export type ConditionValue = TemplateValue | boolean | null | undefined;
+
+// --- Compile-time variable inference -----------------------------------------
+
+type Trim<S extends string> = S extends ` ${infer R}` | `\n${infer R}`
+  ? Trim<R>
+  : S extends `${infer L} ` | `${infer L}\n`
+    ? Trim<L>
+    : S;
+
+type Tags<S extends string, Acc extends string = never> = S extends `${string}{{${infer Tag}}}${infer Rest}`
+  ? Tags<Rest, Acc | Trim<Tag>>
+  : Acc;
+
+type PartialName<T extends string> = T extends `>${infer N}` ? Trim<N> : never;
+
+type AllTags<S extends string, P extends Record<string, string>> =
+  | Tags<S>
+  | { [N in PartialName<Tags<S>>]: N extends keyof P ? AllTags<P[N], P> : never }[PartialName<Tags<S>>];
+
+type IfVar<T extends string> = T extends `#if ${infer V}` ? Trim<V> : never;
+type PlainVar<T extends string> = T extends `#${string}` | `/${string}` | `>${string}` | 'else' ? never : T;
+
+export type TemplateVars<S extends string, P extends Record<string, string> = {}> = string extends S
+  ? Record<string, ConditionValue>
+  : { [K in Exclude<PlainVar<AllTags<S, P>>, IfVar<AllTags<S, P>>>]: TemplateValue } & {
+      [K in IfVar<AllTags<S, P>>]?: ConditionValue;
+    };
+
+// --- Runtime -------------------------------------------------------------------
+
+type Node =
+  | { kind: 'text'; text: string }
+  | { kind: 'var'; name: string }
+  | { kind: 'if'; name: string; then: Node[]; else: Node[] };
+
+const TAG = /\{\{\s*([^}]*?)\s*\}\}/g;
+const MAX_PARTIAL_DEPTH = 10;
+
+function expandPartials(template: string, partials: Record<string, string>, name: string, depth = 0): string {
+  if (depth > MAX_PARTIAL_DEPTH) {
+    throw new Error(`Prompt template "${name}": partials nested more than ${MAX_PARTIAL_DEPTH} levels (cycle?)`);
+  }
+  return template.replace(/\{\{\s*>\s*([\w.-]+)\s*\}\}/g, (_, partial: string) => {
+    if (!(partial in partials)) throw new Error(`Prompt template "${name}": unknown partial "${partial}"`);
+    return expandPartials(partials[partial], partials, name, depth + 1);
+  });
+}
+
+function parse(template: string, name: string): Node[] {
+  const root: Node[] = [];
+  const stack: Array<{ node: Extract<Node, { kind: 'if' }>; inElse: boolean }> = [];
+  const current = () => {
+    const top = stack[stack.length - 1];
+    return top ? (top.inElse ? top.node.else : top.node.then) : root;
+  };
+
+  let last = 0;
+  for (const m of template.matchAll(TAG)) {
+    if (m.index! > last) current().push({ kind: 'text', text: template.slice(last, m.index) });
+    last = m.index! + m[0].length;
+
+    const tag = m[1];
+    if (tag.startsWith('#if ')) {
+      const node: Node = { kind: 'if', name: tag.slice(4).trim(), then: [], else: [] };
+      current().push(node);
+      stack.push({ node, inElse: false });
+    } else if (tag === 'else') {
+      if (!stack.length) throw new Error(`Prompt template "${name}": {{else}} outside of {{#if}}`);
+      stack[stack.length - 1].inElse = true;
+    } else if (tag === '/if') {
+      if (!stack.pop()) throw new Error(`Prompt template "${name}": {{/if}} without matching {{#if}}`);
+    } else if (/^[\w.-]+$/.test(tag)) {
+      current().push({ kind: 'var', name: tag });
+    } else {
+      throw new Error(`Prompt template "${name}": unsupported tag {{${tag}}}`);
+    }
+  }
+  if (stack.length) throw new Error(`Prompt template "${name}": unclosed {{#if ${stack[stack.length - 1].node.name}}}`);
+  if (last < template.length) current().push({ kind: 'text', text: template.slice(last) });
+  return root;
+}
+
+const isSet = (v: ConditionValue) => v !== undefined && v !== null && v !== false && v !== '';
+
+// Variables render as placeholders first, so whitespace cleanup never touches their values
+const slot = (i: number) => `\uE000${i}\uE001`;
+const SLOT = /\uE000(\d+)\uE001/g;
+
+function renderNodes(nodes: Node[], vars: Record<string, ConditionValue>, missing: Set<string>, values: string[]): string {
+  let out = '';
+  for (const n of nodes) {
+    if (n.kind === 'text') out += n.text;
+    else if (n.kind === 'var') {
+      const v = vars[n.name];
+      if (v === undefined || v === null || typeof v === 'boolean') missing.add(n.name);
+      else out += slot(values.push(String(v)) - 1);
+    } else {
+      out += renderNodes(isSet(vars[n.name]) ? n.then : n.else, vars, missing, values);
+    }
+  }
+  return out;
+}
+
+function collectVars(nodes: Node[], required: Set<string>, optional: Set<string>) {
+  for (const n of nodes) {
+    if (n.kind === 'var') required.add(n.name);
+    if (n.kind === 'if') {
+      optional.add(n.name);
+      collectVars(n.then, required, optional);
+      collectVars(n.else, required, optional);
+    }
+  }
+}
+
+export interface PromptTemplate<V> {
+  name: string;
+  source: string;      // template after partial expansion
+  variables: string[]; // every variable referenced (for docs / validation UIs)
+  render(vars: V): string;
+}
+
+// Create a template; the variables it needs are inferred from the literal.
+export function createTemplate<const S extends string, const P extends Record<string, string> = {}>(
+  template: S,
+  opts: { name?: string; partials?: P } = {}
+): PromptTemplate<TemplateVars<S, P>> {
+  const name = opts.name ?? 'anonymous';
+  const source = expandPartials(template, opts.partials ?? {}, name);
+  const nodes = parse(source, name);
+
+  const required = new Set<string>();
+  const optional = new Set<string>();
+  collectVars(nodes, required, optional);
+
+  return {
+    name,
+    source,
+    variables: [...new Set([...required, ...optional])],
+    render(vars) {
+      const missing = new Set<string>();
+      const values: string[] = [];
+      const text = renderNodes(nodes, vars as Record<string, ConditionValue>, missing, values);
+      if (missing.size) {
+        throw new Error(`Prompt template "${name}" is missing variable(s): ${[...missing].join(', ')}`);
+      }
+      // Collapse blank lines left behind by empty sections, then insert the values untouched.
+      return text
+        .replace(/[ \t]+\n/g, '\n')
+        .replace(/\n{3,}/g, '\n\n')
+        .trim()
+        .replace(SLOT, (_, i: string) => values[Number(i)]);
+    },
+  };
+}
+
+// --- Shared partials -------------------------------------------------------------
+
+export const PARTIALS = {
+  role: '{{#if role}}You are {{role}}.{{else}}You are a helpful assistant.{{/if}}',
+  audience: '{{#if audience}}Target audience: {{audience}}.{{/if}}',
+  format: '{{#if formatHint}}Format: {{formatHint}}{{/if}}',
+  fewShot: '{{#if examples}}Here are some examples:\n{{examples}}{{/if}}',
+} as const;
+
+export type FewShotExample = { input: string; output: string };
+
+// Render examples for the {{examples}} slot of the fewShot partial.
+export function formatExamples(examples: FewShotExample[]): string {
+  return examples.map((ex, i) => `Example ${i + 1}:\nUser: ${ex.input}\nAssistant: ${ex.output}`).join('\n\n');
+}
@@ -0,0 +1,49 @@
+// day05_inferencing/cassette.test.ts
+// Run: npm test
+
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { test } from "node:test";
+import { fileURLToPath } from "url";
+import { Cassette, DEFAULT_CASSETTE_DIR } from "./cassette.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const fakeFetch: typeof fetch = async () =>
+  new Response(JSON.stringify({ answer: 42 }), {
+    status: 200,
+    headers: {
+      "content-type": "application/json",
+      "set-cookie": "__cf_bm=secret",
+      "openai-organization": "org-secret",
+      "openai-project": "proj_secret",
+      "x-request-id": "req_123",
+    },
+  });
+
+test("record redacts request and response headers, replay serves the body", async () => {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "cassette-")), "demo.json");
+  const init = { method: "POST", headers: { Authorization: "Bearer sk-secret" }, body: JSON.stringify({ b: 1, a: 2 }) };
+
+  const recorder = new Cassette({ file, mode: "record", fetchImpl: fakeFetch });
+  const live = await recorder.fetch("https://api.example.com/v1/chat", init);
+  assert.equal(live.headers.get("x-request-id"), "req_123"); // the caller still sees the real response
+
+  const saved = fs.readFileSync(file, "utf-8");
+  for (const secret of ["sk-secret", "__cf_bm", "org-secret", "proj_secret", "req_123"]) assert.ok(!saved.includes(secret), secret);
+  const [interaction] = recorder.interactions;
+  assert.equal(interaction.response.headers["content-type"], "application/json");
+  assert.equal(interaction.response.headers["set-cookie"], "[REDACTED]");
+
+  const player = new Cassette({ file, mode: "replay", fetchImpl: () => assert.fail("replay must not call fetch") });
+  const replayed = await player.fetch("https://api.example.com/v1/chat", { ...init, body: JSON.stringify({ a: 2, b: 1 }) });
+  assert.deepEqual(await replayed.json(), { answer: 42 });
+  await assert.rejects(player.fetch("https://api.example.com/v1/chat", { ...init, body: "{}" }), /Cassette miss/);
+});
+
+test("default cassette dir does not depend on the working directory", () => {
+  if (process.env.CASSETTE_DIR) return;
+  assert.equal(DEFAULT_CASSETTE_DIR, path.join(__dirname, "..", "cassettes"));
+});
@@ -0,0 +1,191 @@
+// day05_inferencing/cassette.ts
+// Record/replay for HTTP calls to LLM + embedding APIs ("cassettes", like VCR).
+//
+// - record:      call the real API and save each request/response pair to a JSON cassette
+// - replay:      never touch the network; serve responses from the cassette
+//                (a request with no recorded match throws, so drift is caught immediately)
+// - passthrough: plain fetch
+//
+// Requests are matched on method + URL + normalized JSON body (keys sorted), so the
+// key order of an object literal does not matter. Auth headers, cookies, org/project ids and
+// request ids are redacted (request and response headers) before writing.
+//
+// Env: CASSETTE_MODE=record|replay (default passthrough), CASSETTE_DIR (default <repo>/cassettes)
+
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+
+export type CassetteMode = "record" | "replay" | "passthrough";
+
+export type RecordedInteraction = {
+  key: string;
+  request: { method: string; url: string; headers: Record<string, string>; body: unknown };
+  response: { status: number; statusText: string; headers: Record<string, string>; body: string };
+  recordedAt: string;
+};
+
+export type CassetteFile = {
+  version: 1;
+  interactions: RecordedInteraction[];
+};
+
+export type CassetteOptions = {
+  file: string;
+  mode?: CassetteMode;
+  fetchImpl?: typeof fetch;
+  redactHeaders?: string[]; // header names (case-insensitive) replaced with "[REDACTED]"
+};
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Next to the day folders, whichever directory the demo is started from
+export const DEFAULT_CASSETTE_DIR = process.env.CASSETTE_DIR || path.join(__dirname, "..", "cassettes");
+
+const DEFAULT_REDACT = [
+  "authorization",
+  "x-api-key",
+  "api-key",
+  "cookie",
+  "set-cookie",
+  "openai-organization",
+  "openai-project",
+  "anthropic-organization-id",
+  "x-request-id",
+  "request-id",
+];
+
+// Stable JSON: object keys sorted recursively
+function canonical(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(canonical);
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.keys(value as Record<string, unknown>)
+        .sort()
+        .filter((k) => (value as Record<string, unknown>)[k] !== undefined)
+        .map((k) => [k, canonical((value as Record<string, unknown>)[k])])
+    );
+  }
+  return value;
+}
+
+function parseBody(body: unknown): unknown {
+  if (body === undefined || body === null) return null;
+  if (typeof body !== "string") throw new Error("Cassette fetch only supports string request bodies");
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+export function requestKey(method: string, url: string, body: unknown): string {
+  const normalized = JSON.stringify([method.toUpperCase(), url.replace(/\/+$/, ""), canonical(body)]);
+  return createHash("sha256").update(normalized).digest("hex").slice(0, 16);
+}
+
+function headersToObject(headers: HeadersInit | Headers | undefined): Record<string, string> {
+  return Object.fromEntries(new Headers(headers ?? {}).entries());
+}
+
+function redacted(headers: Record<string, string>, names: Set<string>): Record<string, string> {
+  return Object.fromEntries(Object.entries(headers).map(([name, value]) => [name, names.has(name) ? "[REDACTED]" : value]));
+}
+
+export class Cassette {
+  readonly file: string;
+  readonly mode: CassetteMode;
+  readonly stats = { recorded: 0, replayed: 0, passthrough: 0 };
+
+  private data: CassetteFile;
+  private served = new Map<string, number>(); // key -> how many times replayed
+  private fetchImpl: typeof fetch;
+  private redact: Set<string>;
+
+  constructor(opts: CassetteOptions) {
+    this.file = opts.file;
+    this.mode = opts.mode ?? "passthrough";
+    this.fetchImpl = opts.fetchImpl ?? globalThis.fetch;
+    this.redact = new Set((opts.redactHeaders ?? DEFAULT_REDACT).map((h) => h.toLowerCase()));
+
+    if (fs.existsSync(this.file)) this.data = JSON.parse(fs.readFileSync(this.file, "utf-8")) as CassetteFile;
+    else if (this.mode === "replay") throw new Error(`Cassette not found: ${this.file} (record it first with CASSETTE_MODE=record)`);
+    else this.data = { version: 1, interactions: [] };
+
+    // A fresh recording replaces the old one
+    if (this.mode === "record") this.data = { version: 1, interactions: [] };
+  }
+
+  get interactions(): readonly RecordedInteraction[] {
+    return this.data.interactions;
+  }
+
+  // Drop-in replacement for the global fetch
+  fetch: typeof fetch = async (input, init) => {
+    const url = typeof input === "string" ? input : input instanceof URL ? input.href : input.url;
+    const method = (init?.method ?? "GET").toUpperCase();
+    const body = parseBody(init?.body);
+    const key = requestKey(method, url, body);
+
+    if (this.mode === "passthrough") {
+      this.stats.passthrough++;
+      return this.fetchImpl(input, init);
+    }
+
+    if (this.mode === "replay") {
+      // Identical requests are served in recorded order (the last one repeats)
+      const matches = this.data.interactions.filter((i) => i.key === key);
+      if (!matches.length) {
+        throw new Error(
+          `Cassette miss: no recorded response for ${method} ${url} (key ${key}) in ${this.file}. ` +
+            `The request changed since recording — re-record with CASSETTE_MODE=record.`
+        );
+      }
+      const n = this.served.get(key) ?? 0;
+      this.served.set(key, n + 1);
+      const hit = matches[Math.min(n, matches.length - 1)];
+      this.stats.replayed++;
+      return new Response(hit.response.body, {
+        status: hit.response.status,
+        statusText: hit.response.statusText,
+        headers: hit.response.headers,
+      });
+    }
+
+    const res = await this.fetchImpl(input, init);
+    const text = await res.text();
+    const requestHeaders = redacted(headersToObject(init?.headers), this.redact);
+    const responseHeaders = redacted(headersToObject(res.headers), this.redact);
+
+    this.data.interactions.push({
+      key,
+      request: { method, url, headers: requestHeaders, body },
+      response: { status: res.status, statusText: res.statusText, headers: responseHeaders, body: text },
+      recordedAt: new Date().toISOString(),
+    });
+    this.stats.recorded++;
+    this.save();
+
+    return new Response(text, { status: res.status, statusText: res.statusText, headers: res.headers });
+  };
+
+  // Written after every recorded call, so a crashed run still leaves a usable cassette
+  save() {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    fs.writeFileSync(this.file, JSON.stringify(this.data, null, 2));
+  }
+}
+
+export function parseCassetteMode(value: string | undefined): CassetteMode {
+  const v = (value ?? "").toLowerCase();
+  if (v === "record" || v === "replay") return v;
+  if (!v || v === "off" || v === "passthrough") return "passthrough";
+  throw new Error(`Invalid CASSETTE_MODE "${value}" (use record, replay or off)`);
+}
+
+// Cassette at <CASSETTE_DIR>/<name>.json, mode from CASSETTE_MODE
+export function cassetteFromEnv(name: string, dir = DEFAULT_CASSETTE_DIR): Cassette {
+  return new Cassette({ file: path.join(dir, `${name}.json`), mode: parseCassetteMode(process.env.CASSETTE_MODE) });
+}
@@ -1,76 +1,57 @@
 // day05_inferencing/code.ts
 // Demonstrates inferencing basics, multi-provider calls, latency measurement, and cost estimation.
-// NOTE: Replace API keys and model names as needed.
+// NOTE: Replace API keys and model names as needed (or via env: OPENAI_MODEL, MISTRAL_BASE_URL, ...).
+//
+// Run against a local stub server (no API keys needed):
+//   npx tsx day05_inferencing/code.ts --stub
 
 import "dotenv/config";
-
-// Simple latency helper
-async function measureLatency(fn: () => Promise<any>) {
-  const start = Date.now();
-  const result = await fn();
-  const end = Date.now();
-  return { result, latency: end - start };
-}
-
-// Simple mock cost estimator
-function estimateCost(inputTokens: number, outputTokens: number, ratePer1k: number) {
-  return ((inputTokens + outputTokens) / 1000) * ratePer1k;
-}
-
-// Provider calls (simplified using fetch)
-async function callOpenAI(prompt: string) {
-  return measureLatency(async () => {
-    const res = await fetch("https://api.openai.com/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: "gpt-4o-mini",
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 60,
-      }),
-    });
-    return res.json();
-  });
-}
-
-async function callMistral(prompt: string) {
-  return measureLatency(async () => {
-    const res = await fetch("https://api.mistral.ai/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${process.env.MISTRAL_API_KEY}`,
-      },
-      body: JSON.stringify({
-        model: "mistral-small",
-        messages: [{ role: "user", content: prompt }],
-        max_tokens: 60,
-      }),
-    });
-    return res.json();
-  });
-}
+import { getCostCalculator } from "./pricing.js";
+import { configFromEnv, createProvider, type ChatProvider, type ProviderKind } from "./providers.js";
+import { startStubServer } from "./stub_server.js";
 
 // Demo
 (async () => {
   console.log("=== Inferencing Demo: Multiple Providers ===");
 
-  const prompt = "Explain embeddings in one short sentence.";
+  const useStub = process.argv.includes("--stub");
+  const stub = useStub ? await startStubServer() : null;
+  if (stub) console.log("Using local stub server:", stub.url);
 
-  const [openai, mistral] = await Promise.all([
-    callOpenAI(prompt),
-    callMistral(prompt),
-  ]);
+  // Same interface for every provider; only the config differs
+  const kinds: ProviderKind[] = ["openai", "mistral", "anthropic"];
+  const providers: ChatProvider[] = kinds
+    .map((kind) => configFromEnv(kind, stub ? { baseURL: stub.url, apiKey: "stub-key" } : {}))
+    .filter((cfg) => cfg.apiKey)
+    .map(createProvider);
 
-  console.log("OpenAI latency:", openai.latency, "ms");
-  console.log("Mistral latency:", mistral.latency, "ms");
+  if (!providers.length) {
+    console.log("No provider API keys found (OPENAI_API_KEY, MISTRAL_API_KEY, ANTHROPIC_API_KEY). Try --stub.");
+    return;
+  }
 
-  console.log("\nSample Output (OpenAI):", openai.result?.choices?.[0]?.message);
-  console.log("Sample Output (Mistral):", mistral.result?.choices?.[0]?.message);
+  const prompt = "Explain embeddings in one short sentence.";
+
+  const results = await Promise.allSettled(
+    providers.map((p) => p.chat({ messages: [{ role: "user", content: prompt }], maxTokens: 60 }))
+  );
+
+  results.forEach((r, i) => {
+    const name = providers[i].name;
+    if (r.status === "rejected") {
+      console.log(`\n${name}: ❌ ${String(r.reason?.message ?? r.reason).slice(0, 200)}`);
+      return;
+    }
+    const res = r.value;
+    console.log(`\n${res.provider} (${res.model})`);
+    console.log("  latency:", res.latencyMs, "ms");
+    console.log("  usage:", res.usage, "finish:", res.finishReason);
+    console.log("  output:", res.text);
+
+    // Input and output tokens are priced separately (see pricing.json)
+    const cost = getCostCalculator().costOf(res.model, { usage: res.usage, input: prompt, output: res.text });
+    console.log(`  cost: $${cost.totalUsd.toFixed(8)} (in $${cost.inputUsd.toFixed(8)} + out $${cost.outputUsd.toFixed(8)})${cost.estimated ? " [estimated]" : ""}`);
+  });
 
-  const cost = estimateCost(20, 60, 0.15); // fake example rate
-  console.log("\nEstimated Cost:", cost, "USD");
+  await stub?.close();
 })();
@@ -0,0 +1,62 @@
+// day05_inferencing/fallback_demo.ts
+// Failover + circuit breakers against local stub servers (no API keys needed).
+//
+// Providers (in order):
+//   1) "primary"   -> returns 429 (rate limited)
+//   2) "secondary" -> returns 500 (server error)
+//   3) "slow"      -> answers after 1.5s, but its timeout is 300ms
+//   4) "backup"    -> healthy
+//
+// Run: npm run dev:day5:fallback
+
+import { FallbackRouter } from "./fallback_router.js";
+import { AnthropicProvider, OpenAICompatibleProvider } from "./providers.js";
+import { startStubServer } from "./stub_server.js";
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+(async () => {
+  const primary = await startStubServer({ status: 429 });
+  const secondary = await startStubServer({ status: 500 });
+  const slow = await startStubServer({ delayMs: 1500 });
+  const backup = await startStubServer();
+
+  const breaker = { failureThreshold: 2, windowMs: 10_000, cooldownMs: 1_000 };
+  const router = new FallbackRouter(
+    [
+      { provider: new OpenAICompatibleProvider({ kind: "openai", name: "primary", baseURL: primary.url, model: "gpt-4o-mini" }), breaker },
+      { provider: new OpenAICompatibleProvider({ kind: "mistral", name: "secondary", baseURL: secondary.url, model: "mistral-small" }), breaker },
+      { provider: new OpenAICompatibleProvider({ kind: "openai", name: "slow", baseURL: slow.url, model: "gpt-4o-mini" }), breaker, timeoutMs: 300 },
+      { provider: new AnthropicProvider({ name: "backup", baseURL: backup.url, model: "claude-3-5-haiku-latest" }), breaker },
+    ],
+    {
+      onAttempt: (a) =>
+        console.log(`  - ${a.provider.padEnd(9)} ${a.outcome.padEnd(12)} ${String(a.latencyMs).padStart(4)}ms breaker=${a.breaker}${a.reason ? `  (${a.reason})` : ""}`),
+    }
+  );
+
+  const ask = async (label: string) => {
+    console.log(`\n${label}`);
+    try {
+      const res = await router.chat({ messages: [{ role: "user", content: "Explain failover in one sentence." }] });
+      console.log(`  => answered by ${res.provider}: ${res.text}`);
+    } catch (e: any) {
+      console.log(`  => ❌ ${e.message}`);
+    }
+    console.log("  health:", router.health());
+  };
+
+  console.log("=== Fallback chain with circuit breakers ===");
+  await ask("Request 1: every broken provider is tried and falls through");
+  await ask("Request 2: second failure in the window opens the breakers");
+  await ask("Request 3: open breakers are skipped instantly");
+
+  console.log("\n...primary recovers, waiting for the cooldown...");
+  primary.behavior.status = undefined;
+  await sleep(1_100);
+  await ask("Request 4: half-open probe to primary succeeds and closes its breaker");
+
+  await Promise.all([primary, secondary, slow, backup].map((s) => s.close()));
+})();
@@ -0,0 +1,147 @@
+// day05_inferencing/fallback_router.test.ts
+// Run: npm test
+
+import assert from "node:assert/strict";
+import { after, test } from "node:test";
+import { CircuitBreaker, FallbackRouter } from "./fallback_router.js";
+import { AnthropicProvider, OpenAICompatibleProvider, type ChatProvider, type ChatRequest } from "./providers.js";
+import { startStubServer } from "./stub_server.js";
+
+const messages: ChatRequest["messages"] = [{ role: "user", content: "hi" }];
+const quiet = { onAttempt: () => {} };
+
+const bad = await startStubServer({ status: 400 });
+const down = await startStubServer({ status: 503 });
+const limited = await startStubServer({ status: 429 });
+const slow = await startStubServer({ delayMs: 300 });
+const ok = await startStubServer();
+after(() => Promise.all([bad, down, limited, slow, ok].map((s) => s.close())));
+
+test("a timeout aborts the in-flight request", async () => {
+  let seen: AbortSignal | undefined;
+  const hanging: ChatProvider = {
+    name: "hanging",
+    kind: "openai",
+    model: "m",
+    chat: (req) => {
+      seen = req.signal;
+      return new Promise(() => {});
+    },
+  };
+  const router = new FallbackRouter([{ provider: hanging, timeoutMs: 20 }], quiet);
+  await assert.rejects(router.chat({ messages }), /hanging: Timeout after 20ms/);
+  assert.equal(seen?.aborted, true);
+  assert.equal(router.lastAttempts[0].outcome, "timeout");
+});
+
+test("the caller's signal cancels without trying the next provider", async () => {
+  const controller = new AbortController();
+  controller.abort(new Error("user cancelled"));
+  const router = new FallbackRouter(
+    [
+      { provider: new OpenAICompatibleProvider({ kind: "openai", name: "first", baseURL: ok.url, model: "gpt-4o-mini" }) },
+      { provider: new OpenAICompatibleProvider({ kind: "openai", name: "second", baseURL: ok.url, model: "gpt-4o-mini" }) },
+    ],
+    quiet
+  );
+  await assert.rejects(router.chat({ messages, signal: controller.signal }), /user cancelled/);
+  assert.deepEqual(router.lastAttempts.map((a) => a.provider), ["first"]);
+});
+
+test("only timeouts, 429 and 5xx trip the breaker", async () => {
+  const breaker = { failureThreshold: 1 };
+  const router = new FallbackRouter(
+    [
+      { provider: new OpenAICompatibleProvider({ kind: "openai", name: "bad", baseURL: bad.url, model: "gpt-4o-mini" }), breaker },
+      { provider: new OpenAICompatibleProvider({ kind: "mistral", name: "down", baseURL: down.url, model: "mistral-small" }), breaker },
+      { provider: new AnthropicProvider({ name: "ok", baseURL: ok.url, model: "claude-3-5-haiku-latest" }), breaker },
+    ],
+    quiet
+  );
+  const res = await router.chat({ messages });
+  assert.equal(res.provider, "ok");
+  assert.deepEqual(router.lastAttempts.map((a) => a.outcome), ["client_error", "server_error", "success"]);
+  assert.deepEqual(router.health(), { bad: "closed", down: "open", ok: "closed" });
+});
+
+test("a 429 falls through to the next provider and counts as a failure", async () => {
+  const router = new FallbackRouter(
+    [
+      { provider: new OpenAICompatibleProvider({ kind: "openai", name: "limited", baseURL: limited.url, model: "gpt-4o-mini" }), breaker: { failureThreshold: 2 } },
+      { provider: new AnthropicProvider({ name: "ok", baseURL: ok.url, model: "claude-3-5-haiku-latest" }) },
+    ],
+    quiet
+  );
+  assert.equal((await router.chat({ messages })).provider, "ok");
+  assert.deepEqual(router.lastAttempts.map((a) => [a.outcome, a.reason]), [["rate_limited", "HTTP 429 rate limited"], ["success", undefined]]);
+  assert.equal(router.health().limited, "closed");
+  await router.chat({ messages });
+  assert.equal(router.health().limited, "open");
+});
+
+test("a slow stub times out and the next provider answers", async () => {
+  const router = new FallbackRouter(
+    [
+      { provider: new OpenAICompatibleProvider({ kind: "openai", name: "slow", baseURL: slow.url, model: "gpt-4o-mini" }), timeoutMs: 50, breaker: { failureThreshold: 1 } },
+      { provider: new AnthropicProvider({ name: "ok", baseURL: ok.url, model: "claude-3-5-haiku-latest" }) },
+    ],
+    quiet
+  );
+  assert.equal((await router.chat({ messages })).provider, "ok");
+  assert.deepEqual(router.lastAttempts.map((a) => a.outcome), ["timeout", "success"]);
+  assert.equal(router.health().slow, "open");
+});
+
+test("each entry sends its own model; req.model only goes to the first", async () => {
+  ok.requests.length = 0;
+  down.requests.length = 0;
+  const router = new FallbackRouter(
+    [
+      { provider: new OpenAICompatibleProvider({ kind: "openai", name: "down", baseURL: down.url, model: "gpt-4o-mini" }) },
+      { provider: new AnthropicProvider({ name: "ok", baseURL: ok.url, model: "claude-3-5-haiku-latest" }) },
+    ],
+    quiet
+  );
+  await router.chat({ messages, model: "gpt-4o" });
+  assert.equal(down.requests[0].body.model, "gpt-4o");
+  assert.equal(ok.requests[0].body.model, "claude-3-5-haiku-latest");
+
+  const pinned = new FallbackRouter([{ provider: new AnthropicProvider({ name: "ok", baseURL: ok.url, model: "claude-3-5-haiku-latest" }), model: "claude-3-5-sonnet-latest" }], quiet);
+  assert.equal((await pinned.chat({ messages, model: "gpt-4o" })).model, "claude-3-5-sonnet-latest");
+});
+
+test("CircuitBreaker: half-open lets one probe through", () => {
+  let now = 0;
+  const breaker = new CircuitBreaker({ failureThreshold: 2, cooldownMs: 100 }, () => now);
+  breaker.recordFailure();
+  breaker.recordFailure();
+  assert.equal(breaker.state, "open");
+  assert.equal(breaker.tryAcquire(), false);
+  now = 100;
+  assert.equal(breaker.tryAcquire(), true);
+  assert.equal(breaker.tryAcquire(), false);
+  breaker.recordSuccess();
+  assert.equal(breaker.state, "closed");
+});
+
+test("CircuitBreaker: a 4xx neither clears nor adds to the failure window", () => {
+  const breaker = new CircuitBreaker({ failureThreshold: 3 });
+  // Alternating 5xx and 4xx: the 4xx must not reset the count
+  breaker.recordFailure();
+  breaker.recordClientError();
+  breaker.recordFailure();
+  breaker.recordClientError();
+  assert.equal(breaker.state, "closed");
+  breaker.recordFailure();
+  assert.equal(breaker.state, "open");
+});
+
+test("CircuitBreaker: a 4xx answer closes a half-open probe", () => {
+  let now = 0;
+  const breaker = new CircuitBreaker({ failureThreshold: 1, cooldownMs: 100 }, () => now);
+  breaker.recordFailure();
+  now = 100;
+  assert.equal(breaker.tryAcquire(), true);
+  breaker.recordClientError();
+  assert.equal(breaker.state, "closed");
+});
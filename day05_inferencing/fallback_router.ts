@@ -0,0 +1,212 @@
+// day05_inferencing/fallback_router.ts
+// Provider failover: try providers in order, skip the ones that are down.
+//
+// - each provider has a per-call timeout; when it fires, the HTTP request is aborted
+// - each provider has a circuit breaker (only timeouts, 429 and 5xx count as failures;
+//   a 4xx means the provider is up and the request was bad, so it counts as neither):
+//     closed    -> normal traffic
+//     open      -> N failures within the window: skip this provider for `cooldownMs`
+//     half_open -> after the cooldown, let ONE probe request through;
+//                  success (or a 4xx) closes the breaker, failure opens it again
+// - every attempt is logged with the reason it fell through (429, 500, timeout, circuit open, ...)
+//
+// The router is itself a ChatProvider, so callers don't know failover is happening.
+
+import type { ChatProvider, ChatRequest, ChatResponse, ProviderKind } from "./providers.js";
+
+export type BreakerState = "closed" | "open" | "half_open";
+
+export type CircuitBreakerOptions = {
+  failureThreshold?: number; // failures within the window that open the breaker (default 3)
+  windowMs?: number; // sliding window for counting failures (default 60s)
+  cooldownMs?: number; // how long to stay open before probing (default 30s)
+};
+
+export class CircuitBreaker {
+  private failures: number[] = []; // timestamps
+  private openedAt = 0;
+  private probing = false;
+  state: BreakerState = "closed";
+
+  private failureThreshold: number;
+  private windowMs: number;
+  private cooldownMs: number;
+
+  constructor(opts: CircuitBreakerOptions = {}, private now: () => number = Date.now) {
+    this.failureThreshold = opts.failureThreshold ?? 3;
+    this.windowMs = opts.windowMs ?? 60_000;
+    this.cooldownMs = opts.cooldownMs ?? 30_000;
+  }
+
+  // May a request go through right now? (moves open -> half_open after the cooldown)
+  tryAcquire(): boolean {
+    if (this.state === "open" && this.now() - this.openedAt >= this.cooldownMs) {
+      this.state = "half_open";
+      this.probing = false;
+    }
+    if (this.state === "closed") return true;
+    if (this.state === "half_open" && !this.probing) {
+      this.probing = true; // only one probe at a time
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess() {
+    this.state = "closed";
+    this.failures = [];
+    this.probing = false;
+  }
+
+  // The attempt says nothing about the provider's health: just end a half-open probe
+  release() {
+    this.probing = false;
+  }
+
+  // A 4xx: the provider is up but the request was bad. Neither a success nor a failure, so the
+  // failure window is left alone; only a half-open probe closes, since the provider did answer.
+  recordClientError() {
+    if (this.state === "half_open") this.recordSuccess();
+    else this.release();
+  }
+
+  recordFailure() {
+    const t = this.now();
+    if (this.state === "half_open") {
+      this.open(t);
+      return;
+    }
+    this.failures = this.failures.filter((f) => t - f < this.windowMs);
+    this.failures.push(t);
+    if (this.failures.length >= this.failureThreshold) this.open(t);
+  }
+
+  private open(t: number) {
+    this.state = "open";
+    this.openedAt = t;
+    this.probing = false;
+    this.failures = [];
+  }
+}
+
+export type AttemptOutcome = "success" | "rate_limited" | "server_error" | "client_error" | "timeout" | "error" | "circuit_open";
+
+export type FallbackAttempt = {
+  provider: string;
+  outcome: AttemptOutcome;
+  reason?: string; // why we fell through to the next provider
+  latencyMs: number;
+  breaker: BreakerState; // breaker state after the attempt
+};
+
+export type FallbackEntry = {
+  provider: ChatProvider;
+  model?: string; // model for this provider (default: req.model for the first entry, else the provider's own)
+  timeoutMs?: number; // per-provider timeout (default 30s)
+  breaker?: CircuitBreakerOptions;
+};
+
+export type FallbackRouterOptions = {
+  onAttempt?: (attempt: FallbackAttempt) => void; // defaults to a JSON log line
+  now?: () => number;
+};
+
+// Runs `call` with a signal that aborts after `ms` (or when the caller's signal does).
+// Rejects at the deadline even if the provider ignores the signal.
+function withTimeout<T>(call: (signal: AbortSignal) => Promise<T>, ms: number, parent?: AbortSignal) {
+  const controller = new AbortController();
+  const onAbort = () => controller.abort(parent?.reason);
+  parent?.addEventListener("abort", onAbort);
+  return new Promise<T>((resolve, reject) => {
+    const id = setTimeout(() => {
+      const err = new Error(`Timeout after ${ms}ms`);
+      controller.abort(err);
+      reject(err);
+    }, ms);
+    const done = () => (clearTimeout(id), parent?.removeEventListener("abort", onAbort));
+    if (parent?.aborted) onAbort();
+    call(controller.signal)
+      .then((v) => (done(), resolve(v)))
+      .catch((e) => (done(), reject(e)));
+  });
+}
+
+// Outcomes that say the provider itself is unhealthy
+const BREAKER_FAILURES: AttemptOutcome[] = ["timeout", "rate_limited", "server_error"];
+
+// Map an error to a short outcome. Provider errors look like "openai chat error 429: ...".
+function classifyError(err: unknown): { outcome: AttemptOutcome; reason: string } {
+  const msg = err instanceof Error ? err.message : String(err);
+  if (/^Timeout after/.test(msg) || (err instanceof Error && err.name === "TimeoutError")) {
+    return { outcome: "timeout", reason: msg };
+  }
+  const status = Number(/error (\d{3})/.exec(msg)?.[1]);
+  if (status === 429) return { outcome: "rate_limited", reason: "HTTP 429 rate limited" };
+  if (status >= 500) return { outcome: "server_error", reason: `HTTP ${status} server error` };
+  if (status >= 400) return { outcome: "client_error", reason: `HTTP ${status}: ${msg.slice(0, 160)}` };
+  return { outcome: "error", reason: msg.slice(0, 200) };
+}
+
+export class FallbackRouter implements ChatProvider {
+  readonly name = "fallback";
+  readonly kind: ProviderKind;
+  readonly model: string;
+
+  private entries: (FallbackEntry & { circuit: CircuitBreaker })[];
+  private onAttempt: (attempt: FallbackAttempt) => void;
+  lastAttempts: FallbackAttempt[] = [];
+
+  constructor(entries: FallbackEntry[], opts: FallbackRouterOptions = {}) {
+    if (!entries.length) throw new Error("FallbackRouter needs at least one provider");
+    this.entries = entries.map((e) => ({ ...e, circuit: new CircuitBreaker(e.breaker, opts.now) }));
+    this.kind = entries[0].provider.kind;
+    this.model = entries[0].provider.model;
+    this.onAttempt =
+      opts.onAttempt ?? ((a) => console.log(JSON.stringify({ ts: new Date().toISOString(), msg: "llm_attempt", ...a })));
+  }
+
+  // Current breaker state per provider (for dashboards / health checks)
+  health(): Record<string, BreakerState> {
+    const out: Record<string, BreakerState> = {};
+    for (const e of this.entries) out[e.provider.name] = e.circuit.state;
+    return out;
+  }
+
+  async chat(req: ChatRequest): Promise<ChatResponse> {
+    const attempts: FallbackAttempt[] = [];
+    this.lastAttempts = attempts;
+    const record = (a: FallbackAttempt) => {
+      attempts.push(a);
+      this.onAttempt(a);
+    };
+
+    for (const [i, entry] of this.entries.entries()) {
+      const { provider, circuit } = entry;
+      // req.model names a model of the first provider; it means nothing to the others
+      const model = entry.model ?? (i === 0 ? req.model : undefined);
+
+      if (!circuit.tryAcquire()) {
+        record({ provider: provider.name, outcome: "circuit_open", reason: "circuit breaker open", latencyMs: 0, breaker: circuit.state });
+        continue;
+      }
+
+      const start = Date.now();
+      try {
+        const res = await withTimeout((signal) => provider.chat({ ...req, model, signal }), entry.timeoutMs ?? 30_000, req.signal);
+        circuit.recordSuccess();
+        record({ provider: provider.name, outcome: "success", latencyMs: Date.now() - start, breaker: circuit.state });
+        return res;
+      } catch (err) {
+        const { outcome, reason } = classifyError(err);
+        if (BREAKER_FAILURES.includes(outcome)) circuit.recordFailure();
+        else if (outcome === "client_error") circuit.recordClientError();
+        else circuit.release();
+        record({ provider: provider.name, outcome, reason, latencyMs: Date.now() - start, breaker: circuit.state });
+        if (req.signal?.aborted) throw err; // the caller gave up: don't try the next provider
+      }
+    }
+
+    const summary = attempts.map((a) => `${a.provider}: ${a.reason ?? a.outcome}`).join("; ");
+    throw new Error(`All providers failed (${summary})`);
+  }
+}
@@ -0,0 +1,27 @@
+// day05_inferencing/mock_provider.test.ts
+// Run: npm test
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { MockProvider } from "./mock_provider.js";
+
+const ask = (mock: MockProvider, content: string) => mock.chat({ messages: [{ role: "user", content }] });
+
+test("a /g rule matches on every call, not every other one", async () => {
+  const mock = new MockProvider({ rules: [{ match: /refund/gi, reply: "Refunds take 5 days." }], onUnmatched: "error" });
+  for (let i = 0; i < 4; i++) assert.equal((await ask(mock, "How do refunds work?")).text, "Refunds take 5 days.");
+  assert.deepEqual(mock.chatCalls().map((c) => c.rule), [0, 0, 0, 0]);
+});
+
+test("rules: first match wins, `times` limits a rule, errors use the provider format", async () => {
+  const mock = new MockProvider({
+    name: "m",
+    rules: [
+      { match: /flaky/, error: { status: 503 }, times: 1 },
+      { match: /flaky|hello/, reply: "ok" },
+    ],
+  });
+  await assert.rejects(ask(mock, "flaky?"), /^Error: m chat error 503: mock error$/);
+  assert.equal((await ask(mock, "flaky?")).text, "ok");
+  assert.equal((await ask(mock, "something else")).text, "MOCK(mock-model): something else");
+});
@@ -0,0 +1,159 @@
+// day05_inferencing/mock_provider.ts
+// Deterministic, offline stand-in for a real provider (chat + embeddings).
+//
+// - scripted replies matched by regex (on the prompt) or by prompt hash
+// - fake tool calls (finishReason "tool_calls")
+// - simulated latency and HTTP-style errors (429/500/...), which the fallback router understands
+// - every request is recorded in `calls`, so demos/tests can assert on what was sent
+//
+// Same shape as the real clients: `chat()` from ChatProvider, and
+// `embedDocuments()` / `embedQuery()` like LangChain's OpenAIEmbeddings.
+
+import { createHash } from "crypto";
+import { estimateTokens } from "../day03_llm_mind/tokenizer.js";
+import { embed } from "../day25_conversation_memory/hashed_embedding.js";
+import type { ChatMessage, ChatProvider, ChatRequest, ChatResponse, ProviderKind, ToolCall } from "./providers.js";
+
+export type MockRule = {
+  match?: RegExp; // tested against the rendered prompt (see promptText)
+  hash?: string; // exact prompt match (see promptHash)
+  reply?: string | ((req: ChatRequest) => string);
+  toolCalls?: { name: string; arguments: Record<string, unknown> }[];
+  error?: { status: number; message?: string };
+  latencyMs?: number; // overrides the provider's default latency
+  times?: number; // rule is used at most N times, then skipped
+};
+
+export type MockCall =
+  | { type: "chat"; request: ChatRequest; rule: number | null; response?: ChatResponse; error?: string }
+  | { type: "embed"; texts: string[] };
+
+export type MockProviderOptions = {
+  name?: string;
+  kind?: ProviderKind;
+  model?: string;
+  rules?: MockRule[];
+  latencyMs?: number;
+  embeddingDims?: number;
+  onUnmatched?: "echo" | "error"; // "echo" answers `MOCK(model): <last user message>`
+};
+
+// All messages flattened to one string: "role: content" per line
+export function promptText(messages: ChatMessage[]): string {
+  return messages.map((m) => `${m.role}: ${m.content}`).join("\n");
+}
+
+export function promptHash(messages: ChatMessage[]): string {
+  return createHash("sha256").update(JSON.stringify(messages.map((m) => [m.role, m.content]))).digest("hex").slice(0, 16);
+}
+
+function sleep(ms: number) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+export class MockProvider implements ChatProvider {
+  readonly name: string;
+  readonly kind: ProviderKind;
+  readonly model: string;
+  readonly calls: MockCall[] = [];
+
+  private rules: MockRule[];
+  private used = new Map<number, number>();
+
+  constructor(private opts: MockProviderOptions = {}) {
+    this.name = opts.name ?? "mock";
+    this.kind = opts.kind ?? "openai";
+    this.model = opts.model ?? "mock-model";
+    this.rules = [...(opts.rules ?? [])];
+  }
+
+  // Rules are checked in order; the first match wins.
+  addRule(rule: MockRule) {
+    this.rules.push(rule);
+    return this;
+  }
+
+  reset() {
+    this.calls.length = 0;
+    this.used.clear();
+  }
+
+  chatCalls() {
+    return this.calls.filter((c): c is Extract<MockCall, { type: "chat" }> => c.type === "chat");
+  }
+
+  private findRule(messages: ChatMessage[]): number | null {
+    const text = promptText(messages);
+    const hash = promptHash(messages);
+    for (let i = 0; i < this.rules.length; i++) {
+      const r = this.rules[i];
+      if (r.times !== undefined && (this.used.get(i) ?? 0) >= r.times) continue;
+      if (r.hash !== undefined && r.hash !== hash) continue;
+      if (r.match) {
+        r.match.lastIndex = 0; // a /g or /y regex keeps its position between test() calls
+        if (!r.match.test(text)) continue;
+      }
+      return i;
+    }
+    return null;
+  }
+
+  async chat(req: ChatRequest): Promise<ChatResponse> {
+    const model = req.model ?? this.model;
+    const idx = this.findRule(req.messages);
+    const rule = idx === null ? undefined : this.rules[idx];
+    const call: MockCall = { type: "chat", request: structuredClone(req), rule: idx };
+    this.calls.push(call);
+    if (idx !== null) this.used.set(idx, (this.used.get(idx) ?? 0) + 1);
+
+    const start = Date.now();
+    const latency = rule?.latencyMs ?? this.opts.latencyMs ?? 0;
+    if (latency > 0) await sleep(latency);
+
+    // Same message format as the real providers, so error classification works unchanged
+    let error: string | undefined;
+    if (rule?.error) error = `${this.name} chat error ${rule.error.status}: ${rule.error.message ?? "mock error"}`;
+    else if (!rule && this.opts.onUnmatched === "error") {
+      error = `${this.name} chat error 404: no mock rule matches prompt ${promptHash(req.messages)}`;
+    }
+    if (error) {
+      call.error = error;
+      throw new Error(error);
+    }
+
+    const lastUser = [...req.messages].reverse().find((m) => m.role === "user")?.content ?? "";
+    let text: string;
+    if (typeof rule?.reply === "function") text = rule.reply(req);
+    else if (rule?.reply !== undefined) text = rule.reply;
+    else text = rule?.toolCalls ? "" : `MOCK(${model}): ${lastUser}`;
+    const toolCalls: ToolCall[] | undefined = rule?.toolCalls?.map((tc, i) => ({
+      id: `call_mock_${i + 1}`,
+      name: tc.name,
+      arguments: JSON.stringify(tc.arguments),
+    }));
+
+    const inputTokens = estimateTokens(promptText(req.messages));
+    const outputTokens = estimateTokens(text + (toolCalls ?? []).map((tc) => tc.name + tc.arguments).join(""));
+    const response: ChatResponse = {
+      text,
+      usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+      finishReason: toolCalls?.length ? "tool_calls" : "stop",
+      latencyMs: Date.now() - start,
+      provider: this.name,
+      model,
+      toolCalls,
+    };
+    call.response = response;
+    return response;
+  }
+
+  // Deterministic hashed bag-of-words vectors (same text -> same vector)
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    this.calls.push({ type: "embed", texts: [...texts] });
+    return texts.map((t) => embed(t, this.opts.embeddingDims ?? 256));
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return (await this.embedDocuments([text]))[0];
+  }
+}
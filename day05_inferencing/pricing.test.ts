@@ -0,0 +1,36 @@
+// day05_inferencing/pricing.test.ts
+// Run: npm test
+
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { test } from "node:test";
+import { CostCalculator, loadPricing } from "./pricing.js";
+
+const calculator = new CostCalculator(loadPricing());
+
+test("resolve: exact names, aliases and dated snapshots", () => {
+  assert.equal(calculator.resolve("gpt-4.1").model, "gpt-4.1");
+  assert.equal(calculator.resolve("gpt-4o-mini-2024-07-18").model, "gpt-4o-mini");
+  assert.equal(calculator.resolve("claude-3-5-haiku-latest").model, "claude-3-5-haiku");
+  assert.equal(calculator.resolve("claude-3-5-sonnet-20241022").model, "claude-3-5-sonnet");
+});
+
+test("resolve: unknown variants throw instead of borrowing a neighbour's price", () => {
+  for (const model of ["gpt-4.1-nano", "gpt-4o-mini-search-preview", "gpt-4o-latest", "claude-3-5-haiku-2024"]) {
+    assert.throws(() => calculator.resolve(model), /No price for model/, model);
+  }
+});
+
+test("loadPricing: an alias must point to a priced model", () => {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "pricing-")), "pricing.json");
+  fs.writeFileSync(file, JSON.stringify({ currency: "USD", unit: "per_1m_tokens", models: {}, aliases: { "gpt-x-latest": "gpt-x" } }));
+  assert.throws(() => loadPricing(file), /Alias "gpt-x-latest" points to unknown model "gpt-x"/);
+});
+
+test("cost: cached input and output are priced separately", () => {
+  const cost = calculator.cost("gpt-4o-mini", { inputTokens: 2_000_000, cachedInputTokens: 1_000_000, outputTokens: 1_000_000 });
+  assert.deepEqual([cost.inputUsd, cost.cachedInputUsd, cost.outputUsd], [0.15, 0.075, 0.6]);
+  assert.equal(calculator.cost("text-embedding-3-small", { inputTokens: 1_000_000, outputTokens: 5 }).outputUsd, 0);
+});
@@ -0,0 +1,123 @@
+// day05_inferencing/pricing.ts
+// Token-based cost calculator backed by a pricing table (pricing.json).
+//
+// - separate input / output / cached-input prices per model (USD per 1M tokens)
+// - embedding models only charge input tokens
+// - uses the provider's `usage` block when it exists; otherwise estimates tokens
+//   from the text with the Day 3 BPE tokenizer (and marks the cost as estimated)
+// - model ids resolve by exact name, an explicit alias ("claude-3-5-haiku-latest"), or a dated
+//   snapshot of an entry ("gpt-4o-mini-2024-07-18"); anything else throws instead of borrowing
+//   a neighbour's price ("gpt-4.1-nano" is not "gpt-4.1")
+
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { estimateTokens } from "../day03_llm_mind/tokenizer.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const DEFAULT_PRICING_PATH = path.join(__dirname, "pricing.json");
+
+export type ModelPrice = {
+  type: "chat" | "embedding";
+  input: number; // USD per 1M input tokens
+  output?: number; // USD per 1M output tokens (chat models)
+  cachedInput?: number; // USD per 1M cached input tokens (defaults to the input price)
+};
+
+export type PricingTable = {
+  currency: string;
+  unit: "per_1m_tokens";
+  updatedAt?: string;
+  models: Record<string, ModelPrice>;
+  aliases?: Record<string, string>; // other names of an entry ("-latest", Anthropic's YYYYMMDD snapshots)
+};
+
+export type TokenUsage = {
+  inputTokens: number; // includes cached input tokens
+  outputTokens?: number;
+  cachedInputTokens?: number;
+};
+
+export type CostBreakdown = {
+  model: string; // the pricing entry that was used
+  inputTokens: number;
+  cachedInputTokens: number;
+  outputTokens: number;
+  inputUsd: number;
+  cachedInputUsd: number;
+  outputUsd: number;
+  totalUsd: number;
+  estimated: boolean; // true when tokens were estimated instead of reported by the provider
+};
+
+export function loadPricing(file = DEFAULT_PRICING_PATH): PricingTable {
+  const table = JSON.parse(fs.readFileSync(file, "utf-8")) as PricingTable;
+  if (table.unit !== "per_1m_tokens") throw new Error(`Unsupported pricing unit "${table.unit}" in ${file}`);
+  for (const [model, p] of Object.entries(table.models)) {
+    if (typeof p.input !== "number" || (p.type === "chat" && typeof p.output !== "number")) {
+      throw new Error(`Invalid price entry for "${model}" in ${file}`);
+    }
+  }
+  for (const [alias, model] of Object.entries(table.aliases ?? {})) {
+    if (!table.models[model]) throw new Error(`Alias "${alias}" points to unknown model "${model}" in ${file}`);
+  }
+  return table;
+}
+
+const DATE_SUFFIX = /-\d{4}-\d{2}-\d{2}$/;
+
+export class CostCalculator {
+  constructor(private table: PricingTable = loadPricing()) {}
+
+  // Exact name, then an alias, then the entry with a "-YYYY-MM-DD" snapshot suffix removed.
+  resolve(model: string): { model: string; price: ModelPrice } {
+    const key = [model, this.table.aliases?.[model], model.replace(DATE_SUFFIX, "")].find((k) => k && this.table.models[k]);
+    if (!key) throw new Error(`No price for model "${model}" (add it or an alias to the pricing table)`);
+    return { model: key, price: this.table.models[key] };
+  }
+
+  cost(model: string, usage: TokenUsage, estimated = false): CostBreakdown {
+    const { model: key, price } = this.resolve(model);
+    const cachedInputTokens = Math.min(usage.cachedInputTokens ?? 0, usage.inputTokens);
+    const outputTokens = price.type === "embedding" ? 0 : usage.outputTokens ?? 0;
+
+    const inputUsd = ((usage.inputTokens - cachedInputTokens) / 1_000_000) * price.input;
+    const cachedInputUsd = (cachedInputTokens / 1_000_000) * (price.cachedInput ?? price.input);
+    const outputUsd = (outputTokens / 1_000_000) * (price.output ?? 0);
+
+    return {
+      model: key,
+      inputTokens: usage.inputTokens,
+      cachedInputTokens,
+      outputTokens,
+      inputUsd,
+      cachedInputUsd,
+      outputUsd,
+      totalUsd: inputUsd + cachedInputUsd + outputUsd,
+      estimated,
+    };
+  }
+
+  // Prefer the provider-reported usage; fall back to tokenizer estimates of the text.
+  costOf(model: string, opts: { usage?: Partial<TokenUsage> | null; input?: string; output?: string }): CostBreakdown {
+    const u = opts.usage;
+    if (u && typeof u.inputTokens === "number" && u.inputTokens > 0) {
+      return this.cost(model, { inputTokens: u.inputTokens, outputTokens: u.outputTokens, cachedInputTokens: u.cachedInputTokens });
+    }
+    return this.cost(
+      model,
+      { inputTokens: estimateTokens(opts.input ?? ""), outputTokens: opts.output ? estimateTokens(opts.output) : 0 },
+      true
+    );
+  }
+}
+
+let defaultCalculator: CostCalculator | null = null;
+
+// Shared calculator using pricing.json (loaded on first use)
+export function getCostCalculator(): CostCalculator {
+  defaultCalculator ??= new CostCalculator();
+  return defaultCalculator;
+}
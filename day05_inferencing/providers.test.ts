@@ -0,0 +1,106 @@
+// day05_inferencing/providers.test.ts
+// Run: npm test
+
+import assert from "node:assert/strict";
+import { after, beforeEach, describe, test } from "node:test";
+import { AnthropicProvider, MistralProvider, OpenAICompatibleProvider, createProvider, type ChatRequest } from "./providers.js";
+import { startStubServer } from "./stub_server.js";
+
+const stub = await startStubServer();
+after(() => stub.close());
+beforeEach(() => {
+  stub.requests.length = 0;
+  stub.behavior.status = undefined;
+  stub.behavior.anthropicCache = undefined;
+});
+
+const request: ChatRequest = {
+  messages: [
+    { role: "system", content: "Be brief." },
+    { role: "user", content: "What is RAG?" },
+  ],
+  temperature: 0.2,
+  maxTokens: 50,
+  stop: ["\n\n"],
+};
+
+describe("OpenAICompatibleProvider", () => {
+  test("request: /chat/completions, bearer auth, extra headers, OpenAI field names", async () => {
+    const provider = new OpenAICompatibleProvider({ kind: "openai", baseURL: `${stub.url}/`, apiKey: "sk-test", model: "gpt-4o-mini", headers: { "OpenAI-Project": "proj_1" } });
+    await provider.chat(request);
+
+    const [sent] = stub.requests;
+    assert.equal(sent.path, "/v1/chat/completions");
+    assert.equal(sent.headers.authorization, "Bearer sk-test");
+    assert.equal(sent.headers["openai-project"], "proj_1");
+    assert.deepEqual(sent.body, { model: "gpt-4o-mini", messages: request.messages, temperature: 0.2, max_tokens: 50, stop: ["\n\n"] });
+  });
+
+  test("response: text, usage, finish reason, provider and model", async () => {
+    const provider = new OpenAICompatibleProvider({ kind: "openai", name: "primary", baseURL: stub.url, model: "gpt-4o-mini" });
+    const res = await provider.chat({ ...request, model: "gpt-4o" });
+    assert.equal(res.text, "STUB(gpt-4o): What is RAG?");
+    assert.deepEqual(res.usage, { inputTokens: 5, outputTokens: 4, totalTokens: 9, cachedInputTokens: undefined });
+    assert.equal(res.finishReason, "stop");
+    assert.equal(res.provider, "primary");
+    assert.equal(res.model, "gpt-4o");
+    assert.equal(res.toolCalls, undefined);
+  });
+
+  test("HTTP errors keep the status in the message (FallbackRouter classifies on it)", async () => {
+    stub.behavior.status = 429;
+    const provider = new OpenAICompatibleProvider({ kind: "openai", baseURL: stub.url, model: "gpt-4o-mini" });
+    await assert.rejects(provider.chat(request), /^Error: openai chat error 429: .*Stub failure 429/);
+  });
+});
+
+test("MistralProvider: OpenAI wire format under its own name", async () => {
+  const provider = new MistralProvider({ baseURL: stub.url, apiKey: "m-key", model: "mistral-small" });
+  const res = await provider.chat(request);
+  assert.equal(stub.requests[0].path, "/v1/chat/completions");
+  assert.equal(stub.requests[0].headers.authorization, "Bearer m-key");
+  assert.equal(res.provider, "mistral");
+  assert.equal(res.text, "STUB(mistral-small): What is RAG?");
+});
+
+describe("AnthropicProvider", () => {
+  test("request: /messages, x-api-key + version headers, system prompt as a field", async () => {
+    const provider = new AnthropicProvider({ baseURL: stub.url, apiKey: "a-key", model: "claude-3-5-haiku-latest" });
+    await provider.chat(request);
+
+    const [sent] = stub.requests;
+    assert.equal(sent.path, "/v1/messages");
+    assert.equal(sent.headers["x-api-key"], "a-key");
+    assert.equal(sent.headers["anthropic-version"], "2023-06-01");
+    assert.equal(sent.headers.authorization, undefined);
+    assert.deepEqual(sent.body, {
+      model: "claude-3-5-haiku-latest",
+      system: "Be brief.",
+      messages: [{ role: "user", content: "What is RAG?" }],
+      max_tokens: 50,
+      temperature: 0.2,
+      stop_sequences: ["\n\n"],
+    });
+  });
+
+  test("max_tokens defaults to 1024 (the API requires it), no system field without a system message", async () => {
+    const provider = new AnthropicProvider({ baseURL: stub.url, model: "claude-3-5-haiku-latest" });
+    await provider.chat({ messages: [{ role: "user", content: "hi" }] });
+    assert.equal(stub.requests[0].body.max_tokens, 1024);
+    assert.equal("system" in stub.requests[0].body, false);
+  });
+
+  test("response: text blocks joined, end_turn -> stop, usage normalized", async () => {
+    const res = await createProvider({ kind: "anthropic", baseURL: stub.url, model: "claude-3-5-haiku-latest" }).chat(request);
+    assert.equal(res.text, "STUB(claude-3-5-haiku-latest): What is RAG?");
+    assert.equal(res.finishReason, "stop");
+    assert.deepEqual(res.usage, { inputTokens: 5, outputTokens: 4, totalTokens: 9, cachedInputTokens: 0 });
+    assert.equal(res.provider, "anthropic");
+  });
+
+  test("usage: cache reads and cache writes both count as input; only reads are cached", async () => {
+    stub.behavior.anthropicCache = { read: 1000, creation: 200 };
+    const res = await new AnthropicProvider({ baseURL: stub.url, model: "claude-3-5-haiku-latest" }).chat(request);
+    assert.deepEqual(res.usage, { inputTokens: 1205, outputTokens: 4, totalTokens: 1209, cachedInputTokens: 1000 });
+  });
+});
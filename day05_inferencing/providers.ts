@@ -0,0 +1,286 @@
+// day05_inferencing/providers.ts
+// One chat interface for several providers.
+//
+// Every provider returns the same normalized response:
+//   { text, usage, finishReason, latencyMs, provider, model }
+// so the rest of the app never touches provider-specific JSON.
+//
+// baseURL, headers and model names come from config (or env vars), which also means
+// any provider can be pointed at a local stub server (see stub_server.ts).
+
+export type ProviderKind = "openai" | "mistral" | "anthropic";
+
+export type ChatRole = "system" | "user" | "assistant";
+export type ChatMessage = { role: ChatRole; content: string };
+
+export type ChatRequest = {
+  messages: ChatMessage[];
+  model?: string; // overrides the provider's default model
+  temperature?: number;
+  maxTokens?: number;
+  stop?: string[];
+  signal?: AbortSignal; // aborts the HTTP request (caller cancel, FallbackRouter timeout)
+};
+
+export type Usage = {
+  inputTokens: number; // includes cached input tokens
+  outputTokens: number;
+  totalTokens: number;
+  cachedInputTokens?: number; // prompt-cache hits (billed at a lower rate)
+};
+
+export type FinishReason = "stop" | "length" | "content_filter" | "tool_calls" | "other";
+
+export type ToolCall = { id: string; name: string; arguments: string }; // arguments = raw JSON string
+
+export type ChatResponse = {
+  text: string;
+  usage: Usage;
+  finishReason: FinishReason;
+  latencyMs: number;
+  provider: string;
+  model: string;
+  toolCalls?: ToolCall[]; // set when the model asked for tools
+};
+
+export interface ChatProvider {
+  readonly name: string;
+  readonly kind: ProviderKind;
+  readonly model: string;
+  chat(req: ChatRequest): Promise<ChatResponse>;
+}
+
+export type ProviderConfig = {
+  kind: ProviderKind;
+  name?: string; // label used in logs/metrics (defaults to kind)
+  baseURL: string;
+  apiKey?: string;
+  model: string;
+  headers?: Record<string, string>; // extra headers (org id, gateway auth, ...)
+  timeoutMs?: number;
+};
+
+// Defaults per provider; each can be overridden with <PREFIX>_BASE_URL / <PREFIX>_MODEL / <PREFIX>_API_KEY.
+export const PROVIDER_DEFAULTS: Record<ProviderKind, { baseURL: string; model: string; envPrefix: string }> = {
+  openai: { baseURL: "https://api.openai.com/v1", model: "gpt-4o-mini", envPrefix: "OPENAI" },
+  mistral: { baseURL: "https://api.mistral.ai/v1", model: "mistral-small", envPrefix: "MISTRAL" },
+  anthropic: { baseURL: "https://api.anthropic.com/v1", model: "claude-3-5-haiku-latest", envPrefix: "ANTHROPIC" },
+};
+
+export function configFromEnv(kind: ProviderKind, overrides: Partial<ProviderConfig> = {}): ProviderConfig {
+  const d = PROVIDER_DEFAULTS[kind];
+  return {
+    kind,
+    baseURL: process.env[`${d.envPrefix}_BASE_URL`] || d.baseURL,
+    apiKey: process.env[`${d.envPrefix}_API_KEY`],
+    model: process.env[`${d.envPrefix}_MODEL`] || d.model,
+    ...overrides,
+  };
+}
+
+async function postJson(
+  url: string,
+  headers: Record<string, string>,
+  body: unknown,
+  provider: string,
+  timeoutMs?: number,
+  signal?: AbortSignal
+) {
+  const signals = [...(timeoutMs ? [AbortSignal.timeout(timeoutMs)] : []), ...(signal ? [signal] : [])];
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal: signals.length > 1 ? AbortSignal.any(signals) : signals[0],
+  });
+  if (!res.ok) {
+    const t = await res.text();
+    throw new Error(`${provider} chat error ${res.status}: ${t}`);
+  }
+  return res.json();
+}
+
+function trimSlash(url: string) {
+  return url.replace(/\/+$/, "");
+}
+
+// --------------------------
+// OpenAI-compatible (OpenAI, Groq, Together, vLLM, Ollama, LM Studio, ...)
+// --------------------------
+export class OpenAICompatibleProvider implements ChatProvider {
+  readonly name: string;
+  readonly kind: ProviderKind;
+  readonly model: string;
+
+  constructor(protected config: ProviderConfig) {
+    this.name = config.name ?? config.kind;
+    this.kind = config.kind;
+    this.model = config.model;
+  }
+
+  protected headers(): Record<string, string> {
+    return {
+      ...(this.config.apiKey ? { Authorization: `Bearer ${this.config.apiKey}` } : {}),
+      ...this.config.headers,
+    };
+  }
+
+  async chat(req: ChatRequest): Promise<ChatResponse> {
+    const model = req.model ?? this.model;
+    const start = Date.now();
+    const json = await postJson(
+      `${trimSlash(this.config.baseURL)}/chat/completions`,
+      this.headers(),
+      {
+        model,
+        messages: req.messages,
+        temperature: req.temperature,
+        max_tokens: req.maxTokens,
+        stop: req.stop,
+      },
+      this.name,
+      this.config.timeoutMs,
+      req.signal
+    );
+    const latencyMs = Date.now() - start;
+
+    const choice = json.choices?.[0];
+    const inputTokens = json.usage?.prompt_tokens ?? 0;
+    const outputTokens = json.usage?.completion_tokens ?? 0;
+    const toolCalls: ToolCall[] | undefined = choice?.message?.tool_calls?.map((tc: any) => ({
+      id: tc.id,
+      name: tc.function?.name ?? "",
+      arguments: tc.function?.arguments ?? "",
+    }));
+    return {
+      text: choice?.message?.content ?? "",
+      usage: {
+        inputTokens,
+        outputTokens,
+        totalTokens: json.usage?.total_tokens ?? inputTokens + outputTokens,
+        cachedInputTokens: json.usage?.prompt_tokens_details?.cached_tokens,
+      },
+      finishReason: normalizeOpenAIFinish(choice?.finish_reason),
+      latencyMs,
+      provider: this.name,
+      model: json.model ?? model,
+      toolCalls,
+    };
+  }
+}
+
+function normalizeOpenAIFinish(reason: string | undefined): FinishReason {
+  switch (reason) {
+    case "stop":
+      return "stop";
+    case "length":
+    case "model_length": // Mistral
+      return "length";
+    case "content_filter":
+      return "content_filter";
+    case "tool_calls":
+    case "function_call":
+      return "tool_calls";
+    default:
+      return "other";
+  }
+}
+
+// --------------------------
+// Mistral (OpenAI-style wire format, its own endpoint + models)
+// --------------------------
+export class MistralProvider extends OpenAICompatibleProvider {
+  constructor(config: Omit<ProviderConfig, "kind">) {
+    super({ ...config, kind: "mistral" });
+  }
+}
+
+// --------------------------
+// Anthropic (Messages API)
+// --------------------------
+export class AnthropicProvider implements ChatProvider {
+  readonly name: string;
+  readonly kind = "anthropic" as const;
+  readonly model: string;
+
+  constructor(private config: Omit<ProviderConfig, "kind">) {
+    this.name = config.name ?? "anthropic";
+    this.model = config.model;
+  }
+
+  async chat(req: ChatRequest): Promise<ChatResponse> {
+    const model = req.model ?? this.model;
+
+    // Anthropic takes the system prompt as a separate field, not as a message
+    const system = req.messages
+      .filter((m) => m.role === "system")
+      .map((m) => m.content)
+      .join("\n\n");
+    const messages = req.messages.filter((m) => m.role !== "system");
+
+    const start = Date.now();
+    const json = await postJson(
+      `${trimSlash(this.config.baseURL)}/messages`,
+      {
+        ...(this.config.apiKey ? { "x-api-key": this.config.apiKey } : {}),
+        "anthropic-version": "2023-06-01",
+        ...this.config.headers,
+      },
+      {
+        model,
+        system: system || undefined,
+        messages,
+        max_tokens: req.maxTokens ?? 1024, // required by the API
+        temperature: req.temperature,
+        stop_sequences: req.stop,
+      },
+      this.name,
+      this.config.timeoutMs,
+      req.signal
+    );
+    const latencyMs = Date.now() - start;
+
+    const text = (json.content ?? [])
+      .filter((b: any) => b.type === "text")
+      .map((b: any) => b.text)
+      .join("");
+    // Anthropic reports cache reads and cache writes separately from input_tokens; normalize to
+    // "input includes cached" (only reads are billed at the cached rate)
+    const cachedInputTokens = json.usage?.cache_read_input_tokens ?? 0;
+    const inputTokens = (json.usage?.input_tokens ?? 0) + cachedInputTokens + (json.usage?.cache_creation_input_tokens ?? 0);
+    const outputTokens = json.usage?.output_tokens ?? 0;
+    return {
+      text,
+      usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens, cachedInputTokens },
+      finishReason: normalizeAnthropicFinish(json.stop_reason),
+      latencyMs,
+      provider: this.name,
+      model: json.model ?? model,
+    };
+  }
+}
+
+function normalizeAnthropicFinish(reason: string | undefined): FinishReason {
+  switch (reason) {
+    case "end_turn":
+    case "stop_sequence":
+      return "stop";
+    case "max_tokens":
+      return "length";
+    case "tool_use":
+      return "tool_calls";
+    default:
+      return "other";
+  }
+}
+
+export function createProvider(config: ProviderConfig): ChatProvider {
+  switch (config.kind) {
+    case "openai":
+      return new OpenAICompatibleProvider(config);
+    case "mistral":
+      return new MistralProvider(config);
+    case "anthropic":
+      return new AnthropicProvider(config);
+  }
+}
@@ -0,0 +1,61 @@
+// day05_inferencing/stream_demo.ts
+// Real SSE streaming: incremental tokens, tool-call fragments, TTFT, tokens/sec and cancellation.
+//
+// Runs against the local stub server by default; pass --live to use OPENAI_API_KEY.
+// Run: npm run dev:day5:stream
+
+import "dotenv/config";
+import { configFromEnv, type ProviderConfig } from "./providers.js";
+import { collectStream, type ToolDefinition } from "./streaming.js";
+import { startStubServer } from "./stub_server.js";
+
+(async () => {
+  const live = process.argv.includes("--live");
+  const stub = live ? null : await startStubServer({ chunkDelayMs: 40 });
+  const config: ProviderConfig = configFromEnv("openai", stub ? { baseURL: stub.url, apiKey: "stub-key" } : {});
+  console.log(`=== Streaming (${stub ? `stub ${stub.url}` : config.baseURL}) ===\n`);
+
+  // 1) Text deltas printed as they arrive
+  const res = await collectStream(
+    config,
+    { messages: [{ role: "user", content: "Explain streaming responses in one short paragraph." }], maxTokens: 120 },
+    { onDelta: (d) => d.type === "text" && process.stdout.write(d.text) }
+  );
+  console.log("\n\nfinish:", res.finishReason, "usage:", res.usage);
+  console.log("metrics:", res.metrics);
+
+  // 2) Tool-call arguments arrive in fragments and are assembled
+  const tools: ToolDefinition[] = [
+    {
+      type: "function",
+      function: {
+        name: "searchDocs",
+        description: "Search the docs",
+        parameters: { type: "object", properties: { query: { type: "string" } }, required: ["query"] },
+      },
+    },
+  ];
+  console.log("\n--- Tool call ---");
+  const withTool = await collectStream(
+    config,
+    { messages: [{ role: "user", content: "Search the docs for chunking" }] },
+    { tools, onDelta: (d) => d.type === "tool_call" && console.log("  fragment:", JSON.stringify(d.argumentsDelta)) }
+  );
+  console.log("tool calls:", withTool.toolCalls, "finish:", withTool.finishReason);
+
+  // 3) Cancellation: stop reading after ~200ms
+  console.log("\n--- Cancellation ---");
+  const controller = new AbortController();
+  setTimeout(() => controller.abort(), 200);
+  try {
+    await collectStream(
+      config,
+      { messages: [{ role: "user", content: "Write a long story about vectors, embeddings and search engines." }] },
+      { signal: controller.signal, onDelta: (d) => d.type === "text" && process.stdout.write(d.text) }
+    );
+  } catch (e: any) {
+    console.log(`\n⏹️  stream cancelled (${e.name})`);
+  }
+
+  await stub?.close();
+})();
@@ -0,0 +1,115 @@
+// day05_inferencing/streaming.test.ts
+// Run: npm test
+
+import assert from "node:assert/strict";
+import { after, beforeEach, describe, test } from "node:test";
+import type { ProviderConfig } from "./providers.js";
+import { collectStream, parseSSE, streamChat, type SseEvent, type StreamDelta } from "./streaming.js";
+import { startStubServer } from "./stub_server.js";
+
+const stub = await startStubServer();
+after(() => stub.close());
+beforeEach(() => {
+  stub.behavior.status = undefined;
+  stub.behavior.chunkDelayMs = 0;
+});
+
+// Feed parseSSE a byte stream cut into exactly these pieces
+async function events(pieces: (string | Uint8Array)[]): Promise<SseEvent[]> {
+  async function* body() {
+    for (const p of pieces) yield typeof p === "string" ? new TextEncoder().encode(p) : p;
+  }
+  const out: SseEvent[] = [];
+  for await (const ev of parseSSE(body())) out.push(ev);
+  return out;
+}
+
+describe("parseSSE", () => {
+  test("events split anywhere, even inside `data:`, come out whole", async () => {
+    const stream = 'data: {"a":1}\n\ndata: {"b":2}\n\ndata: [DONE]\n\n';
+    const expected = [{ data: '{"a":1}' }, { data: '{"b":2}' }, { data: "[DONE]" }].map((e) => ({ event: undefined, ...e }));
+    for (let cut = 1; cut < stream.length; cut++) {
+      assert.deepEqual(await events([stream.slice(0, cut), stream.slice(cut)]), expected, `cut at ${cut}`);
+    }
+    assert.deepEqual(await events(stream.split("")), expected, "one character per chunk");
+  });
+
+  test("multi-line data, event names, comments and CRLF", async () => {
+    const out = await events([": keep-alive\r\n\r\n", "event: delta\r\ndata: line one\r\nda", "ta: line two\r\n\r\n", "data:no-space\n\n"]);
+    assert.deepEqual(out, [
+      { event: "delta", data: "line one\nline two" },
+      { event: undefined, data: "no-space" },
+    ]);
+  });
+
+  test("a UTF-8 character split across chunks, and a last event without a blank line", async () => {
+    const bytes = new TextEncoder().encode("data: héllo 🙂\n\ndata: tail");
+    const at = bytes.indexOf(0xf0) + 2; // inside the 4-byte emoji
+    assert.deepEqual(
+      (await events([bytes.subarray(0, at), bytes.subarray(at)])).map((e) => e.data),
+      ["héllo 🙂", "tail"]
+    );
+  });
+});
+
+describe("streamChat / collectStream against the stub server", () => {
+  const config: ProviderConfig = { kind: "openai", name: "stub", baseURL: stub.url, apiKey: "sk-test", model: "gpt-4o-mini" };
+  const messages = [{ role: "user" as const, content: "stream this answer please" }];
+
+  test("text deltas reassemble into the full answer, with usage and metrics", async () => {
+    const deltas: StreamDelta[] = [];
+    const res = await collectStream(config, { messages }, { onDelta: (d) => deltas.push(d) });
+
+    assert.equal(res.text, "STUB(gpt-4o-mini): stream this answer please");
+    assert.ok(deltas.filter((d) => d.type === "text").length > 3, "arrives in several chunks");
+    assert.equal(res.finishReason, "stop");
+    assert.deepEqual(res.usage, { inputTokens: 4, outputTokens: 5, totalTokens: 9, cachedInputTokens: undefined });
+    assert.equal(res.metrics.usageReported, true);
+    assert.notEqual(res.metrics.timeToFirstTokenMs, null);
+
+    const sent = stub.requests.at(-1)!;
+    assert.equal(sent.body.stream, true);
+    assert.deepEqual(sent.body.stream_options, { include_usage: true });
+    assert.equal(sent.headers.accept, "text/event-stream");
+  });
+
+  test("tool-call argument fragments reassemble into valid JSON", async () => {
+    const tools = [{ type: "function" as const, function: { name: "search", parameters: { type: "object" } } }];
+    const res = await collectStream(config, { messages }, { tools });
+    assert.equal(res.finishReason, "tool_calls");
+    assert.deepEqual(res.toolCalls.map((c) => [c.id, c.name]), [["call_stub_1", "search"]]);
+    assert.deepEqual(JSON.parse(res.toolCalls[0].arguments), { query: "STUB(gpt-4o-mini): stream this answer pl" });
+  });
+
+  test("Mistral configs are not sent stream_options; token counts fall back to the tokenizer", async () => {
+    const res = await collectStream({ ...config, kind: "mistral" }, { messages });
+    assert.equal("stream_options" in stub.requests.at(-1)!.body, false);
+    assert.equal(res.text, "STUB(gpt-4o-mini): stream this answer please");
+    assert.equal(res.metrics.usageReported, false);
+    assert.ok(res.metrics.outputTokens > 0);
+  });
+
+  test("breaking out of streamChat early ends the iteration cleanly", async () => {
+    stub.behavior.chunkDelayMs = 20;
+    const seen: StreamDelta[] = [];
+    for await (const d of streamChat(config, { messages })) {
+      seen.push(d);
+      if (d.type === "text") break;
+    }
+    assert.equal(seen.at(-1)!.type, "text");
+  });
+
+  test("aborting mid-stream stops it", async () => {
+    const controller = new AbortController();
+    stub.behavior.chunkDelayMs = 20;
+    const pending = collectStream(config, { messages }, { signal: controller.signal, onDelta: (d) => d.type === "text" && controller.abort() });
+    await assert.rejects(pending, { name: "AbortError" });
+  });
+
+  test("HTTP errors and Anthropic configs are rejected", async () => {
+    stub.behavior.status = 500;
+    await assert.rejects(collectStream(config, { messages }), /stub stream error 500/);
+    const anthropic = streamChat({ kind: "anthropic", baseURL: stub.url, model: "claude-3-5-haiku-latest" }, { messages });
+    await assert.rejects(anthropic.next(), /OpenAI-compatible endpoints only/);
+  });
+});
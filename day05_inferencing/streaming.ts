@@ -0,0 +1,229 @@
+// day05_inferencing/streaming.ts
+// Streaming chat completions (OpenAI-compatible endpoints, Server-Sent Events).
+//
+// - parses the SSE byte stream into events (`data: {...}` ... `data: [DONE]`)
+// - yields typed deltas: text, tool-call argument fragments, finish reason, usage
+// - measures time-to-first-token (TTFT) and tokens/second
+// - cancellation via AbortSignal (aborts the HTTP request mid-stream)
+//
+// Use `streamChat` to iterate deltas yourself, or `collectStream` to get a normalized
+// response plus metrics while receiving incremental callbacks.
+
+import { estimateTokens } from "../day03_llm_mind/tokenizer.js";
+import type { ChatRequest, ChatResponse, FinishReason, ProviderConfig, ToolCall, Usage } from "./providers.js";
+
+export type ToolDefinition = {
+  type: "function";
+  function: { name: string; description?: string; parameters: Record<string, any> };
+};
+
+export type StreamDelta =
+  | { type: "text"; text: string }
+  | { type: "tool_call"; index: number; id?: string; name?: string; argumentsDelta: string }
+  | { type: "finish"; finishReason: FinishReason }
+  | { type: "usage"; usage: Usage };
+
+export type StreamMetrics = {
+  timeToFirstTokenMs: number | null; // request start -> first text/tool delta
+  totalMs: number;
+  outputTokens: number;
+  tokensPerSecond: number; // output tokens / generation time (after the first token)
+  usageReported: boolean; // false = outputTokens estimated with the tokenizer
+};
+
+export type StreamResult = ChatResponse & { toolCalls: ToolCall[]; metrics: StreamMetrics };
+
+export type StreamOptions = {
+  signal?: AbortSignal;
+  tools?: ToolDefinition[];
+};
+
+// --------------------------
+// SSE parsing
+// --------------------------
+export type SseEvent = { event?: string; data: string };
+
+// Turn a byte stream into SSE events. Events are separated by a blank line;
+// multiple `data:` lines in one event are joined with "\n"; `:` lines are comments.
+export async function* parseSSE(body: AsyncIterable<Uint8Array>): AsyncGenerator<SseEvent> {
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const flush = function* (block: string) {
+    let event: string | undefined;
+    const data: string[] = [];
+    for (const line of block.split(/\r?\n/)) {
+      if (!line || line.startsWith(":")) continue;
+      const idx = line.indexOf(":");
+      const field = idx === -1 ? line : line.slice(0, idx);
+      const value = idx === -1 ? "" : line.slice(idx + 1).replace(/^ /, "");
+      if (field === "data") data.push(value);
+      else if (field === "event") event = value;
+    }
+    if (data.length) yield { event, data: data.join("\n") };
+  };
+
+  for await (const chunk of body) {
+    buffer += decoder.decode(chunk, { stream: true });
+    let m: RegExpExecArray | null;
+    while ((m = /\r?\n\r?\n/.exec(buffer))) {
+      const block = buffer.slice(0, m.index);
+      buffer = buffer.slice(m.index + m[0].length);
+      yield* flush(block);
+    }
+  }
+  buffer += decoder.decode();
+  if (buffer.trim()) yield* flush(buffer);
+}
+
+// Read a fetch body chunk by chunk; cancels the body if the consumer stops early
+async function* readChunks(body: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = body.getReader();
+  let finished = false;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      yield value;
+    }
+    finished = true;
+  } finally {
+    if (!finished) await reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
+}
+
+function normalizeFinish(reason: string | null | undefined): FinishReason {
+  if (reason === "stop") return "stop";
+  if (reason === "length" || reason === "model_length") return "length";
+  if (reason === "content_filter") return "content_filter";
+  if (reason === "tool_calls" || reason === "function_call") return "tool_calls";
+  return "other";
+}
+
+// --------------------------
+// Streaming request
+// --------------------------
+export async function* streamChat(config: ProviderConfig, req: ChatRequest, opts: StreamOptions = {}): AsyncGenerator<StreamDelta> {
+  if (config.kind === "anthropic") throw new Error("streamChat supports OpenAI-compatible endpoints only");
+
+  const res = await fetch(`${config.baseURL.replace(/\/+$/, "")}/chat/completions`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: "text/event-stream",
+      ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      ...config.headers,
+    },
+    body: JSON.stringify({
+      model: req.model ?? config.model,
+      messages: req.messages,
+      temperature: req.temperature,
+      max_tokens: req.maxTokens,
+      stop: req.stop,
+      tools: opts.tools,
+      stream: true,
+      // OpenAI only sends usage when asked; Mistral rejects the field and puts usage on the last chunk anyway
+      ...(config.kind === "openai" ? { stream_options: { include_usage: true } } : {}),
+    }),
+    signal: opts.signal,
+  });
+  if (!res.ok || !res.body) {
+    const t = await res.text();
+    throw new Error(`${config.name ?? config.kind} stream error ${res.status}: ${t}`);
+  }
+
+  for await (const ev of parseSSE(readChunks(res.body))) {
+    if (ev.data === "[DONE]") return;
+
+    let json: any;
+    try {
+      json = JSON.parse(ev.data);
+    } catch {
+      throw new Error(`Malformed SSE chunk: ${ev.data.slice(0, 120)}`);
+    }
+    if (json.error) throw new Error(`${config.name ?? config.kind} stream error: ${json.error.message ?? JSON.stringify(json.error)}`);
+
+    const choice = json.choices?.[0];
+    const delta = choice?.delta ?? {};
+    if (typeof delta.content === "string" && delta.content) yield { type: "text", text: delta.content };
+    for (const tc of delta.tool_calls ?? []) {
+      yield {
+        type: "tool_call",
+        index: tc.index ?? 0,
+        id: tc.id,
+        name: tc.function?.name,
+        argumentsDelta: tc.function?.arguments ?? "",
+      };
+    }
+    if (choice?.finish_reason) yield { type: "finish", finishReason: normalizeFinish(choice.finish_reason) };
+
+    // With include_usage (OpenAI) the last chunk has usage and an empty choices array; Mistral adds it to the finish chunk
+    if (json.usage) {
+      const inputTokens = json.usage.prompt_tokens ?? 0;
+      const outputTokens = json.usage.completion_tokens ?? 0;
+      yield {
+        type: "usage",
+        usage: {
+          inputTokens,
+          outputTokens,
+          totalTokens: json.usage.total_tokens ?? inputTokens + outputTokens,
+          cachedInputTokens: json.usage.prompt_tokens_details?.cached_tokens,
+        },
+      };
+    }
+  }
+}
+
+// Consume a stream: call `onDelta` for each piece and return the assembled response + metrics.
+export async function collectStream(
+  config: ProviderConfig,
+  req: ChatRequest,
+  opts: StreamOptions & { onDelta?: (delta: StreamDelta) => void } = {}
+): Promise<StreamResult> {
+  const start = performance.now();
+  let firstTokenAt: number | null = null;
+  let text = "";
+  let finishReason: FinishReason = "other";
+  let usage: Usage | null = null;
+  const tools = new Map<number, ToolCall>();
+
+  for await (const delta of streamChat(config, req, opts)) {
+    if ((delta.type === "text" || delta.type === "tool_call") && firstTokenAt === null) firstTokenAt = performance.now();
+
+    if (delta.type === "text") text += delta.text;
+    else if (delta.type === "tool_call") {
+      const call = tools.get(delta.index) ?? { id: "", name: "", arguments: "" };
+      if (delta.id) call.id = delta.id;
+      if (delta.name) call.name += delta.name;
+      call.arguments += delta.argumentsDelta;
+      tools.set(delta.index, call);
+    } else if (delta.type === "finish") finishReason = delta.finishReason;
+    else usage = delta.usage;
+
+    opts.onDelta?.(delta);
+  }
+
+  const end = performance.now();
+  const toolCalls = [...tools.entries()].sort((a, b) => a[0] - b[0]).map(([, c]) => c);
+  const outputTokens =
+    usage?.outputTokens ?? estimateTokens(text) + toolCalls.reduce((s, c) => s + estimateTokens(c.name + c.arguments), 0);
+  const genSeconds = firstTokenAt === null ? 0 : (end - firstTokenAt) / 1000;
+
+  return {
+    text,
+    toolCalls,
+    usage: usage ?? { inputTokens: 0, outputTokens, totalTokens: outputTokens },
+    finishReason,
+    latencyMs: Math.round(end - start),
+    provider: config.name ?? config.kind,
+    model: req.model ?? config.model,
+    metrics: {
+      timeToFirstTokenMs: firstTokenAt === null ? null : Math.round(firstTokenAt - start),
+      totalMs: Math.round(end - start),
+      outputTokens,
+      tokensPerSecond: genSeconds > 0 ? Math.round((outputTokens / genSeconds) * 10) / 10 : 0,
+      usageReported: usage !== null,
+    },
+  };
+}
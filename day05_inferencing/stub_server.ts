@@ -0,0 +1,172 @@
+// day05_inferencing/stub_server.ts
+// Tiny local HTTP server that speaks the OpenAI-style and Anthropic wire formats.
+// Point a provider's baseURL at it to exercise the client without API keys or network.
+//
+//   POST /v1/chat/completions  -> OpenAI / Mistral shape (SSE chunks when "stream": true)
+//   POST /v1/messages          -> Anthropic shape
+//
+// The reply echoes the last user message so you can see what was sent.
+// `behavior` can simulate failures (429, 500, slow responses) and be changed while running.
+
+import * as http from "http";
+import type { AddressInfo } from "net";
+
+export type StubBehavior = {
+  status?: number; // non-2xx -> error response with this status
+  delayMs?: number; // wait before answering (simulate a slow provider)
+  chunkDelayMs?: number; // gap between streamed SSE chunks (default 15ms)
+  anthropicCache?: { read?: number; creation?: number }; // prompt-cache tokens to report on /v1/messages
+};
+
+export type StubServer = {
+  url: string; // e.g. http://127.0.0.1:54321/v1
+  behavior: StubBehavior;
+  requests: { path: string; headers: http.IncomingHttpHeaders; body: any }[];
+  close(): Promise<void>;
+};
+
+function readBody(req: http.IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let data = "";
+    req.on("data", (chunk) => (data += chunk));
+    req.on("end", () => resolve(data));
+    req.on("error", reject);
+  });
+}
+
+function countWords(text: string) {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+// Stream an OpenAI-style completion: one SSE chunk per word, tool-call arguments in fragments,
+// then the finish chunk, an optional usage chunk and [DONE].
+async function streamCompletion(
+  res: http.ServerResponse,
+  body: any,
+  text: string,
+  usage: { prompt_tokens: number; completion_tokens: number; total_tokens: number },
+  chunkDelayMs: number
+) {
+  res.writeHead(200, { "Content-Type": "text/event-stream", "Cache-Control": "no-cache", Connection: "keep-alive" });
+  let closed = false;
+  res.on("close", () => (closed = true)); // client went away (e.g. AbortSignal)
+
+  const base = { id: "stub-stream", object: "chat.completion.chunk", model: body.model };
+  const send = async (payload: unknown) => {
+    if (closed) return;
+    res.write(`data: ${typeof payload === "string" ? payload : JSON.stringify(payload)}\n\n`);
+    await new Promise((r) => setTimeout(r, chunkDelayMs));
+  };
+
+  await send({ ...base, choices: [{ index: 0, delta: { role: "assistant", content: "" }, finish_reason: null }] });
+
+  const tool = body.tools?.[0]?.function;
+  if (tool) {
+    const args = JSON.stringify({ query: text.slice(0, 40) });
+    await send({ ...base, choices: [{ index: 0, delta: { tool_calls: [{ index: 0, id: "call_stub_1", type: "function", function: { name: tool.name, arguments: "" } }] }, finish_reason: null }] });
+    for (let i = 0; i < args.length; i += 8) {
+      await send({ ...base, choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: args.slice(i, i + 8) } }] }, finish_reason: null }] });
+    }
+    await send({ ...base, choices: [{ index: 0, delta: {}, finish_reason: "tool_calls" }] });
+  } else {
+    for (const word of text.split(/(?<= )/)) {
+      await send({ ...base, choices: [{ index: 0, delta: { content: word }, finish_reason: null }] });
+    }
+    await send({ ...base, choices: [{ index: 0, delta: {}, finish_reason: "stop" }] });
+  }
+
+  if (body.stream_options?.include_usage) await send({ ...base, choices: [], usage });
+  await send("[DONE]");
+  res.end();
+}
+
+export async function startStubServer(opts: StubBehavior & { port?: number } = {}): Promise<StubServer> {
+  const { port = 0, ...initial } = opts;
+  const requests: StubServer["requests"] = [];
+  const behavior: StubBehavior = { ...initial };
+
+  const server = http.createServer(async (req, res) => {
+    const raw = await readBody(req);
+    let body: any = {};
+    try {
+      body = raw ? JSON.parse(raw) : {};
+    } catch {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: { message: "Invalid JSON body" } }));
+      return;
+    }
+    requests.push({ path: req.url ?? "", headers: req.headers, body });
+
+    if (behavior.delayMs) await new Promise((r) => setTimeout(r, behavior.delayMs));
+    if (behavior.status && behavior.status >= 400) {
+      res.writeHead(behavior.status, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: { message: `Stub failure ${behavior.status}` } }));
+      return;
+    }
+
+    const messages: { role: string; content: string }[] = body.messages ?? [];
+    const lastUser = [...messages].reverse().find((m) => m.role === "user")?.content ?? "";
+    const text = `STUB(${body.model}): ${lastUser}`;
+    const inputTokens = countWords(messages.map((m) => m.content).join(" ") + " " + (body.system ?? ""));
+    const outputTokens = countWords(text);
+
+    if (req.method === "POST" && req.url === "/v1/chat/completions" && body.stream) {
+      const usage = { prompt_tokens: inputTokens, completion_tokens: outputTokens, total_tokens: inputTokens + outputTokens };
+      await streamCompletion(res, body, text, usage, behavior.chunkDelayMs ?? 15);
+      return;
+    }
+
+    res.setHeader("Content-Type", "application/json");
+
+    if (req.method === "POST" && req.url === "/v1/chat/completions") {
+      res.end(
+        JSON.stringify({
+          id: `stub-${requests.length}`,
+          object: "chat.completion",
+          model: body.model,
+          choices: [{ index: 0, message: { role: "assistant", content: text }, finish_reason: "stop" }],
+          usage: { prompt_tokens: inputTokens, completion_tokens: outputTokens, total_tokens: inputTokens + outputTokens },
+        })
+      );
+      return;
+    }
+
+    if (req.method === "POST" && req.url === "/v1/messages") {
+      res.end(
+        JSON.stringify({
+          id: `stub-${requests.length}`,
+          type: "message",
+          role: "assistant",
+          model: body.model,
+          content: [{ type: "text", text }],
+          stop_reason: "end_turn",
+          usage: {
+            input_tokens: inputTokens,
+            output_tokens: outputTokens,
+            ...(behavior.anthropicCache
+              ? { cache_read_input_tokens: behavior.anthropicCache.read ?? 0, cache_creation_input_tokens: behavior.anthropicCache.creation ?? 0 }
+              : {}),
+          },
+        })
+      );
+      return;
+    }
+
+    res.statusCode = 404;
+    res.end(JSON.stringify({ error: { message: `No stub route for ${req.method} ${req.url}` } }));
+  });
+
+  await new Promise<void>((resolve) => server.listen(port, "127.0.0.1", resolve));
+  const { port: actualPort } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${actualPort}/v1`,
+    behavior,
+    requests,
+    close: () =>
+      new Promise((resolve, reject) => {
+        server.closeAllConnections(); // don't wait for slow in-flight responses
+        server.close((err) => (err ? reject(err) : resolve()));
+      }),
+  };
+}
@@ -0,0 +1,166 @@
+// day06_embeddings/analyze_store.ts
+// Embedding space report for a local vector store (default: the Day 9 ingestion store).
+//
+// Clusters (k-means), 2D PCA projection, near-duplicate chunks and outliers, exported as
+//   analysis.json, points.csv and scatter.html (static SVG, open it in a browser).
+//
+// Run: npm run dev:day6:analyze -- [--store path.json] [--k 4] [--dup 0.97] [--z 2] [--out dir]
+
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { storeEmbedding, type EmbeddingInfo, type StoredVector } from "../day09_ingestion_pipeline/vector_store.js";
+import { VectorMatrix } from "../day10_similarity_search/vector_math.js";
+import { findOutliers, kmeans, nearDuplicates, pca2d } from "./embedding_analysis.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+type StoreRecord = StoredVector & { id: string; text: string; metadata?: Record<string, any> };
+
+function arg(name: string): string | undefined {
+  const i = process.argv.indexOf(`--${name}`);
+  return i !== -1 ? process.argv[i + 1] : undefined;
+}
+
+const STORE_PATH = arg("store") ?? path.join(__dirname, "..", "day09_ingestion_pipeline", "day09_local_ingestion_store.json");
+const OUT_DIR = arg("out") ?? path.join(__dirname, "analysis_output");
+const DUP_THRESHOLD = Number(arg("dup") ?? 0.97);
+const Z_THRESHOLD = Number(arg("z") ?? 2);
+
+function escapeHtml(s: string) {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function csvCell(v: unknown) {
+  const s = String(v ?? "");
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+const PALETTE = ["#4e79a7", "#59a14f", "#9c755f", "#b07aa1", "#76b7b2", "#edc948", "#bab0ac", "#ff9da7", "#86bcb6", "#8cd17d"];
+
+function scatterHtml(
+  points: { id: string; x: number; y: number; cluster: number; outlier: boolean; duplicate: boolean; preview: string }[],
+  explained: [number, number]
+) {
+  const W = 900, H = 640, PAD = 40;
+  const xs = points.map((p) => p.x), ys = points.map((p) => p.y);
+  const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+  const sx = (x: number) => PAD + ((x - minX) / (maxX - minX || 1)) * (W - 2 * PAD);
+  const sy = (y: number) => H - PAD - ((y - minY) / (maxY - minY || 1)) * (H - 2 * PAD);
+
+  const dots = points
+    .map((p) => {
+      const stroke = p.outlier ? ' stroke="#e15759" stroke-width="3"' : p.duplicate ? ' stroke="#f28e2b" stroke-width="3"' : "";
+      const title = `${p.id} (cluster ${p.cluster}${p.outlier ? ", outlier" : ""}${p.duplicate ? ", near-duplicate" : ""})\n${p.preview}`;
+      return `<circle cx="${sx(p.x).toFixed(1)}" cy="${sy(p.y).toFixed(1)}" r="6" fill="${PALETTE[p.cluster % PALETTE.length]}"${stroke}><title>${escapeHtml(title)}</title></circle>`;
+    })
+    .join("\n");
+
+  return `<!doctype html>
+<html><head><meta charset="utf-8"><title>Embedding space</title>
+<style>body{font-family:system-ui,sans-serif;margin:24px}svg{border:1px solid #ddd;background:#fafafa}</style></head>
+<body>
+<h2>Embedding space (PCA 2D)</h2>
+<p>${points.length} chunks · PC1 ${(explained[0] * 100).toFixed(1)}% · PC2 ${(explained[1] * 100).toFixed(1)}% of variance ·
+color = cluster · <span style="color:#e15759">red ring = outlier</span> · <span style="color:#f28e2b">orange ring = near-duplicate</span> · hover for text</p>
+<svg width="${W}" height="${H}" xmlns="http://www.w3.org/2000/svg">
+${dots}
+</svg>
+</body></html>
+`;
+}
+
+function main() {
+  if (!fs.existsSync(STORE_PATH)) {
+    console.error(`❌ Store not found: ${STORE_PATH}. Run Day 9 first (or pass --store).`);
+    process.exit(1);
+  }
+  const store = JSON.parse(fs.readFileSync(STORE_PATH, "utf-8")) as { records: StoreRecord[] };
+  const records = store.records.filter((r) => Array.isArray(r.embedding) && r.embedding.length);
+  if (records.length < 2) {
+    console.error(`❌ Need at least 2 embedded records, found ${records.length}.`);
+    process.exit(1);
+  }
+
+  // Clusters and distances only mean something inside one embedding space
+  let embedding: EmbeddingInfo;
+  try {
+    embedding = storeEmbedding({ records })!;
+  } catch (err) {
+    console.error(`❌ ${(err as Error).message}`);
+    process.exit(1);
+  }
+
+  const matrix = VectorMatrix.fromVectors(records.map((r) => r.embedding));
+  const k = Number(arg("k") ?? Math.max(2, Math.round(Math.sqrt(records.length / 2))));
+  console.log(`=== Embedding analysis: ${records.length} records x ${matrix.dims} dims (${embedding.model}), k=${k} ===`);
+
+  const clusters = kmeans(matrix, k);
+  const { points, explained } = pca2d(matrix);
+  const duplicates = nearDuplicates(matrix, DUP_THRESHOLD);
+  const outliers = findOutliers(matrix, clusters, Z_THRESHOLD);
+
+  const preview = (i: number) => records[i].text.replace(/\s+/g, " ").slice(0, 120);
+  const outlierSet = new Set(outliers.map((o) => o.index));
+  const dupSet = new Set(duplicates.flatMap((d) => [d.a, d.b]));
+
+  console.log(`\nClusters (converged after ${clusters.iterations} iterations):`);
+  clusters.sizes.forEach((size, c) => {
+    const sample = clusters.assignments.findIndex((a) => a === c);
+    console.log(`  #${c}: ${size} chunks${sample !== -1 ? `  e.g. "${preview(sample).slice(0, 70)}"` : ""}`);
+  });
+
+  console.log(`\nNear-duplicates (cosine ≥ ${DUP_THRESHOLD}): ${duplicates.length}`);
+  for (const d of duplicates.slice(0, 10)) {
+    console.log(`  ${d.similarity.toFixed(3)}  ${records[d.a].id} ↔ ${records[d.b].id}`);
+  }
+
+  console.log(`\nOutliers (z > ${Z_THRESHOLD}): ${outliers.length}`);
+  for (const o of outliers.slice(0, 10)) {
+    console.log(`  ${records[o.index].id}: ${o.reason} (nearest ${o.nearestSimilarity.toFixed(3)})  "${preview(o.index).slice(0, 70)}"`);
+  }
+
+  const rows = records.map((r, i) => ({
+    id: r.id,
+    x: points[i][0],
+    y: points[i][1],
+    cluster: clusters.assignments[i],
+    outlier: outlierSet.has(i),
+    duplicate: dupSet.has(i),
+    preview: preview(i),
+  }));
+
+  fs.mkdirSync(OUT_DIR, { recursive: true });
+  fs.writeFileSync(
+    path.join(OUT_DIR, "analysis.json"),
+    JSON.stringify(
+      {
+        store: STORE_PATH,
+        createdAt: new Date().toISOString(),
+        records: records.length,
+        embeddingModel: embedding.model,
+        dims: matrix.dims,
+        pcaExplainedVariance: explained,
+        clusters: clusters.sizes.map((size, c) => ({ cluster: c, size })),
+        duplicates: duplicates.map((d) => ({ a: records[d.a].id, b: records[d.b].id, similarity: d.similarity })),
+        outliers: outliers.map((o) => ({ ...o, id: records[o.index].id })),
+        points: rows,
+      },
+      null,
+      2
+    ),
+    "utf-8"
+  );
+  const header = ["id", "x", "y", "cluster", "outlier", "duplicate", "preview"] as const;
+  fs.writeFileSync(
+    path.join(OUT_DIR, "points.csv"),
+    [header.join(","), ...rows.map((r) => header.map((h) => csvCell(r[h])).join(","))].join("\n") + "\n",
+    "utf-8"
+  );
+  fs.writeFileSync(path.join(OUT_DIR, "scatter.html"), scatterHtml(rows, explained), "utf-8");
+
+  console.log(`\nSaved analysis.json, points.csv and scatter.html to ${OUT_DIR}`);
+}
+
+main();
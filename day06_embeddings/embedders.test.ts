@@ -0,0 +1,101 @@
+// day06_embeddings/embedders.test.ts
+// Run: npm test
+
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, test } from "node:test";
+import { HashedNgramEmbedder, RandomProjectionEmbedder, TfidfEmbedder, embedderFromEnv, fitIfNeeded } from "./embedders.js";
+
+const corpus = [
+  "Chunking splits long documents into passages for retrieval.",
+  "Embeddings map text to vectors; similar meaning, nearby vectors.",
+  "Bread needs flour, water, salt and yeast.",
+];
+
+const dot = (a: number[], b: number[]) => a.reduce((s, x, i) => s + x * b[i], 0);
+const norm = (v: number[]) => Math.sqrt(dot(v, v));
+
+describe("HashedNgramEmbedder", () => {
+  test("deterministic across instances, normalized, model id names the settings", async () => {
+    const a = new HashedNgramEmbedder();
+    const b = new HashedNgramEmbedder();
+    assert.deepEqual(await a.embedQuery(corpus[0]), await b.embedQuery(corpus[0]));
+    assert.deepEqual(await a.embedDocuments(corpus), await b.embedDocuments(corpus));
+    assert.equal(a.model, "hashed-ngram-3-5-d512");
+    assert.equal((await a.embedQuery(corpus[0])).length, 512);
+    assert.ok(Math.abs(norm(await a.embedQuery(corpus[0])) - 1) < 1e-9);
+  });
+
+  test("word forms overlap more than unrelated text", async () => {
+    const e = new HashedNgramEmbedder();
+    const [q, related, unrelated] = await e.embedDocuments(["chunking documents", "chunked document", "bread and yeast"]);
+    assert.ok(dot(q, related) > dot(q, unrelated));
+  });
+
+  test("rejects an invalid n-gram range", () => {
+    assert.throws(() => new HashedNgramEmbedder({ minN: 4, maxN: 2 }), /Invalid n-gram range 4-2/);
+  });
+});
+
+describe("TfidfEmbedder", () => {
+  test("fit builds a vocabulary without stop words; the model id tracks the vocabulary", async () => {
+    const e = new TfidfEmbedder();
+    assert.equal(e.model, "tfidf-unfitted");
+    await assert.rejects(e.embedQuery("x"), /not fitted/);
+
+    e.fit(corpus);
+    assert.ok(e.dimensions > 0);
+    assert.match(e.model, new RegExp(`^tfidf-d${e.dimensions}-[0-9a-f]{8}$`));
+    assert.ok(!e.toJSON().vocabulary.includes("the"));
+    assert.notEqual(new TfidfEmbedder().fit(corpus.slice(0, 2)).model, e.model);
+
+    const [q] = await e.embedDocuments(["flour and yeast"]);
+    const docs = await e.embedDocuments(corpus);
+    assert.deepEqual(docs.map((d) => dot(q, d) > 0), [false, false, true]);
+  });
+
+  test("save / load round-trips the fitted state", async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "tfidf-")), "nested", "state.json");
+    const e = new TfidfEmbedder().fit(corpus);
+    e.save(file);
+    const loaded = TfidfEmbedder.load(file);
+    assert.equal(loaded.model, e.model);
+    assert.deepEqual(await loaded.embedQuery(corpus[1]), await e.embedQuery(corpus[1]));
+  });
+
+  test("fitIfNeeded fits once and saves; an already fitted vocabulary is kept", () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "tfidf-")), "state.json");
+    const e = new RandomProjectionEmbedder(new TfidfEmbedder(), { dimensions: 16 });
+    fitIfNeeded(e, corpus, file);
+    const model = e.model;
+    assert.ok(fs.existsSync(file));
+    fitIfNeeded(e, ["something else entirely"], file);
+    assert.equal(e.model, model);
+
+    const fromEnv = embedderFromEnv({ kind: "tfidf", tfidfStatePath: file });
+    assert.equal(fromEnv.model, (e.baseEmbedder as TfidfEmbedder).model);
+  });
+});
+
+describe("RandomProjectionEmbedder", () => {
+  test("output has the requested dimensions, is normalized and seeded", async () => {
+    const base = new HashedNgramEmbedder();
+    const rp = new RandomProjectionEmbedder(base, { dimensions: 32, seed: 7 });
+    const v = await rp.embedQuery(corpus[0]);
+    assert.equal(rp.dimensions, 32);
+    assert.equal(v.length, 32);
+    assert.ok(Math.abs(norm(v) - 1) < 1e-9);
+    assert.equal(rp.model, `rp-d32-s7(${base.model})`);
+
+    assert.deepEqual(await new RandomProjectionEmbedder(base, { dimensions: 32, seed: 7 }).embedQuery(corpus[0]), v);
+    assert.notDeepEqual(await new RandomProjectionEmbedder(base, { dimensions: 32, seed: 8 }).embedQuery(corpus[0]), v);
+  });
+
+  test("roughly preserves which documents are close", async () => {
+    const rp = new RandomProjectionEmbedder(new HashedNgramEmbedder(), { dimensions: 128 });
+    const [q, related, unrelated] = await rp.embedDocuments(["chunking documents", "chunked document", "bread and yeast"]);
+    assert.ok(dot(q, related) > dot(q, unrelated));
+  });
+});
@@ -0,0 +1,341 @@
+// day06_embeddings/embedders.ts
+// One `Embedder` interface, several backends.
+//
+// - OpenAIEmbedder:          real model over HTTP (needs OPENAI_API_KEY)
+// - HashedNgramEmbedder:     character n-grams hashed into a fixed vector (offline, stateless)
+// - TfidfEmbedder:           TF-IDF over a vocabulary fitted on your corpus (offline, must be fitted)
+// - RandomProjectionEmbedder: shrinks any embedder to fewer dimensions (seeded, "SVD-lite")
+//
+// Same method names as LangChain's OpenAIEmbeddings (`embedDocuments` / `embedQuery`),
+// and every vector is L2-normalized, so cosine similarity == dot product.
+//
+// Pick one with EMBEDDER=openai|ngram|tfidf|tfidf-rp (default: openai if a key is set, else ngram).
+
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { createRng } from "../day03_llm_mind/decoding.js";
+import { hashStr } from "../day25_conversation_memory/hashed_embedding.js";
+
+export interface Embedder {
+  readonly model: string; // identifies the vector space (two stores are comparable only if this matches)
+  readonly dimensions: number;
+  embedDocuments(texts: string[]): Promise<number[][]>;
+  embedQuery(text: string): Promise<number[]>;
+}
+
+export function l2Normalize(v: number[]): number[] {
+  const norm = Math.sqrt(v.reduce((s, x) => s + x * x, 0));
+  return norm ? v.map((x) => x / norm) : v;
+}
+
+// --------------------------
+// OpenAI (HTTP)
+// --------------------------
+export type OpenAIEmbedderOptions = {
+  model?: string;
+  apiKey?: string;
+  baseURL?: string;
+  dimensions?: number; // text-embedding-3-* can return shorter vectors
+  batchSize?: number;
+  fetchImpl?: typeof fetch; // e.g. a cassette's fetch (day05_inferencing/cassette.ts)
+};
+
+const OPENAI_DIMS: Record<string, number> = {
+  "text-embedding-3-small": 1536,
+  "text-embedding-3-large": 3072,
+  "text-embedding-ada-002": 1536,
+};
+
+export class OpenAIEmbedder implements Embedder {
+  readonly model: string;
+  readonly dimensions: number;
+
+  constructor(private opts: OpenAIEmbedderOptions = {}) {
+    this.model = opts.model ?? "text-embedding-3-small";
+    this.dimensions = opts.dimensions ?? OPENAI_DIMS[this.model] ?? 1536;
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    const apiKey = this.opts.apiKey ?? process.env.OPENAI_API_KEY;
+    if (!apiKey) throw new Error("Missing OPENAI_API_KEY (or use EMBEDDER=ngram / tfidf for offline embeddings)");
+
+    const batchSize = this.opts.batchSize ?? 96;
+    const out: number[][] = [];
+    for (let i = 0; i < texts.length; i += batchSize) {
+      const batch = texts.slice(i, i + batchSize);
+      const res = await (this.opts.fetchImpl ?? fetch)(`${this.opts.baseURL ?? "https://api.openai.com/v1"}/embeddings`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", Authorization: `Bearer ${apiKey}` },
+        body: JSON.stringify({ model: this.model, input: batch, dimensions: this.opts.dimensions }),
+      });
+      if (!res.ok) {
+        const errText = await res.text();
+        throw new Error(`OpenAI embeddings API error: ${res.status} - ${errText}`);
+      }
+      const json: any = await res.json();
+      if (!Array.isArray(json.data)) throw new Error("Unexpected embeddings API response format.");
+      const sorted = [...json.data].sort((a: any, b: any) => a.index - b.index);
+      out.push(...sorted.map((d: any) => d.embedding as number[]));
+    }
+    return out;
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return (await this.embedDocuments([text]))[0];
+  }
+}
+
+// --------------------------
+// Hashed character n-grams
+// --------------------------
+export type HashedNgramOptions = {
+  dimensions?: number;
+  minN?: number;
+  maxN?: number;
+};
+
+// "Chunking" -> " ch", "chu", "hun", ... per word (padded), so typos and word forms still overlap
+export class HashedNgramEmbedder implements Embedder {
+  readonly model: string;
+  readonly dimensions: number;
+  private minN: number;
+  private maxN: number;
+
+  constructor(opts: HashedNgramOptions = {}) {
+    this.dimensions = opts.dimensions ?? 512;
+    this.minN = opts.minN ?? 3;
+    this.maxN = opts.maxN ?? 5;
+    if (this.minN < 1 || this.maxN < this.minN) throw new Error(`Invalid n-gram range ${this.minN}-${this.maxN}`);
+    this.model = `hashed-ngram-${this.minN}-${this.maxN}-d${this.dimensions}`;
+  }
+
+  embed(text: string): number[] {
+    const v = new Array(this.dimensions).fill(0);
+    const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+    for (const w of words) {
+      const padded = ` ${w} `;
+      for (let n = this.minN; n <= this.maxN; n++) {
+        for (let i = 0; i + n <= padded.length; i++) {
+          const h = hashStr(padded.slice(i, i + n));
+          // Signed hashing: collisions cancel out instead of piling up
+          v[h % this.dimensions] += h & 0x80000000 ? -1 : 1;
+        }
+      }
+    }
+    return l2Normalize(v);
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return texts.map((t) => this.embed(t));
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.embed(text);
+  }
+}
+
+// --------------------------
+// TF-IDF
+// --------------------------
+export type TfidfOptions = {
+  maxFeatures?: number; // keep the N most frequent terms (by document frequency)
+  minDf?: number; // ignore terms seen in fewer documents
+  stopWords?: string[];
+};
+
+export type TfidfState = {
+  vocabulary: string[];
+  idf: number[];
+  documents: number;
+};
+
+const STOP_WORDS = [
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "how", "in", "is", "it", "its",
+  "of", "on", "or", "that", "the", "this", "to", "was", "we", "what", "when", "which", "why", "with", "you",
+];
+
+export class TfidfEmbedder implements Embedder {
+  private state: TfidfState | null = null;
+  private index = new Map<string, number>();
+  private stop: Set<string>;
+
+  constructor(private opts: TfidfOptions = {}, state?: TfidfState) {
+    this.stop = new Set(opts.stopWords ?? STOP_WORDS);
+    if (state) this.setState(state);
+  }
+
+  get fitted() {
+    return this.state !== null;
+  }
+
+  get dimensions() {
+    return this.state?.vocabulary.length ?? 0;
+  }
+
+  // Vocabulary hash in the id: a refit on a different corpus is a different vector space
+  get model() {
+    if (!this.state) return "tfidf-unfitted";
+    const h = createHash("sha256").update(this.state.vocabulary.join("\n")).digest("hex").slice(0, 8);
+    return `tfidf-d${this.dimensions}-${h}`;
+  }
+
+  tokenize(text: string): string[] {
+    return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []).filter((t) => t.length > 1 && !this.stop.has(t));
+  }
+
+  fit(corpus: string[]) {
+    if (!corpus.length) throw new Error("TfidfEmbedder.fit needs at least one document");
+    const df = new Map<string, number>();
+    for (const doc of corpus) for (const t of new Set(this.tokenize(doc))) df.set(t, (df.get(t) ?? 0) + 1);
+
+    const vocabulary = [...df.entries()]
+      .filter(([, n]) => n >= (this.opts.minDf ?? 1))
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, this.opts.maxFeatures ?? 4096)
+      .map(([t]) => t);
+    // Smoothed idf (same formula as scikit-learn): ln((1 + N) / (1 + df)) + 1
+    const idf = vocabulary.map((t) => Math.log((1 + corpus.length) / (1 + df.get(t)!)) + 1);
+    this.setState({ vocabulary, idf, documents: corpus.length });
+    return this;
+  }
+
+  private setState(state: TfidfState) {
+    this.state = state;
+    this.index = new Map(state.vocabulary.map((t, i) => [t, i]));
+  }
+
+  embed(text: string): number[] {
+    if (!this.state) throw new Error("TfidfEmbedder is not fitted (call fit(corpus) or load(file) first)");
+    const v = new Array(this.state.vocabulary.length).fill(0);
+    const tf = new Map<number, number>();
+    for (const t of this.tokenize(text)) {
+      const i = this.index.get(t);
+      if (i !== undefined) tf.set(i, (tf.get(i) ?? 0) + 1);
+    }
+    // Sublinear tf: 10 mentions are not 10x more relevant than one
+    for (const [i, n] of tf) v[i] = (1 + Math.log(n)) * this.state.idf[i];
+    return l2Normalize(v);
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return texts.map((t) => this.embed(t));
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.embed(text);
+  }
+
+  toJSON(): TfidfState {
+    if (!this.state) throw new Error("TfidfEmbedder is not fitted");
+    return this.state;
+  }
+
+  save(file: string) {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(this.toJSON()), "utf-8");
+  }
+
+  static load(file: string, opts: TfidfOptions = {}): TfidfEmbedder {
+    return new TfidfEmbedder(opts, JSON.parse(fs.readFileSync(file, "utf-8")) as TfidfState);
+  }
+}
+
+// --------------------------
+// Random projection (dimensionality reduction)
+// --------------------------
+
+// Sparse random projection (Achlioptas): entries are +1 / 0 / -1 with p = 1/6, 2/3, 1/6.
+// Distances are approximately preserved (Johnson–Lindenstrauss) at a fraction of the size.
+export class RandomProjectionEmbedder implements Embedder {
+  readonly dimensions: number;
+  readonly seed: number;
+  private matrix: Float32Array | null = null; // inputDims x dimensions
+  private inputDims = 0;
+
+  constructor(
+    private base: Embedder,
+    opts: { dimensions?: number; seed?: number } = {}
+  ) {
+    this.dimensions = opts.dimensions ?? 128;
+    this.seed = opts.seed ?? 42;
+  }
+
+  get model() {
+    return `rp-d${this.dimensions}-s${this.seed}(${this.base.model})`;
+  }
+
+  get baseEmbedder(): Embedder {
+    return this.base;
+  }
+
+  private project(v: number[]): number[] {
+    if (!this.matrix || this.inputDims !== v.length) {
+      const rand = createRng(this.seed); // seeded: the projection is identical on every run
+      this.inputDims = v.length;
+      this.matrix = new Float32Array(v.length * this.dimensions);
+      for (let i = 0; i < this.matrix.length; i++) {
+        const r = rand();
+        this.matrix[i] = r < 1 / 6 ? 1 : r < 1 / 3 ? -1 : 0;
+      }
+    }
+    const out = new Array(this.dimensions).fill(0);
+    for (let i = 0; i < v.length; i++) {
+      if (v[i] === 0) continue;
+      const row = i * this.dimensions;
+      for (let j = 0; j < this.dimensions; j++) out[j] += v[i] * this.matrix[row + j];
+    }
+    return l2Normalize(out);
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    return (await this.base.embedDocuments(texts)).map((v) => this.project(v));
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return this.project(await this.base.embedQuery(text));
+  }
+}
+
+// --------------------------
+// Selection from env
+// --------------------------
+export type EmbedderKind = "openai" | "ngram" | "tfidf" | "tfidf-rp";
+
+export type EmbedderFromEnvOptions = {
+  kind?: EmbedderKind; // overrides EMBEDDER
+  apiKey?: string; // OpenAI only, defaults to OPENAI_API_KEY
+  fetchImpl?: typeof fetch;
+  tfidfStatePath?: string; // fitted vocabulary is loaded from / saved to this file
+};
+
+export function parseEmbedderKind(value: string): EmbedderKind {
+  const v = value.toLowerCase();
+  if (v === "openai" || v === "ngram" || v === "tfidf" || v === "tfidf-rp") return v;
+  throw new Error(`Invalid embedder "${value}" (use openai, ngram, tfidf or tfidf-rp)`);
+}
+
+export function embedderKindFromEnv(): EmbedderKind {
+  if (!process.env.EMBEDDER) return process.env.OPENAI_API_KEY ? "openai" : "ngram";
+  return parseEmbedderKind(process.env.EMBEDDER);
+}
+
+// TF-IDF embedders come back unfitted unless `tfidfStatePath` exists — see `fitIfNeeded`.
+export function embedderFromEnv(opts: EmbedderFromEnvOptions = {}): Embedder {
+  const kind = opts.kind ?? embedderKindFromEnv();
+  if (kind === "openai") return new OpenAIEmbedder({ apiKey: opts.apiKey, fetchImpl: opts.fetchImpl });
+  if (kind === "ngram") return new HashedNgramEmbedder();
+
+  const tfidf =
+    opts.tfidfStatePath && fs.existsSync(opts.tfidfStatePath) ? TfidfEmbedder.load(opts.tfidfStatePath) : new TfidfEmbedder();
+  return kind === "tfidf" ? tfidf : new RandomProjectionEmbedder(tfidf, { dimensions: 256 });
+}
+
+// Fit an unfitted TF-IDF embedder (also behind a projection) on the corpus; no-op otherwise.
+// An already-fitted vocabulary is kept, so vectors stay comparable with the ones already stored.
+export function fitIfNeeded(embedder: Embedder, corpus: string[], statePath?: string) {
+  const tfidf = embedder instanceof RandomProjectionEmbedder ? embedder.baseEmbedder : embedder;
+  if (!(tfidf instanceof TfidfEmbedder) || tfidf.fitted) return;
+  tfidf.fit(corpus);
+  if (statePath) tfidf.save(statePath);
+}
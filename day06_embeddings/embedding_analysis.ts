@@ -0,0 +1,193 @@
+// day06_embeddings/embedding_analysis.ts
+// Looking at an embedding space instead of trusting it:
+//
+// - k-means (cosine / "spherical"): which topics does the store contain?
+// - PCA to 2D: a picture you can eyeball
+// - near-duplicates: chunk pairs with (almost) the same vector → wasted top-k slots
+// - outliers: chunks far from everything else → boilerplate, garbage text, broken parsing
+//
+// Pure functions; the CLI is analyze_store.ts.
+
+import { createRng } from "../day03_llm_mind/decoding.js";
+import { VectorMatrix, dot, normalize } from "../day10_similarity_search/vector_math.js";
+
+export type KMeansResult = {
+  assignments: number[]; // cluster per row
+  centroids: Float32Array[];
+  sizes: number[];
+  iterations: number;
+};
+
+export type DuplicatePair = { a: number; b: number; similarity: number };
+
+export type OutlierInfo = {
+  index: number;
+  nearestSimilarity: number; // cosine to the closest other vector
+  centroidSimilarity: number; // cosine to its own cluster centroid
+  reason: string;
+};
+
+function mean(xs: number[]) {
+  return xs.length ? xs.reduce((s, x) => s + x, 0) / xs.length : 0;
+}
+
+function std(xs: number[]) {
+  const m = mean(xs);
+  return Math.sqrt(mean(xs.map((x) => (x - m) ** 2)));
+}
+
+// --------------------------
+// k-means (cosine)
+// --------------------------
+
+// k-means++ seeding, then Lloyd iterations on normalized vectors (centroids re-normalized)
+export function kmeans(matrix: VectorMatrix, k: number, opts: { maxIterations?: number; seed?: number } = {}): KMeansResult {
+  const n = matrix.rows;
+  const rows = Array.from({ length: n }, (_, i) => matrix.row(i));
+  k = Math.max(1, Math.min(k, n));
+  const rand = createRng(opts.seed ?? 42); // seeded, so clusters are stable between runs
+
+  const centroids: Float32Array[] = [Float32Array.from(rows[Math.floor(rand() * n)])];
+  while (centroids.length < k) {
+    // Pick the next seed with probability ∝ squared distance to the nearest existing centroid
+    const d2 = Array.from({ length: n }, (_, i) => {
+      const best = Math.max(...centroids.map((c) => dot(rows[i], c)));
+      return Math.max(0, 1 - best) ** 2;
+    });
+    const total = d2.reduce((s, x) => s + x, 0);
+    let r = rand() * total;
+    let pick = d2.findIndex((x) => (r -= x) <= 0);
+    if (pick === -1 || total === 0) pick = Math.floor(rand() * n);
+    centroids.push(Float32Array.from(rows[pick]));
+  }
+
+  const assignments = new Array(n).fill(-1);
+  let iterations = 0;
+  for (; iterations < (opts.maxIterations ?? 50); iterations++) {
+    let changed = 0;
+    for (let i = 0; i < n; i++) {
+      let best = 0;
+      let bestSim = -Infinity;
+      centroids.forEach((c, j) => {
+        const s = dot(rows[i], c);
+        if (s > bestSim) (bestSim = s), (best = j);
+      });
+      if (assignments[i] !== best) (assignments[i] = best), changed++;
+    }
+    if (!changed) break;
+
+    const sums = centroids.map(() => new Float32Array(matrix.dims));
+    for (let i = 0; i < n; i++) {
+      const sum = sums[assignments[i]];
+      for (let d = 0; d < matrix.dims; d++) sum[d] += rows[i][d];
+    }
+    // Empty clusters keep their old centroid
+    sums.forEach((s, j) => {
+      if (assignments.includes(j)) centroids[j] = normalize(s);
+    });
+  }
+
+  const sizes = centroids.map((_, j) => assignments.filter((a) => a === j).length);
+  return { assignments, centroids, sizes, iterations };
+}
+
+// --------------------------
+// PCA to 2D (power iteration, no covariance matrix)
+// --------------------------
+export function pca2d(matrix: VectorMatrix, opts: { iterations?: number; seed?: number } = {}): { points: [number, number][]; explained: [number, number] } {
+  const { rows: n, dims } = matrix;
+  const rows = Array.from({ length: n }, (_, i) => matrix.row(i));
+  const meanVec = new Float64Array(dims);
+  for (let i = 0; i < n; i++) for (let d = 0; d < dims; d++) meanVec[d] += rows[i][d] / n;
+  const centered = (i: number, d: number) => rows[i][d] - meanVec[d];
+
+  let totalVar = 0;
+  for (let i = 0; i < n; i++) for (let d = 0; d < dims; d++) totalVar += centered(i, d) ** 2;
+
+  const rand = createRng(opts.seed ?? 7);
+  const components: Float64Array[] = [];
+  const variances: number[] = [];
+
+  for (let c = 0; c < 2; c++) {
+    let v = Float64Array.from({ length: dims }, () => rand() - 0.5);
+    let eigen = 0;
+    for (let it = 0; it < (opts.iterations ?? 100); it++) {
+      // w = Xᵀ(Xv), with earlier components projected out (deflation)
+      const xv = new Float64Array(n);
+      for (let i = 0; i < n; i++) {
+        let s = 0;
+        for (let d = 0; d < dims; d++) s += centered(i, d) * v[d];
+        xv[i] = s;
+      }
+      const w = new Float64Array(dims);
+      for (let i = 0; i < n; i++) for (let d = 0; d < dims; d++) w[d] += centered(i, d) * xv[i];
+      for (const prev of components) {
+        let p = 0;
+        for (let d = 0; d < dims; d++) p += w[d] * prev[d];
+        for (let d = 0; d < dims; d++) w[d] -= p * prev[d];
+      }
+      const len = Math.sqrt(w.reduce((s, x) => s + x * x, 0));
+      if (!len) break;
+      eigen = len;
+      v = w.map((x) => x / len);
+    }
+    components.push(v);
+    variances.push(eigen);
+  }
+
+  const points = Array.from({ length: n }, (_, i) => {
+    const p = components.map((comp) => {
+      let s = 0;
+      for (let d = 0; d < dims; d++) s += centered(i, d) * comp[d];
+      return s;
+    });
+    return [p[0] ?? 0, p[1] ?? 0] as [number, number];
+  });
+  const explained = variances.map((v) => (totalVar ? v / totalVar : 0)) as [number, number];
+  return { points, explained };
+}
+
+// --------------------------
+// Near-duplicates + outliers
+// --------------------------
+
+// Full pairwise scan: fine for local stores (thousands of chunks), not for millions
+export function nearDuplicates(matrix: VectorMatrix, threshold = 0.97): DuplicatePair[] {
+  const pairs: DuplicatePair[] = [];
+  for (let a = 0; a < matrix.rows; a++) {
+    const scores = matrix.scores(matrix.row(a));
+    for (let b = a + 1; b < matrix.rows; b++) {
+      if (scores[b] >= threshold) pairs.push({ a, b, similarity: scores[b] });
+    }
+  }
+  return pairs.sort((x, y) => y.similarity - x.similarity);
+}
+
+// Similarity to the closest other row, for every row
+export function nearestSimilarities(matrix: VectorMatrix): number[] {
+  return Array.from({ length: matrix.rows }, (_, i) => {
+    const scores = matrix.scores(matrix.row(i));
+    let best = -1;
+    for (let j = 0; j < matrix.rows; j++) if (j !== i && scores[j] > best) best = scores[j];
+    return best;
+  });
+}
+
+// A row is an outlier when it is unusually far (z-score) from its nearest neighbor or its centroid
+export function findOutliers(matrix: VectorMatrix, clusters: KMeansResult, zThreshold = 2): OutlierInfo[] {
+  const nearest = nearestSimilarities(matrix);
+  const toCentroid = clusters.assignments.map((c, i) => dot(matrix.row(i), clusters.centroids[c]));
+  const [mN, sN, mC, sC] = [mean(nearest), std(nearest), mean(toCentroid), std(toCentroid)];
+
+  const out: OutlierInfo[] = [];
+  for (let i = 0; i < matrix.rows; i++) {
+    const reasons: string[] = [];
+    if (sN && (mN - nearest[i]) / sN > zThreshold) reasons.push("isolated (no close neighbor)");
+    if (sC && (mC - toCentroid[i]) / sC > zThreshold) reasons.push("far from its cluster centroid");
+    if (clusters.sizes[clusters.assignments[i]] === 1 && matrix.rows > 2) reasons.push("singleton cluster");
+    if (reasons.length) {
+      out.push({ index: i, nearestSimilarity: nearest[i], centroidSimilarity: toCentroid[i], reason: reasons.join("; ") });
+    }
+  }
+  return out;
+}
@@ -0,0 +1,109 @@
+// day06_embeddings/embedding_cache.test.ts
+// Run: npm test
+
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, test } from "node:test";
+import { CachedEmbedder, EmbeddingCache } from "./embedding_cache.js";
+import type { Embedder } from "./embedders.js";
+
+const tempFile = () => path.join(fs.mkdtempSync(path.join(os.tmpdir(), "embcache-")), "cache.jsonl");
+
+// Counts every text it is asked to embed
+class CountingEmbedder implements Embedder {
+  readonly dimensions = 2;
+  calls: string[][] = [];
+  constructor(readonly model = "counting") {}
+  async embedDocuments(texts: string[]) {
+    this.calls.push(texts);
+    return texts.map((t) => [t.length, 1]);
+  }
+  async embedQuery(text: string) {
+    return (await this.embedDocuments([text]))[0];
+  }
+}
+
+describe("EmbeddingCache", () => {
+  test("hits and misses; whitespace-only differences share an entry", () => {
+    const cache = new EmbeddingCache();
+    assert.equal(cache.get("m", 2, "hello world"), null);
+    cache.set("m", 2, "hello world", [1, 2]);
+    assert.deepEqual(cache.get("m", 2, "  hello \n world "), [1, 2]);
+    assert.deepEqual(cache.stats, { hits: 1, misses: 1, writes: 1, entries: 1, fileLines: 0 });
+  });
+
+  test("model and dimensions are part of the key", () => {
+    const cache = new EmbeddingCache();
+    cache.set("m", 2, "text", [1, 2]);
+    assert.equal(cache.get("other", 2, "text"), null);
+    assert.equal(cache.get("m", 3, "text"), null);
+  });
+
+  test("entries survive a reload; a truncated last line is skipped", () => {
+    const file = tempFile();
+    const cache = new EmbeddingCache(file);
+    cache.set("m", 2, "a", [1, 0]);
+    cache.set("m", 2, "b", [0, 1]);
+    fs.appendFileSync(file, '{"k":"abc","m":"m","d":2,"v":[0.');
+
+    const reloaded = new EmbeddingCache(file);
+    assert.deepEqual(reloaded.get("m", 2, "a"), [1, 0]);
+    assert.deepEqual(reloaded.get("m", 2, "b"), [0, 1]);
+    assert.equal(reloaded.stats.entries, 2);
+    assert.equal(reloaded.stats.fileLines, 3);
+  });
+
+  test("compact keeps one line per live entry; evictModel drops a model", () => {
+    const file = tempFile();
+    const cache = new EmbeddingCache(file);
+    cache.set("m", 2, "a", [1, 0]);
+    cache.set("m", 2, "a", [2, 0]); // supersedes the first line
+    cache.set("old", 2, "a", [3, 0]);
+    cache.compactIfNeeded();
+    assert.equal(cache.stats.fileLines, 3, "not worth compacting yet");
+
+    cache.compact();
+    assert.equal(fs.readFileSync(file, "utf-8").trim().split("\n").length, 2);
+    assert.deepEqual(new EmbeddingCache(file).get("m", 2, "a"), [2, 0]);
+
+    assert.equal(cache.evictModel("old"), 1);
+    const reloaded = new EmbeddingCache(file);
+    assert.equal(reloaded.get("old", 2, "a"), null);
+    assert.equal(reloaded.stats.fileLines, 1);
+    assert.ok(!fs.existsSync(`${file}.tmp`));
+  });
+});
+
+describe("CachedEmbedder", () => {
+  test("only misses reach the inner embedder, duplicates once, in input order", async () => {
+    const inner = new CountingEmbedder();
+    const cached = new CachedEmbedder(inner, new EmbeddingCache());
+    await cached.embedDocuments(["a"]);
+
+    const out = await cached.embedDocuments(["bb", "a", "bb", "ccc"]);
+    assert.deepEqual(out, [[2, 1], [1, 1], [2, 1], [3, 1]]);
+    assert.deepEqual(inner.calls, [["a"], ["bb", "ccc"]]);
+    assert.equal(cached.model, "counting");
+    assert.equal(cached.dimensions, 2);
+  });
+
+  test("an unchanged corpus makes zero embedding calls on the next run", async () => {
+    const file = tempFile();
+    const corpus = ["chunk one", "chunk two", "chunk three"];
+    await new CachedEmbedder(new CountingEmbedder(), new EmbeddingCache(file)).embedDocuments(corpus);
+
+    const inner = new CountingEmbedder();
+    const rerun = new CachedEmbedder(inner, new EmbeddingCache(file));
+    await rerun.embedDocuments(corpus);
+    await rerun.embedQuery("chunk two");
+    assert.equal(inner.calls.length, 0);
+    assert.deepEqual(rerun.stats, { hits: 4, misses: 0, writes: 0, entries: 3, fileLines: 3 });
+
+    // Another model does not reuse those vectors
+    const other = new CountingEmbedder("other");
+    await new CachedEmbedder(other, new EmbeddingCache(file)).embedDocuments(corpus);
+    assert.deepEqual(other.calls, [corpus]);
+  });
+});
@@ -0,0 +1,144 @@
+// day06_embeddings/embedding_cache.ts
+// Persistent embedding cache + a decorator that puts it in front of any Embedder.
+//
+// Key = sha256(model, dimensions, normalized text), so
+//   - whitespace-only edits still hit the cache
+//   - switching models (or dimensions) never returns a vector from the wrong space
+//
+// Storage is an append-only JSONL file (one entry per line, last write wins).
+// Appends are cheap and crash-safe; `compact()` rewrites the file without superseded lines.
+
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import type { Embedder } from "./embedders.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const DEFAULT_EMBEDDING_CACHE_PATH = path.join(__dirname, "embedding_cache.jsonl");
+
+export type CacheStats = {
+  hits: number;
+  misses: number;
+  writes: number;
+  entries: number;
+  fileLines: number; // > entries means there is something to compact
+};
+
+type CacheLine = { k: string; m: string; d: number; v: number[] };
+
+export function normalizeForCache(text: string): string {
+  return text.normalize("NFC").replace(/\s+/g, " ").trim();
+}
+
+export function embeddingCacheKey(model: string, dimensions: number, text: string): string {
+  return createHash("sha256").update(`${model}\u0000${dimensions}\u0000${normalizeForCache(text)}`).digest("hex");
+}
+
+export class EmbeddingCache {
+  private entries = new Map<string, CacheLine>();
+  private fileLines = 0;
+  private counters = { hits: 0, misses: 0, writes: 0 };
+
+  // No file = in-memory only
+  constructor(readonly file?: string) {
+    if (!file || !fs.existsSync(file)) return;
+
+    const lines = fs.readFileSync(file, "utf-8").split("\n");
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      this.fileLines++;
+      try {
+        const entry = JSON.parse(line) as CacheLine;
+        this.entries.set(entry.k, entry);
+      } catch {
+        // A half-written last line (crash during append) is skipped; compact() drops it
+      }
+    }
+  }
+
+  get stats(): CacheStats {
+    return { ...this.counters, entries: this.entries.size, fileLines: this.fileLines };
+  }
+
+  get(model: string, dimensions: number, text: string): number[] | null {
+    const entry = this.entries.get(embeddingCacheKey(model, dimensions, text));
+    if (entry) this.counters.hits++;
+    else this.counters.misses++;
+    return entry ? entry.v : null;
+  }
+
+  set(model: string, dimensions: number, text: string, vector: number[]) {
+    const entry: CacheLine = { k: embeddingCacheKey(model, dimensions, text), m: model, d: dimensions, v: vector };
+    this.entries.set(entry.k, entry);
+    this.counters.writes++;
+    if (this.file) {
+      fs.mkdirSync(path.dirname(this.file), { recursive: true });
+      fs.appendFileSync(this.file, JSON.stringify(entry) + "\n", "utf-8");
+      this.fileLines++;
+    }
+  }
+
+  // Drop every entry for a model (e.g. after retiring it)
+  evictModel(model: string) {
+    let removed = 0;
+    for (const [k, e] of this.entries) if (e.m === model && this.entries.delete(k)) removed++;
+    if (removed) this.compact();
+    return removed;
+  }
+
+  // Rewrite the file with one line per live entry (write to a temp file, then rename)
+  compact() {
+    if (!this.file) return;
+    const tmp = `${this.file}.tmp`;
+    fs.writeFileSync(tmp, [...this.entries.values()].map((e) => JSON.stringify(e) + "\n").join(""), "utf-8");
+    fs.renameSync(tmp, this.file);
+    this.fileLines = this.entries.size;
+  }
+
+  // Compact when more than half of the file is superseded lines
+  compactIfNeeded() {
+    if (this.fileLines > 2 * this.entries.size) this.compact();
+  }
+}
+
+// Decorator: same Embedder interface, only cache misses reach the wrapped embedder (in one batch).
+export class CachedEmbedder implements Embedder {
+  constructor(
+    private inner: Embedder,
+    readonly cache: EmbeddingCache = new EmbeddingCache(DEFAULT_EMBEDDING_CACHE_PATH)
+  ) {}
+
+  get model() {
+    return this.inner.model;
+  }
+
+  get dimensions() {
+    return this.inner.dimensions;
+  }
+
+  get stats() {
+    return this.cache.stats;
+  }
+
+  async embedDocuments(texts: string[]): Promise<number[][]> {
+    const out: (number[] | null)[] = texts.map((t) => this.cache.get(this.model, this.dimensions, t));
+    const missing = texts.map((t, i) => ({ t, i })).filter(({ i }) => out[i] === null);
+
+    if (missing.length) {
+      // Duplicates inside one call are embedded once
+      const unique = new Map(missing.map((m) => [normalizeForCache(m.t), m.t]));
+      const vectors = await this.inner.embedDocuments([...unique.values()]);
+      const byKey = new Map([...unique.keys()].map((k, j) => [k, vectors[j]]));
+      for (const [k, t] of unique) this.cache.set(this.model, this.dimensions, t, byKey.get(k)!);
+      for (const { t, i } of missing) out[i] = byKey.get(normalizeForCache(t))!;
+    }
+    return out as number[][];
+  }
+
+  async embedQuery(text: string): Promise<number[]> {
+    return (await this.embedDocuments([text]))[0];
+  }
+}
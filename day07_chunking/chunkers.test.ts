@@ -0,0 +1,197 @@
+// day07_chunking/chunkers.test.ts
+// Run: npm test
+
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { describe, test } from "node:test";
+import { fileURLToPath } from "url";
+import { DEFAULT_MAX_TOKENS, EMBEDDING_MODEL_MAX_TOKENS, chunkText, type Chunk, type ChunkOptions, type ChunkStrategy } from "./chunkers.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const corpus = fs.readFileSync(path.join(__dirname, "corpus.txt"), "utf-8");
+
+// The second paragraph of "Why Chunking Matters", reworded
+const EDITED = corpus.replace("Instead, we break the document into smaller", "So we split the document into smaller");
+const EDIT_AT = corpus.indexOf("Instead, we break the document");
+
+const STRATEGIES: ChunkStrategy[] = ["characters", "sentences", "recursive", "tokens", "markdown"];
+
+function options(strategy: ChunkStrategy, chunkSize: number): ChunkOptions {
+  const tokens = strategy === "tokens";
+  return { strategy, chunkSize: tokens ? chunkSize / 4 : chunkSize, overlap: tokens ? 4 : 20, source: "corpus.txt" };
+}
+
+function assertOffsets(chunks: Chunk[], source: string) {
+  for (const chunk of chunks) {
+    assert.equal(chunk.text, source.slice(chunk.meta.startIndex, chunk.meta.endIndex), `offsets of ${chunk.meta.id}`);
+  }
+}
+
+for (const strategy of STRATEGIES) {
+  describe(`chunkText: ${strategy}`, () => {
+    for (const chunkSize of [100, 300, 500]) {
+      test(`chunkSize ${chunkSize}: unique ids, exact offsets`, async () => {
+        const chunks = await chunkText(corpus, options(strategy, chunkSize));
+        assert.ok(chunks.length > 1);
+        assert.equal(new Set(chunks.map((c) => c.meta.id)).size, chunks.length);
+        assertOffsets(chunks, corpus);
+      });
+    }
+
+    test("editing one paragraph keeps the ids of the chunks before it", async () => {
+      const before = await chunkText(corpus, options(strategy, 100));
+      const after = await chunkText(EDITED, options(strategy, 100));
+      assertOffsets(after, EDITED);
+
+      const afterIds = new Set(after.map((c) => c.meta.id));
+      const untouched = before.filter((c) => c.meta.endIndex <= EDIT_AT);
+      assert.ok(untouched.length > 0);
+      for (const chunk of untouched) assert.ok(afterIds.has(chunk.meta.id), `${chunk.meta.id} kept`);
+      assert.ok(after.some((c) => !before.some((b) => b.meta.id === c.meta.id)), "edited chunk gets a new id");
+    });
+  });
+}
+
+// Strategies that cut on natural boundaries don't shift the chunks after an edit either
+for (const strategy of ["recursive", "markdown"] as ChunkStrategy[]) {
+  test(`${strategy}: chunks after the edited paragraph keep their ids too`, async () => {
+    const before = await chunkText(corpus, options(strategy, 300));
+    const after = await chunkText(EDITED, options(strategy, 300));
+    const beforeIds = new Set(before.map((c) => c.meta.id));
+    const changed = after.filter((c) => !beforeIds.has(c.meta.id));
+    assert.equal(changed.length, 1);
+    assert.ok(changed[0].text.includes("So we split the document"));
+  });
+}
+
+test("repeated text gets ~N suffixes instead of colliding", async () => {
+  const text = "Same paragraph.\n\nOther paragraph.\n\nSame paragraph.";
+  const ids = (await chunkText(text, { strategy: "recursive", chunkSize: 100, overlap: 0, source: "dup.txt" })).map((c) => c.meta.id);
+  assert.equal(new Set(ids).size, 3);
+  assert.ok(ids[2].endsWith("~2"));
+  assert.equal(ids[2].replace(/~2$/, ""), ids[0]);
+});
+
+test("sentences keep the separator that was in the source", async () => {
+  const text = "First sentence.\nSecond sentence.  Third sentence.";
+  const [chunk] = await chunkText(text, { strategy: "sentences", chunkSize: 200, overlap: 0 });
+  assert.equal(chunk.text, text);
+  assert.deepEqual([chunk.meta.startIndex, chunk.meta.endIndex], [0, text.length]);
+});
+
+test("markdown: a trailing # that is part of the heading stays in the breadcrumb", async () => {
+  const text = "# Guide ##\n\n## Install in C#\n\nRun the installer.\n";
+  const chunks = await chunkText(text, { strategy: "markdown", chunkSize: 500, overlap: 0 });
+  assert.equal(chunks.at(-1)!.meta.breadcrumb, "Guide > Install in C#");
+});
+
+test("markdown: oversized paragraphs split on sentences with exact offsets", async () => {
+  const chunks = await chunkText(corpus, { strategy: "markdown", chunkSize: 100, overlap: 0 });
+  assertOffsets(chunks, corpus);
+  assert.ok(chunks.some((c) => c.text.startsWith("If you try to embed an entire PDF")));
+  assert.ok(chunks.every((c) => !/\n#{1,6} /.test(c.text)), "no chunk crosses a heading");
+});
+
+describe("chunkText: semantic", () => {
+  test("breaks at every section heading and keeps lists whole", async () => {
+    const chunks = await chunkText(corpus, { strategy: "semantic", chunkSize: 500, overlap: 0, source: "corpus.txt" });
+    assertOffsets(chunks, corpus);
+    assert.equal(new Set(chunks.map((c) => c.meta.id)).size, chunks.length);
+
+    for (const heading of ["## Why Chunking Matters", "## From Raw Text to Chunks"]) {
+      assert.ok(chunks.some((c) => c.text.startsWith(heading)), `a chunk starts at "${heading}"`);
+    }
+    assert.ok(chunks.every((c) => !/\n#{1,6} /.test(c.text)), "no chunk crosses a heading");
+
+    const list = chunks.find((c) => c.text.includes("Good chunks:"));
+    assert.ok(list?.text.includes("- can stand on their own when retrieved"), "list stays with its intro line");
+  });
+
+  test("corpus.txt: a similarity breakpoint splits a section, not just the headings", async () => {
+    // chunkSize covers any whole section, so only a low-similarity gap can cut inside one
+    const chunks = await chunkText(corpus, { strategy: "semantic", chunkSize: 2000, overlap: 0, semantic: { minChunkSize: 200 } });
+    assertOffsets(chunks, corpus);
+    const inside = chunks.filter((c) => !c.text.startsWith("#"));
+    assert.deepEqual(inside.map((c) => c.meta.startIndex), [corpus.indexOf("Poor chunking leads to poor retrieval")]);
+    assert.ok(chunks.some((c) => c.text.startsWith("## Why Chunking Matters") && c.text.endsWith("- can stand on their own when retrieved")));
+  });
+
+  test("# comments inside a code fence are not headings, and the fence stays whole", async () => {
+    const text =
+      "## Setup\n\nInstall the tools first.\n\n```bash\n# install dependencies\nnpm install\n# build the index\nnpm run build\n```\n\n" +
+      "Then run the pipeline. It reads the docs folder.\n";
+    const chunks = await chunkText(text, { strategy: "semantic", chunkSize: 500, overlap: 0 });
+    assertOffsets(chunks, text);
+    const fence = text.slice(text.indexOf("```bash"), text.indexOf("```\n\nThen") + 3);
+    assert.ok(chunks.some((c) => c.text.includes(fence)), "the fence is in one chunk");
+    assert.ok(chunks.every((c) => !c.text.startsWith("# ")), "no chunk starts at a # comment");
+  });
+
+  test("separates a topic shift inside one section", async () => {
+    const rag =
+      "Retrieval finds the most relevant chunks for a query. The query is embedded and compared with chunk embeddings. " +
+      "The best chunks are added to the prompt as context. Retrieval quality depends on the chunks and the embeddings.";
+    const bread =
+      "Bread dough needs flour, water, salt and yeast. Knead the dough until it is smooth and elastic. " +
+      "Let the dough rise until it doubles in size. Bake the bread in a hot oven until the crust is brown.";
+    const text = `${rag}\n${bread}`;
+    const chunks = await chunkText(text, { strategy: "semantic", chunkSize: 500, overlap: 0 });
+    assertOffsets(chunks, text);
+    assert.ok(chunks.length >= 2);
+    assert.ok(chunks.some((c) => c.meta.endIndex === rag.length), "a chunk ends where the bread topic starts");
+    assert.ok(chunks.every((c) => !(c.text.includes("Retrieval") && c.text.includes("dough"))), "no chunk mixes the topics");
+  });
+});
+
+test("maxTokens caps every strategy, and the default leaves headroom below the model limit", async () => {
+  assert.ok(DEFAULT_MAX_TOKENS < EMBEDDING_MODEL_MAX_TOKENS);
+  for (const strategy of ["recursive", "markdown", "semantic"] as ChunkStrategy[]) {
+    const chunks = await chunkText(corpus, { strategy, chunkSize: 2000, overlap: 0, maxTokens: 40 });
+    assert.ok(chunks.every((c) => c.meta.tokenCount <= 40), `${strategy} respects maxTokens`);
+    assertOffsets(chunks, corpus);
+  }
+});
+
+describe("chunkText: parent / child", () => {
+  test("parents first, then their children; children lie inside their parent", async () => {
+    const chunks = await chunkText(corpus, { ...options("recursive", 120), parent: { chunkSize: 600 } });
+    const parents = chunks.filter((c) => c.meta.level === "parent");
+    const children = chunks.filter((c) => c.meta.level === "child");
+    assert.ok(parents.length > 1 && children.length > parents.length);
+    assert.deepEqual(chunks.map((c) => c.meta.index), chunks.map((_, i) => i));
+    assertOffsets(chunks, corpus);
+
+    const parentById = new Map(parents.map((p) => [p.meta.id, p]));
+    let current: Chunk | undefined;
+    for (const chunk of chunks) {
+      if (chunk.meta.level === "parent") {
+        assert.equal(chunk.meta.parentId, undefined);
+        current = chunk;
+        continue;
+      }
+      const parent = parentById.get(chunk.meta.parentId!);
+      assert.equal(parent, current, `${chunk.meta.id} follows its parent`);
+      assert.ok(chunk.meta.startIndex >= parent!.meta.startIndex && chunk.meta.endIndex <= parent!.meta.endIndex);
+    }
+  });
+
+  test("markdown parents hand their breadcrumb to the children", async () => {
+    const chunks = await chunkText(corpus, { ...options("sentences", 150), parent: { chunkSize: 800 } });
+    const child = chunks.find((c) => c.meta.level === "child" && c.text.includes("Instead, we break the document"));
+    assert.match(child?.meta.breadcrumb ?? "", /Why Chunking Matters/);
+  });
+
+  test('"tokens" children: parents are measured in tokens too', async () => {
+    const chunks = await chunkText(corpus, { strategy: "tokens", chunkSize: 40, overlap: 0, parent: { chunkSize: 200, strategy: "recursive" } });
+    const parents = chunks.filter((c) => c.meta.level === "parent");
+    assert.ok(parents.length > 1, "split into several parents");
+    assert.ok(parents.every((p) => p.meta.tokenCount <= 200));
+    assert.ok(parents.some((p) => p.text.length > 200), "a 200-token parent is longer than 200 characters");
+    assert.ok(chunks.filter((c) => c.meta.level === "child").every((c) => c.meta.tokenCount <= 40));
+  });
+
+  test("the parent chunkSize must be larger than the children's", async () => {
+    await assert.rejects(chunkText(corpus, { ...options("recursive", 300), parent: { chunkSize: 300 } }), /must be larger than chunkSize/);
+  });
+});
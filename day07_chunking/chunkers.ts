@@ -0,0 +1,539 @@
+// day07_chunking/chunkers.ts
+// Chunking strategies behind one `chunkText` entry point (the CLI is code.ts).
+//
+// Chunk IDs are content-addressed: `<source>#<kind>-<sha256(text) prefix>`, plus `~2`, `~3`, ...
+// for repeats of the same text in one source. Offsets are deliberately NOT part of the ID: an edit
+// near the top of a file shifts every later offset, but the chunks it didn't touch keep their IDs,
+// so downstream upserts (Day 9) only re-embed what actually changed.
+//
+// Embedding models have token limits, not character limits. The "tokens" strategy measures size
+// and overlap with the Day 3 BPE tokenizer and cuts only between pre-tokens (never inside a token);
+// "sentences" / "recursive" can count tokens too (`lengthUnit: "tokens"`). Whatever the strategy,
+// no chunk exceeds `maxTokens`, and every chunk records its `tokenCount`. All counts use the Day 3
+// vocab: an approximation of the model's tokenizer (see DEFAULT_MAX_TOKENS), not the real thing.
+//
+// "markdown" follows the document structure (markdown.ts): chunks never cross a heading, never cut
+// inside a code fence or table, and carry their heading breadcrumb ("Intro > Why Chunking Matters").
+//
+// "semantic" embeds consecutive sentences (any Embedder; offline TF-IDF by default) and starts a new
+// chunk where the similarity between neighbours drops below a percentile of all neighbour similarities,
+// i.e. at topic shifts. That needs an (async) embedder, so `chunkText` is async for every strategy.
+//
+// With `parent` options, any strategy becomes two-level ("small-to-big"): the text is first cut into
+// large parent chunks, then each parent into the usual small chunks. Children are what gets embedded
+// and searched; their `parentId` points at the bigger section that is handed to the model instead.
+
+import { createHash } from "crypto";
+import { TfidfEmbedder, fitIfNeeded, type Embedder } from "../day06_embeddings/embedders.js";
+import { cosineSimilarity } from "../day10_similarity_search/vector_math.js";
+import { getDefaultTokenizer, type BpeTokenizer, type TokenSpan } from "../day03_llm_mind/tokenizer.js";
+import type { LoadedDocument } from "./loaders.js";
+import { headingBreadcrumbs, parseMarkdown, type MarkdownBlock } from "./markdown.js";
+
+export type ChunkStrategy = "characters" | "sentences" | "recursive" | "tokens" | "markdown" | "semantic";
+
+export type LengthUnit = "characters" | "tokens";
+
+// text-embedding-3-* accept at most 8191 cl100k tokens. Counts here come from the Day 3 vocab, not
+// cl100k: it counted 1.3x-2.9x more tokens than cl100k on English, code, German and Japanese samples,
+// but nothing guarantees that for every input, so the default keeps 10% headroom on top.
+export const EMBEDDING_MODEL_MAX_TOKENS = 8191;
+export const DEFAULT_MAX_TOKENS = Math.floor(EMBEDDING_MODEL_MAX_TOKENS * 0.9);
+
+export interface ChunkOptions {
+  strategy: ChunkStrategy;
+  chunkSize: number; // in characters (tokens for "tokens" or lengthUnit "tokens")
+  overlap: number;   // same unit as chunkSize (not used by "markdown" / "semantic")
+  source?: string;   // file the text came from (part of every chunk ID), default "inline"
+  lengthUnit?: LengthUnit; // how "sentences" / "recursive" / "markdown" / "semantic" measure size, default "characters"
+  maxTokens?: number;      // hard cap per chunk in Day 3 tokens, default DEFAULT_MAX_TOKENS (model limit minus headroom)
+  tokenizer?: BpeTokenizer; // default: the Day 3 vocab
+  semantic?: SemanticOptions;
+  parent?: ParentOptions;
+}
+
+export interface ParentOptions {
+  chunkSize: number;         // parent size, in the children's unit (tokens for "tokens" children, else `lengthUnit`)
+  strategy?: ChunkStrategy;  // how parents are cut, default "markdown": whole sections, packed up to chunkSize
+  overlap?: number;          // default 0: parents are context, overlapping them only repeats text in the prompt
+}
+
+export interface SemanticOptions {
+  embedder?: Embedder;           // default: TF-IDF fitted on the document's sentences (offline); any unfitted TF-IDF is fitted the same way
+  breakpointPercentile?: number; // break where neighbour similarity is below this percentile, default 25
+  bufferSize?: number;           // sentences compared on each side of a candidate break, default 2
+  minChunkSize?: number;         // no breakpoint before a chunk reaches this size (chunkSize unit), default chunkSize / 5
+}
+
+export interface ChunkMeta {
+  id: string;
+  source: string;
+  index: number;
+  startIndex: number;
+  endIndex: number;
+  strategy: ChunkStrategy;
+  tokenCount: number;
+  breadcrumb?: string; // "markdown" only: heading path of the section, e.g. "Getting Started with RAG > Why Chunking Matters"
+  page?: number;       // 1-based, for documents with pages (PDFs)
+  level?: "parent" | "child"; // only set for two-level output (`parent` option)
+  parentId?: string;   // children: id of the parent chunk that contains them
+}
+
+export interface Chunk {
+  meta: ChunkMeta;
+  text: string;
+}
+
+// Forward slashes, no leading "./", so the same file gets the same ID prefix on every OS
+export function normalizeSource(source: string): string {
+  return source.replace(/\\/g, "/").replace(/^(\.\/)+/, "");
+}
+
+export function contentHash(text: string): string {
+  return createHash("sha256").update(text).digest("hex").slice(0, 12);
+}
+
+export function chunkId(source: string, kind: string, text: string, occurrence = 1): string {
+  const id = `${normalizeSource(source)}#${kind}-${contentHash(text)}`;
+  return occurrence > 1 ? `${id}~${occurrence}` : id;
+}
+
+// What a strategy produces; `finalize` turns pieces into chunks with IDs and metadata
+type Piece = { kind: string; text: string; startIndex: number; endIndex: number; breadcrumb?: string; parentId?: string };
+
+// Basic sentence splitter based on punctuation.
+export function splitIntoSentences(text: string): string[] {
+  const parts = text
+    .split(/(?<=[.!?])\s+/)
+    .map((s) => s.trim())
+    .filter(Boolean);
+  return parts;
+}
+
+function lengthFunction(options: ChunkOptions): (text: string) => number {
+  if ((options.lengthUnit ?? "characters") === "characters") return (text) => text.length;
+  const tokenizer = options.tokenizer ?? getDefaultTokenizer();
+  return (text) => tokenizer.count(text);
+}
+
+// Fixed-size character chunking with overlap.
+function characterChunks(text: string, options: ChunkOptions): Piece[] {
+  const pieces: Piece[] = [];
+  const { chunkSize, overlap } = options;
+  let start = 0;
+
+  while (start < text.length) {
+    const end = Math.min(start + chunkSize, text.length);
+    pieces.push({ kind: "char", text: text.slice(start, end), startIndex: start, endIndex: end });
+    if (end === text.length) break;
+    start = end - overlap;
+  }
+
+  return pieces;
+}
+
+// Sentences (splitIntoSentences) with their offsets in `text`
+function locateSentences(text: string): { text: string; start: number; end: number }[] {
+  let pos = 0;
+  return splitIntoSentences(text).map((sentence) => {
+    const start = text.indexOf(sentence, pos);
+    pos = start + sentence.length;
+    return { text: sentence, start, end: pos };
+  });
+}
+
+// Sentence-based chunking grouped by approximate size. Chunk text is sliced from the source, so
+// whatever separated the sentences (a space, a newline) is kept and the offsets stay exact.
+function sentenceChunks(text: string, options: ChunkOptions): Piece[] {
+  const sentences = locateSentences(text);
+  const pieces: Piece[] = [];
+  const { chunkSize } = options;
+  const length = lengthFunction(options);
+  let first = -1;
+  let last = -1;
+  const emit = () => {
+    const startIndex = sentences[first].start;
+    const endIndex = sentences[last].end;
+    pieces.push({ kind: "sent", text: text.slice(startIndex, endIndex), startIndex, endIndex });
+  };
+
+  sentences.forEach((sentence, i) => {
+    if (first !== -1 && length(text.slice(sentences[first].start, sentence.end)) > chunkSize) {
+      emit();
+      first = -1;
+    }
+    if (first === -1) first = i;
+    last = i;
+  });
+  if (first !== -1) emit();
+
+  return pieces;
+}
+
+// Simple "recursive" style chunking: paragraphs -> sentences.
+function recursiveChunks(text: string, options: ChunkOptions): Piece[] {
+  const paragraphs = text.split(/\n\n+/).map((p) => p.trim()).filter(Boolean);
+  const pieces: Piece[] = [];
+  const length = lengthFunction(options);
+  let globalPos = 0;
+
+  for (const para of paragraphs) {
+    const paraStart = text.indexOf(para, globalPos);
+    if (length(para) <= options.chunkSize) {
+      pieces.push({ kind: "para", text: para, startIndex: paraStart, endIndex: paraStart + para.length });
+    } else {
+      for (const inner of sentenceChunks(para, options)) {
+        pieces.push({ kind: "rec", text: inner.text, startIndex: paraStart + inner.startIndex, endIndex: paraStart + inner.endIndex });
+      }
+    }
+    globalPos = paraStart + para.length;
+  }
+
+  return pieces;
+}
+
+// Token windows of `chunkSize` tokens, consecutive windows sharing ~`overlap` tokens.
+// Windows are cut between pre-tokens, so no token is ever split.
+function tokenChunks(text: string, options: ChunkOptions, kind = "tok"): Piece[] {
+  const tokenizer = options.tokenizer ?? getDefaultTokenizer();
+  const size = Math.max(1, Math.min(options.chunkSize, options.maxTokens ?? DEFAULT_MAX_TOKENS));
+  const overlap = Math.max(0, Math.min(options.overlap, size - 1));
+  const spans = tokenizer.spans(text).flatMap((span) => (span.tokens > size ? splitSpan(span, size, tokenizer) : [span]));
+  const pieces: Piece[] = [];
+
+  let i = 0;
+  while (i < spans.length) {
+    let tokens = 0;
+    let j = i;
+    while (j < spans.length && tokens + spans[j].tokens <= size) tokens += spans[j++].tokens;
+
+    // Trimming the window re-tokenizes its first word, which can cost a token: shrink if needed
+    const windowText = () => text.slice(spans[i].start, spans[j - 1].end);
+    while (j - 1 > i && tokenizer.count(windowText().trim()) > size) j--;
+
+    const raw = windowText();
+    const lead = raw.length - raw.trimStart().length;
+    const body = raw.trim();
+    if (body) pieces.push({ kind, text: body, startIndex: spans[i].start + lead, endIndex: spans[i].start + lead + body.length });
+    if (j === spans.length) break;
+
+    // Step back over up to `overlap` tokens, always moving forward
+    let back = j;
+    let kept = 0;
+    while (back - 1 > i && kept + spans[back - 1].tokens <= overlap) kept += spans[--back].tokens;
+    i = back;
+  }
+
+  return pieces;
+}
+
+// A single pre-token longer than the window (e.g. a huge unbroken string): cut it by characters
+function splitSpan(span: TokenSpan, size: number, tokenizer: BpeTokenizer): TokenSpan[] {
+  const out: TokenSpan[] = [];
+  let start = 0;
+  while (start < span.text.length) {
+    const rest = span.text.slice(start);
+    let end = rest.length;
+    let tokens = tokenizer.count(rest);
+    while (tokens > size && end > 1) {
+      end = Math.max(1, Math.floor((end * size) / tokens));
+      tokens = tokenizer.count(rest.slice(0, end));
+    }
+    out.push({ text: rest.slice(0, end), start: span.start + start, end: span.start + start + end, tokens });
+    start += end;
+  }
+  return out;
+}
+
+const HEADING_START = /^#{1,6}\s/;
+const LIST_ITEM_START = /^\s*([-*+]|\d+[.)])\s/;
+
+// Sentences with their offsets in `text`. Line breaks end a sentence too (list items are units of
+// their own); a markdown heading or bare list number ("1.") is joined to the sentence after it.
+// Lines of a fenced code block carry the fence's start offset, so a "# comment" there is not a heading.
+function sentenceSpans(text: string): { text: string; start: number; end: number; fence?: number }[] {
+  const fences = parseMarkdown(text).filter((b) => b.type === "code");
+  let pos = 0;
+  const spans = text
+    .split("\n")
+    .flatMap((line) => splitIntoSentences(line))
+    .map((sentence) => {
+      const start = text.indexOf(sentence, pos);
+      pos = start + sentence.length;
+      const fence = fences.find((f) => start >= f.start && start < f.end)?.start;
+      return { text: sentence, start, end: pos, ...(fence === undefined ? {} : { fence }) };
+    });
+  for (let i = spans.length - 2; i >= 0; i--) {
+    if (spans[i].fence !== undefined || !/^#{1,6}\s|^\d+[.)]$/.test(spans[i].text)) continue;
+    const { start } = spans[i];
+    const { end } = spans[i + 1];
+    spans.splice(i, 2, { text: text.slice(start, end), start, end });
+  }
+  return spans;
+}
+
+// Value below which `p` percent of the values fall (linear interpolation)
+export function percentile(values: number[], p: number): number {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(100, Math.max(0, p)) / 100) * (sorted.length - 1);
+  const lo = Math.floor(rank);
+  const hi = Math.ceil(rank);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (rank - lo);
+}
+
+// Similarity across each gap between sentence i and i+1: the (summed) embeddings of up to
+// `bufferSize` sentences before the gap vs. up to `bufferSize` after it. Comparing small windows
+// instead of single sentences smooths out one-line noise.
+export async function neighbourSimilarities(sentences: string[], embedder: Embedder, bufferSize = 2): Promise<number[]> {
+  const vectors = await embedder.embedDocuments(sentences);
+  const sum = (from: number, to: number) => {
+    const out = new Array(vectors[0].length).fill(0);
+    for (let i = Math.max(0, from); i < Math.min(to, vectors.length); i++) vectors[i].forEach((x, d) => (out[d] += x));
+    return out;
+  };
+  return sentences.slice(1).map((_, i) => cosineSimilarity(sum(i + 1 - bufferSize, i + 1), sum(i + 1, i + 1 + bufferSize)));
+}
+
+async function semanticChunks(text: string, options: ChunkOptions): Promise<Piece[]> {
+  const sentences = sentenceSpans(text);
+  if (sentences.length <= 1) return sentences.map((s) => ({ kind: "sem", text: s.text, startIndex: s.start, endIndex: s.end }));
+
+  const opts = options.semantic ?? {};
+  const embedder = opts.embedder ?? new TfidfEmbedder();
+  fitIfNeeded(embedder, sentences.map((s) => s.text));
+  const similarities = await neighbourSimilarities(sentences.map((s) => s.text), embedder, opts.bufferSize ?? 2);
+
+  // Structure beats similarity: a heading always starts a new chunk, and a list or code fence stays
+  // together (only chunkSize can split it). The percentile is taken over the remaining gaps only.
+  const gaps = sentences.slice(1).map((next, i) => {
+    if (next.fence !== undefined && next.fence === sentences[i].fence) return "code";
+    if (HEADING_START.test(next.text)) return "heading";
+    if (LIST_ITEM_START.test(next.text) && (LIST_ITEM_START.test(sentences[i].text) || sentences[i].text.endsWith(":"))) return "list";
+    return "free";
+  });
+  const threshold = percentile(similarities.filter((_, i) => gaps[i] === "free"), opts.breakpointPercentile ?? 25);
+
+  const length = lengthFunction(options);
+  const minSize = opts.minChunkSize ?? options.chunkSize / 5;
+  const pieces: Piece[] = [];
+  let first = 0;
+  const emit = (last: number) => {
+    const start = sentences[first].start;
+    const end = sentences[last].end;
+    pieces.push({ kind: "sem", text: text.slice(start, end), startIndex: start, endIndex: end });
+    first = last + 1;
+  };
+
+  for (let i = 0; i < sentences.length - 1; i++) {
+    const current = length(text.slice(sentences[first].start, sentences[i].end));
+    const withNext = length(text.slice(sentences[first].start, sentences[i + 1].end));
+    const topicShift = gaps[i] === "free" && similarities[i] <= threshold && current >= minSize;
+    if (gaps[i] === "heading" || topicShift || withNext > options.chunkSize) emit(i);
+  }
+  emit(sentences.length - 1);
+
+  // A short tail after the last breakpoint joins the chunk before it (if that still fits and no heading is in between)
+  const [prev, tail] = pieces.slice(-2);
+  const fitsPrev = tail && prev && length(text.slice(prev.startIndex, tail.endIndex)) <= options.chunkSize;
+  if (fitsPrev && length(tail.text) < minSize && !HEADING_START.test(tail.text)) {
+    pieces.splice(-2, 2, { kind: "sem", text: text.slice(prev.startIndex, tail.endIndex), startIndex: prev.startIndex, endIndex: tail.endIndex });
+  }
+
+  return pieces;
+}
+
+// Sections (heading + its blocks) are packed into chunks of up to `chunkSize`. A chunk never spans two
+// sections; code fences and tables are atomic (an oversized one becomes a chunk of its own); oversized
+// paragraphs fall back to sentences, oversized lists to groups of items.
+function markdownChunks(text: string, options: ChunkOptions): Piece[] {
+  const blocks = parseMarkdown(text);
+  const breadcrumbs = headingBreadcrumbs(blocks);
+  const length = lengthFunction(options);
+  const pieces: Piece[] = [];
+
+  let group: MarkdownBlock[] = [];
+  let breadcrumb = "";
+  const flush = () => {
+    // A heading directly followed by a sub-heading adds nothing beyond the breadcrumb
+    if (group.some((b) => b.type !== "heading")) {
+      const start = group[0].start;
+      const end = group[group.length - 1].end;
+      pieces.push({ kind: "md", text: text.slice(start, end), startIndex: start, endIndex: end, breadcrumb: breadcrumb || undefined });
+    }
+    group = [];
+  };
+  const fits = (start: number, end: number) => length(text.slice(start, end)) <= options.chunkSize;
+
+  blocks.forEach((block, b) => {
+    if (block.type === "heading") {
+      flush();
+      breadcrumb = breadcrumbs[b];
+      group.push(block);
+    } else if (group.length && fits(group[0].start, block.end)) {
+      group.push(block);
+    } else if (fits(block.start, block.end) || !splittable(block)) {
+      flush();
+      group.push(block);
+    } else {
+      flush();
+      for (const part of splitBlock(text, block, options)) pieces.push({ ...part, breadcrumb: breadcrumb || undefined });
+    }
+  });
+  flush();
+
+  return pieces;
+}
+
+function splittable(block: MarkdownBlock) {
+  return block.type === "paragraph" || block.type === "list";
+}
+
+function splitBlock(text: string, block: MarkdownBlock, options: ChunkOptions): Piece[] {
+  if (block.type === "paragraph") {
+    return sentenceChunks(text.slice(block.start, block.end), options).map((p) => ({
+      ...p,
+      kind: "md",
+      startIndex: block.start + p.startIndex,
+      endIndex: block.start + p.endIndex,
+    }));
+  }
+  // Lists: pack whole items
+  const length = lengthFunction(options);
+  const pieces: Piece[] = [];
+  let start = -1;
+  let end = -1;
+  for (const item of block.items ?? []) {
+    if (start !== -1 && length(text.slice(start, item.end)) > options.chunkSize) {
+      pieces.push({ kind: "md", text: text.slice(start, end), startIndex: start, endIndex: end });
+      start = -1;
+    }
+    if (start === -1) start = item.start;
+    end = item.end;
+  }
+  if (start !== -1) pieces.push({ kind: "md", text: text.slice(start, end), startIndex: start, endIndex: end });
+  return pieces;
+}
+
+// Model limit: re-split (by tokens, no overlap) any piece that is still too large
+function capTokens(pieces: Piece[], options: ChunkOptions): Piece[] {
+  const tokenizer = options.tokenizer ?? getDefaultTokenizer();
+  const maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS;
+  return pieces.flatMap((piece) => {
+    if (tokenizer.count(piece.text) <= maxTokens) return [piece];
+    return tokenChunks(piece.text, { ...options, chunkSize: maxTokens, overlap: 0 }, piece.kind).map((p) => ({
+      ...p,
+      breadcrumb: piece.breadcrumb,
+      parentId: piece.parentId,
+      startIndex: piece.startIndex + p.startIndex,
+      endIndex: piece.startIndex + p.endIndex,
+    }));
+  });
+}
+
+// Content-addressed IDs (see top of file) + metadata
+function finalize(pieces: Piece[], options: ChunkOptions): Chunk[] {
+  const source = normalizeSource(options.source ?? "inline");
+  const tokenizer = options.tokenizer ?? getDefaultTokenizer();
+  const seen = new Map<string, number>();
+  return capTokens(pieces, options).map((piece, index) => {
+    const base = chunkId(source, piece.kind, piece.text);
+    const occurrence = (seen.get(base) ?? 0) + 1;
+    seen.set(base, occurrence);
+    return {
+      meta: {
+        id: chunkId(source, piece.kind, piece.text, occurrence),
+        source,
+        index,
+        startIndex: piece.startIndex,
+        endIndex: piece.endIndex,
+        strategy: options.strategy,
+        tokenCount: tokenizer.count(piece.text),
+        ...(piece.breadcrumb ? { breadcrumb: piece.breadcrumb } : {}),
+        ...(piece.parentId ? { level: "child" as const, parentId: piece.parentId } : {}),
+      },
+      text: piece.text,
+    };
+  });
+}
+
+async function strategyPieces(text: string, options: ChunkOptions): Promise<Piece[]> {
+  switch (options.strategy) {
+    case "characters":
+      return characterChunks(text, options);
+    case "sentences":
+      return sentenceChunks(text, options);
+    case "tokens":
+      return tokenChunks(text, options);
+    case "markdown":
+      return markdownChunks(text, options);
+    case "semantic":
+      return semanticChunks(text, options);
+    case "recursive":
+    default:
+      return recursiveChunks(text, options);
+  }
+}
+
+// Parents first, then each parent's children (offsets still into `text`). The output lists every
+// parent followed by its children.
+async function hierarchicalChunks(text: string, options: ChunkOptions & { parent: ParentOptions }): Promise<Chunk[]> {
+  const { parent, ...childOptions } = options;
+  // Parents are measured like the children, so the two chunkSizes compare; "tokens" children count tokens
+  const lengthUnit = childOptions.strategy === "tokens" ? "tokens" : childOptions.lengthUnit;
+  // No maxTokens cap: parents are never embedded, only read back as context
+  const parentOptions: ChunkOptions = {
+    ...childOptions,
+    lengthUnit,
+    strategy: parent.strategy ?? "markdown",
+    chunkSize: parent.chunkSize,
+    overlap: parent.overlap ?? 0,
+    maxTokens: Number.POSITIVE_INFINITY,
+  };
+  if (parent.chunkSize <= options.chunkSize) throw new Error(`Parent chunkSize (${parent.chunkSize}) must be larger than chunkSize (${options.chunkSize})`);
+
+  const parents = finalize(
+    (await strategyPieces(text, parentOptions)).map((p) => ({ ...p, kind: "parent" })),
+    parentOptions
+  ).map((c) => ({ ...c, meta: { ...c.meta, level: "parent" as const } }));
+
+  const childPieces: Piece[] = [];
+  for (const p of parents) {
+    for (const piece of await strategyPieces(p.text, childOptions)) {
+      childPieces.push({
+        ...piece,
+        parentId: p.meta.id,
+        startIndex: p.meta.startIndex + piece.startIndex,
+        endIndex: p.meta.startIndex + piece.endIndex,
+        breadcrumb: piece.breadcrumb ?? p.meta.breadcrumb,
+      });
+    }
+  }
+  // One finalize over all children: duplicate texts in different parents still get distinct IDs
+  const children = finalize(childPieces, childOptions);
+
+  const ordered = parents.flatMap((p) => [p, ...children.filter((c) => c.meta.parentId === p.meta.id)]);
+  return ordered.map((c, index) => ({ ...c, meta: { ...c.meta, index } }));
+}
+
+export async function chunkText(text: string, options: ChunkOptions): Promise<Chunk[]> {
+  if (options.parent) return hierarchicalChunks(text, { ...options, parent: options.parent });
+  return finalize(await strategyPieces(text, options), options);
+}
+
+// Chunk a loaded document (loaders.ts). Paged documents are chunked page by page, so no chunk
+// spans a page break and every chunk knows its page; offsets still point into `doc.text`.
+export async function chunkDocument(doc: LoadedDocument, options: Omit<ChunkOptions, "source">): Promise<Chunk[]> {
+  if (!doc.pages) return chunkText(doc.text, { ...options, source: doc.source });
+
+  const chunks: Chunk[] = [];
+  let offset = 0;
+  for (const [p, page] of doc.pages.entries()) {
+    for (const chunk of await chunkText(page, { ...options, source: `${doc.source}#page=${p + 1}` })) {
+      const meta = { ...chunk.meta, source: doc.source, page: p + 1, startIndex: chunk.meta.startIndex + offset, endIndex: chunk.meta.endIndex + offset };
+      chunks.push({ ...chunk, meta: { ...meta, index: chunks.length } });
+    }
+    offset += page.length + 2; // pages are joined by "\n\n"
+  }
+  return chunks;
+}
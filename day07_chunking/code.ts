@@ -1,213 +1,88 @@
 
 // day07_chunking/code.ts
-// Flexible chunking strategies + heuristic grouping.
+// Flexible chunking strategies + heuristic grouping (strategies live in chunkers.ts).
+// Chunk IDs are stable across runs: "<source>#<kind>-<content hash>".
 // Writes chunks to day07_chunks.json in JSON format.
-// Run: npx tsx day07_chunking/code.ts [strategy]
-// strategy: "characters" | "sentences" | "recursive"
+// Run: npx tsx day07_chunking/code.ts [strategy] [--unit tokens] [--parents [size]] [--dir <path> [--include <globs>] [--exclude <globs>]]
+// strategy: "characters" | "sentences" | "recursive" | "tokens" | "markdown" | "semantic"
+// --unit tokens: "sentences" / "recursive" / "markdown" / "semantic" measure chunkSize and overlap in tokens instead of characters
+// --parents: two levels, small chunks inside parent chunks of [size] (default 4x chunkSize, same unit);
+//            Day 9 embeds the children and keeps the parents as retrieval context
+// --dir: chunk every supported file under <path> (.txt .md .html .csv .tsv .jsonl .pdf, see loaders.ts) instead of corpus.txt;
+//        --include / --exclude take comma-separated globs relative to <path>, e.g. --include "docs/**/*.md,*.pdf"
 
 import * as fs from "fs";
 import * as path from "path";
+import { fileURLToPath } from "url";
+import { chunkDocument, type Chunk, type ChunkOptions, type ChunkStrategy, type LengthUnit } from "./chunkers.js";
+import { DEFAULT_EXCLUDE, loadDirectory, type LoadedDocument } from "./loaders.js";
 
-type ChunkStrategy = "characters" | "sentences" | "recursive";
-
-interface ChunkOptions {
-  strategy: ChunkStrategy;
-  chunkSize: number; // in characters
-  overlap: number;   // in characters
-}
-
-interface ChunkMeta {
-  id: string;
-  index: number;
-  startIndex: number;
-  endIndex: number;
-  strategy: ChunkStrategy;
-}
-
-interface Chunk {
-  meta: ChunkMeta;
-  text: string;
-}
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
 
 // Try to load corpus.txt if present, otherwise use inline sample corpus.
-function loadCorpus(): string {
+function loadCorpus(): LoadedDocument {
   const corpusPath = path.join(__dirname, "corpus.txt");
   if (fs.existsSync(corpusPath)) {
-    return fs.readFileSync(corpusPath, "utf-8");
-  }
-  return '# Getting Started with RAG\n\nRetrieval-Augmented Generation (RAG) is a pattern where we combine a language model with an external knowledge source. \nInstead of asking the model to "remember" everything, we let it retrieve relevant information and then generate an answer using that context.\n\nFor example, imagine building a "chat with your documentation" feature. \nWhen a user asks a question, you first search through your docs, pick the most relevant passages, and then feed those into the model as additional context.\n\n## Why Chunking Matters\n\nMost documentation files are long. \nIf you try to embed an entire PDF or markdown file as a single piece of text, the embedding will be blurry and less useful.\nInstead, we break the document into smaller, meaningful pieces called chunks.\n\nGood chunks:\n- are not too long, not too short\n- stay on a single topic\n- can stand on their own when retrieved\n\nPoor chunking leads to poor retrieval, which leads to bad answers, no matter how good your model is.\n\n## From Raw Text to Chunks\n\nA typical pipeline looks like this:\n1. Load raw text (from files, APIs, databases).\n2. Normalize and clean the text.\n3. Split the text into chunks with some overlap.\n4. Attach metadata (source, section, page, etc.) to each chunk.\n5. Generate embeddings for those chunks and store them in a vector database.\n\nIn the next stages, queries will be embedded and compared to these chunk embeddings to find the most relevant pieces of information.';
-}
-
-// Basic sentence splitter based on punctuation.
-function splitIntoSentences(text: string): string[] {
-  const parts = text
-    .split(/(?<=[.!?])\s+/)
-    .map((s) => s.trim())
-    .filter(Boolean);
-  return parts;
-}
-
-// Fixed-size character chunking with overlap.
-function characterChunks(text: string, options: ChunkOptions): Chunk[] {
-  const chunks: Chunk[] = [];
-  const { chunkSize, overlap, strategy } = options;
-  let start = 0;
-  let index = 0;
-
-  while (start < text.length) {
-    const end = Math.min(start + chunkSize, text.length);
-    const substring = text.slice(start, end);
-    chunks.push({
-      meta: {
-        id: `char-{index}`,
-        index,
-        startIndex: start,
-        endIndex: end,
-        strategy,
-      },
-      text: substring,
-    });
-    index++;
-    if (end === text.length) break;
-    start = end - overlap;
+    return { text: fs.readFileSync(corpusPath, "utf-8"), source: "day07_chunking/corpus.txt", mimeType: "text/plain", metadata: {} };
   }
-
-  return chunks;
+  return { source: "inline", mimeType: "text/markdown", metadata: {}, text: '# Getting Started with RAG\n\nRetrieval-Augmented Generation (RAG) is a pattern where we combine a language model with an external knowledge source. \nInstead of asking the model to "remember" everything, we let it retrieve relevant information and then generate an answer using that context.\n\nFor example, imagine building a "chat with your documentation" feature. \nWhen a user asks a question, you first search through your docs, pick the most relevant passages, and then feed those into the model as additional context.\n\n## Why Chunking Matters\n\nMost documentation files are long. \nIf you try to embed an entire PDF or markdown file as a single piece of text, the embedding will be blurry and less useful.\nInstead, we break the document into smaller, meaningful pieces called chunks.\n\nGood chunks:\n- are not too long, not too short\n- stay on a single topic\n- can stand on their own when retrieved\n\nPoor chunking leads to poor retrieval, which leads to bad answers, no matter how good your model is.\n\n## From Raw Text to Chunks\n\nA typical pipeline looks like this:\n1. Load raw text (from files, APIs, databases).\n2. Normalize and clean the text.\n3. Split the text into chunks with some overlap.\n4. Attach metadata (source, section, page, etc.) to each chunk.\n5. Generate embeddings for those chunks and store them in a vector database.\n\nIn the next stages, queries will be embedded and compared to these chunk embeddings to find the most relevant pieces of information.' };
 }
 
-// Sentence-based chunking grouped by approximate character size.
-function sentenceChunks(text: string, options: ChunkOptions): Chunk[] {
-  const sentences = splitIntoSentences(text);
-  const chunks: Chunk[] = [];
-  const { chunkSize, strategy } = options;
-  let current = "";
-  let startIndex = 0;
-  let index = 0;
-
-  for (const sentence of sentences) {
-    const candidate = current ? current + " " + sentence : sentence;
-    if (candidate.length > chunkSize && current) {
-      const endIndex = startIndex + current.length;
-      chunks.push({
-        meta: {
-          id: `sent-{index}`,
-          index,
-          startIndex,
-          endIndex,
-          strategy,
-        },
-        text: current,
-      });
-      index++;
-      startIndex = endIndex + 1;
-      current = sentence;
-    } else {
-      current = candidate;
-    }
-  }
-
-  if (current) {
-    const endIndex = startIndex + current.length;
-    chunks.push({
-      meta: {
-        id: `sent-{index}`,
-        index,
-        startIndex,
-        endIndex,
-        strategy,
-      },
-      text: current,
-    });
-  }
-
-  return chunks;
-}
-
-// Simple "recursive" style chunking: paragraphs -> sentences.
-function recursiveChunks(text: string, options: ChunkOptions): Chunk[] {
-  const paragraphs = text.split(/\n\n+/).map((p) => p.trim()).filter(Boolean);
-  const chunks: Chunk[] = [];
-  const { chunkSize, overlap, strategy } = options;
-  let globalIndex = 0;
-  let globalPos = 0;
-
-  for (const para of paragraphs) {
-    if (para.length <= chunkSize) {
-      const startIndex = text.indexOf(para, globalPos);
-      const endIndex = startIndex + para.length;
-      chunks.push({
-        meta: {
-          id: `para-{globalIndex}`,
-          index: globalIndex,
-          startIndex,
-          endIndex,
-          strategy,
-        },
-        text: para,
-      });
-      globalPos = endIndex;
-      globalIndex++;
-    } else {
-      const inner = sentenceChunks(para, { strategy, chunkSize, overlap });
-      inner.forEach((chunk) => {
-        const localStart = para.indexOf(chunk.text);
-        const startIndex = text.indexOf(para, globalPos) + localStart;
-        const endIndex = startIndex + chunk.text.length;
-        chunks.push({
-          meta: {
-            id: `rec-{globalIndex}`,
-            index: globalIndex,
-            startIndex,
-            endIndex,
-            strategy,
-          },
-          text: chunk.text,
-        });
-        globalIndex++;
-      });
-      globalPos = text.indexOf(para, globalPos) + para.length;
+async function main() {
+  const strategyArg = (process.argv[2]?.startsWith("--") ? undefined : (process.argv[2] as ChunkStrategy)) || "recursive";
+  const unitIdx = process.argv.indexOf("--unit");
+  const unitArg = unitIdx !== -1 ? process.argv[unitIdx + 1] : undefined;
+  const unit: LengthUnit = strategyArg === "tokens" || unitArg === "tokens" ? "tokens" : "characters";
+  const arg = (name: string) => (process.argv.includes(name) ? process.argv[process.argv.indexOf(name) + 1] : undefined);
+  const globs = (value?: string) => value?.split(",").map((g) => g.trim()).filter(Boolean);
+
+  const dir = arg("--dir");
+  const docs = dir
+    ? loadDirectory(dir, { include: globs(arg("--include")), exclude: [...DEFAULT_EXCLUDE, ...(globs(arg("--exclude")) ?? [])] })
+    : [loadCorpus()];
+  if (dir) {
+    console.log(`Loaded ${docs.length} documents from ${dir}`);
+    for (const doc of docs) {
+      if (doc.metadata.warning) console.warn(`  ${doc.source}: ${doc.metadata.warning}`);
     }
   }
 
-  return chunks;
-}
-
-function chunkText(text: string, options: ChunkOptions): Chunk[] {
-  switch (options.strategy) {
-    case "characters":
-      return characterChunks(text, options);
-    case "sentences":
-      return sentenceChunks(text, options);
-    case "recursive":
-    default:
-      return recursiveChunks(text, options);
-  }
-}
-
-async function main() {
-  const strategyArg = (process.argv[2] as ChunkStrategy) || "recursive";
-  const text = loadCorpus();
-
-  const options: ChunkOptions = {
+  // ~4 characters per token in English text
+  const options: Omit<ChunkOptions, "source"> = {
     strategy: strategyArg,
-    chunkSize: 500,
-    overlap: 50,
+    chunkSize: unit === "tokens" ? 128 : 500,
+    overlap: unit === "tokens" ? 16 : 50,
+    lengthUnit: unit,
+    maxTokens: 512,
   };
+  if (process.argv.includes("--parents")) {
+    const size = Number(arg("--parents"));
+    options.parent = { chunkSize: Number.isFinite(size) && size > 0 ? size : options.chunkSize * 4 };
+  }
 
-  console.log(`Using strategy: ${options.strategy} (chunkSize=${options.chunkSize}, overlap=${options.overlap})`);
-  const chunks = chunkText(text, options);
+  console.log(
+    `Using strategy: ${options.strategy} (chunkSize=${options.chunkSize}, overlap=${options.overlap} ${unit}, maxTokens=${options.maxTokens})`
+  );
+  if (options.parent) console.log(`Parents: markdown sections (chunkSize=${options.parent.chunkSize} ${unit})`);
+  const chunks: Chunk[] = [];
+  for (const doc of docs) chunks.push(...(await chunkDocument(doc, options)));
 
   const output = {
     strategy: options.strategy,
     chunkSize: options.chunkSize,
     overlap: options.overlap,
+    lengthUnit: unit,
+    parent: options.parent,
+    documents: docs.map((d) => d.source),
     totalChunks: chunks.length,
     chunks,
   };
 
   const outPath = path.join(__dirname, "day07_chunks.json");
   fs.writeFileSync(outPath, JSON.stringify(output, null, 2), "utf-8");
-  console.log(`Wrote ${chunks.length} chunks to ${outPath}`);
+  const parents = chunks.filter((c) => c.meta.level === "parent").length;
+  console.log(`Wrote ${chunks.length} chunks${parents ? ` (${parents} parents, ${chunks.length - parents} children)` : ""} to ${outPath}`);
 }
 
 main().catch((err) => {
@@ -0,0 +1,145 @@
+// day07_chunking/loaders.test.ts
+// Run: npm test
+
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, test } from "node:test";
+import * as zlib from "zlib";
+import { csvLoader, decodeEntities, globToRegExp, htmlLoader, jsonlLoader, loadDirectory, markdownLoader, parseCsv, pdfLoader, textLoader, tsvLoader } from "./loaders.js";
+
+const load = (loader: typeof textLoader, text: string | Buffer, source = "fixture") => loader.load(Buffer.isBuffer(text) ? text : Buffer.from(text, "utf-8"), source);
+
+// Minimal PDF: objects only (the extractor does not need an xref table), Flate-compressed content streams
+function buildPdf(objects: (string | { dict: string; content: string })[]): Buffer {
+  const parts: Buffer[] = [Buffer.from("%PDF-1.4\n", "latin1")];
+  objects.forEach((obj, i) => {
+    if (typeof obj === "string") {
+      parts.push(Buffer.from(`${i + 1} 0 obj\n${obj}\nendobj\n`, "latin1"));
+      return;
+    }
+    const data = zlib.deflateSync(Buffer.from(obj.content, "latin1"));
+    parts.push(Buffer.from(`${i + 1} 0 obj\n<< ${obj.dict} /Filter /FlateDecode /Length ${data.length} >>\nstream\n`, "latin1"));
+    parts.push(data, Buffer.from("\nendstream\nendobj\n", "latin1"));
+  });
+  parts.push(Buffer.from("%%EOF\n", "latin1"));
+  return Buffer.concat(parts);
+}
+
+test("textLoader: the file as one document", () => {
+  assert.deepEqual(load(textLoader, "line one\nline two", "notes.txt"), [{ text: "line one\nline two", source: "notes.txt", mimeType: "text/plain", metadata: {} }]);
+});
+
+test("markdownLoader: title from the first h1", () => {
+  const [doc] = load(markdownLoader, "Intro\n\n# Chunking Guide #\n\n## Details\n");
+  assert.equal(doc.metadata.title, "Chunking Guide");
+  assert.equal(doc.mimeType, "text/markdown");
+  assert.equal(load(markdownLoader, "# Install in C#\n").at(0)!.metadata.title, "Install in C#");
+});
+
+describe("htmlLoader", () => {
+  test("headings, links, lists and tables become markdown-ish text", () => {
+    const html = `<html><head><title>Guide &amp; FAQ</title><style>p{}</style></head><body>
+      <h2>Why <em>chunk</em>?</h2><p>Read the <a href="https://example.com/docs">docs</a> first.</p>
+      <ul><li>small</li><li>whole</li></ul><table><tr><td>a</td><td>b</td></tr></table>
+      <script>alert(1)</script></body></html>`;
+    const [doc] = load(htmlLoader, html);
+    assert.equal(doc.metadata.title, "Guide & FAQ");
+    assert.equal(doc.text, "## Why chunk?\n\nRead the docs (https://example.com/docs) first.\n\n- small\n- whole\n\na | b");
+  });
+
+  test("numeric entities: valid ones decode, invalid ones become U+FFFD", () => {
+    assert.equal(decodeEntities("&#233;&#x1F642;&lt;&nbsp;&unknown;"), "é🙂< &unknown;");
+    assert.equal(decodeEntities("a&#99999999;b&#x110000;c&#0;d&#xD800;e"), "a�b�c�d�e");
+    assert.equal(load(htmlLoader, "<p>bad &#99999999; entity</p>")[0].text, "bad � entity");
+  });
+});
+
+describe("csvLoader / tsvLoader", () => {
+  test("one document per row, quoted fields keep commas, quotes and newlines", () => {
+    const csv = '﻿name,notes\n"Smith, J","said ""hi""\non two lines"\nDoe,\n';
+    const docs = load(csvLoader, csv, "people.csv");
+    assert.deepEqual(
+      docs.map((d) => [d.source, d.text]),
+      [
+        ["people.csv#row=1", 'name: Smith, J\nnotes: said "hi"\non two lines'],
+        ["people.csv#row=2", "name: Doe"],
+      ]
+    );
+    assert.deepEqual(docs[1].metadata, { file: "people.csv", row: 2 });
+  });
+
+  test("tabs as the delimiter, blank lines skipped", () => {
+    assert.deepEqual(load(tsvLoader, "a\tb\n1\t2\n\n3\t4").map((d) => d.text), ["a: 1\nb: 2", "a: 3\nb: 4"]);
+    assert.deepEqual(parseCsv("x,y\r\n1,2\r\n"), [["x", "y"], ["1", "2"]]);
+  });
+});
+
+test("jsonlLoader: text field plus scalar metadata, other records rendered, bad lines named", () => {
+  const jsonl = '{"content":"First doc","title":"One","tags":["x"]}\n\n{"q":"why","a":42}\n"just a string"\n';
+  const docs = load(jsonlLoader, jsonl, "data.jsonl");
+  assert.deepEqual(
+    docs.map((d) => [d.source, d.text]),
+    [
+      ["data.jsonl#row=1", "First doc"],
+      ["data.jsonl#row=3", "q: why\na: 42"],
+      ["data.jsonl#row=4", "value: just a string"],
+    ]
+  );
+  assert.deepEqual(docs[0].metadata, { file: "data.jsonl", row: 1, title: "One" });
+  assert.throws(() => load(jsonlLoader, '{"ok":1}\n{oops}', "bad.jsonl"), /Invalid JSON on line 2 of bad\.jsonl/);
+});
+
+describe("pdfLoader", () => {
+  const font = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>";
+
+  test("pages in tree order, /Contents as a direct or an indirect array", () => {
+    const pdf = buildPdf([
+      "<< /Type /Catalog /Pages 2 0 R >>",
+      "<< /Type /Pages /Kids [3 0 R 4 0 R] /Count 2 /Resources << /Font << /F1 9 0 R >> >> >>",
+      "<< /Type /Page /Parent 2 0 R /Contents 5 0 R >>", // 5 0 R -> [6 0 R 7 0 R]
+      "<< /Type /Page /Parent 2 0 R /Contents [8 0 R] >>",
+      "[6 0 R 7 0 R]",
+      { dict: "", content: "BT /F1 12 Tf 72 700 Td (Hello from) Tj ET" },
+      { dict: "", content: "BT /F1 12 Tf 72 680 Td (page one.) Tj ET" },
+      { dict: "", content: "BT /F1 12 Tf [(Page) -250 (two)] TJ ET" },
+      font,
+      "<< /Title (Fixture PDF) /Producer (test) >>",
+    ]);
+    const [doc] = load(pdfLoader, pdf, "fixture.pdf");
+    assert.deepEqual(doc.pages, ["Hello from\npage one.", "Page two"]);
+    assert.equal(doc.text, "Hello from\npage one.\n\nPage two");
+    assert.deepEqual(doc.metadata, { title: "Fixture PDF", pageCount: 2 });
+  });
+
+  test("no text layer is flagged, non-PDFs are rejected", () => {
+    const scanned = buildPdf(["<< /Type /Catalog /Pages 2 0 R >>", "<< /Type /Pages /Kids [3 0 R] /Count 1 >>", "<< /Type /Page /Parent 2 0 R >>"]);
+    assert.equal(load(pdfLoader, scanned)[0].metadata.warning, "no text layer (scanned PDF?)");
+    assert.throws(() => load(pdfLoader, "plain text"), /Not a PDF file/);
+  });
+});
+
+test("loadDirectory: globs, hidden files and stable sources", () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), "loaders-"));
+  fs.mkdirSync(path.join(root, "docs"));
+  fs.writeFileSync(path.join(root, "docs", "a.md"), "# A");
+  fs.writeFileSync(path.join(root, "docs", "b.html"), "<p>bad &#99999999; entity</p>");
+  fs.writeFileSync(path.join(root, "notes.txt"), "n");
+  fs.writeFileSync(path.join(root, ".hidden.txt"), "h");
+  fs.writeFileSync(path.join(root, "image.png"), "");
+
+  const base = path.basename(root);
+  assert.deepEqual(loadDirectory(root).map((d) => d.source), [`${base}/docs/a.md`, `${base}/docs/b.html`, `${base}/notes.txt`]);
+  assert.deepEqual(loadDirectory(root, { include: ["docs/**"] }).map((d) => d.source), [`${base}/docs/a.md`, `${base}/docs/b.html`]);
+});
+
+test("globToRegExp: **, *, ?, {a,b} and an unterminated brace as a literal", () => {
+  assert.ok(globToRegExp("**/*.md").test("a/b/c.md"));
+  assert.ok(globToRegExp("**/*.md").test("c.md"));
+  assert.ok(!globToRegExp("docs/*.md").test("docs/x/y.md"));
+  assert.ok(globToRegExp("file?.{md,txt}").test("file1.txt"));
+  assert.ok(!globToRegExp("file?.{md,txt}").test("file1.html"));
+  assert.ok(globToRegExp("foo{bar").test("foo{bar"));
+  assert.ok(globToRegExp("a{b,c}{d").test("ac{d"));
+});
@@ -0,0 +1,289 @@
+// day07_chunking/loaders.ts
+// Document loaders: files on disk -> LoadedDocument { text, source, mimeType, pages?, metadata }.
+//
+// One loader per format (plain text, markdown, HTML, CSV, JSONL, text-layer PDF), picked by file
+// extension, plus a directory walker with include/exclude globs. The chunkers (chunkers.ts) only
+// ever see LoadedDocuments, so adding a format means adding a loader, nothing else.
+//
+// CSV and JSONL produce one document per row/line (source "<file>#row=<n>"): a row is a record,
+// and records should not be chunked together.
+
+import * as fs from "fs";
+import * as path from "path";
+import { extractPdfText } from "./pdf.js";
+
+export interface LoadedDocument {
+  text: string;
+  source: string;   // where it came from: file path (forward slashes), plus "#row=<n>" for CSV/JSONL rows
+  mimeType: string;
+  pages?: string[]; // PDFs: text per page (`text` is the pages joined by blank lines)
+  metadata: Record<string, unknown>;
+}
+
+export interface DocumentLoader {
+  mimeType: string;
+  extensions: string[];
+  load(buf: Buffer, source: string): LoadedDocument[];
+}
+
+// --------------------------
+// Plain text + markdown
+// --------------------------
+
+export const textLoader: DocumentLoader = {
+  mimeType: "text/plain",
+  extensions: [".txt", ".text", ".log"],
+  load: (buf, source) => [{ text: buf.toString("utf-8"), source, mimeType: "text/plain", metadata: {} }],
+};
+
+export const markdownLoader: DocumentLoader = {
+  mimeType: "text/markdown",
+  extensions: [".md", ".markdown", ".mdx"],
+  load(buf, source) {
+    const text = buf.toString("utf-8");
+    const title = text.match(/^#[ \t]+(.+?)(?:[ \t]+#+)?[ \t]*$/m)?.[1];
+    return [{ text, source, mimeType: "text/markdown", metadata: title ? { title } : {} }];
+  },
+};
+
+// --------------------------
+// HTML
+// --------------------------
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: "\u00A0", "#39": "'" };
+
+export function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+\d*);/gi, (whole, name: string) => {
+    if (name[0] === "#") {
+      const code = name[1].toLowerCase() === "x" ? parseInt(name.slice(2), 16) : parseInt(name.slice(1), 10);
+      if (!Number.isFinite(code)) return whole;
+      // Like browsers: NUL, surrogates and anything past U+10FFFF become U+FFFD instead of throwing
+      return code === 0 || code > 0x10ffff || (code >= 0xd800 && code <= 0xdfff) ? "\uFFFD" : String.fromCodePoint(code);
+    }
+    return ENTITIES[name.toLowerCase()] ?? whole;
+  });
+}
+
+const stripTags = (html: string) => html.replace(/<[^>]*>/g, "");
+
+// HTML -> markdown-ish text: headings become "#" lines (so the "markdown" strategy still sees
+// sections), links keep their target, block elements become line breaks, everything else is dropped.
+export function htmlToText(html: string): { text: string; title?: string } {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+  let s = html
+    .replace(/<!--[\s\S]*?-->/g, "")
+    .replace(/<(script|style|noscript|template|head)\b[\s\S]*?<\/\1>/gi, "")
+    .replace(/<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1>/gi, (_, level: string, inner: string) => {
+      return `\n\n${"#".repeat(Number(level))} ${stripTags(inner).replace(/\s+/g, " ").trim()}\n\n`;
+    })
+    .replace(/<a\b[^>]*?href\s*=\s*["']([^"']*)["'][^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, inner: string) => {
+      const label = stripTags(inner).replace(/\s+/g, " ").trim();
+      if (!href || href.startsWith("#") || /^javascript:/i.test(href)) return label;
+      return label && label !== href ? `${label} (${href})` : href;
+    })
+    .replace(/<li\b[^>]*>/gi, "\n- ")
+    .replace(/<br\s*\/?>/gi, "\n")
+    .replace(/<\/?(p|div|section|article|header|footer|main|nav|aside|ul|ol|table|tr|blockquote|pre|figure|dl|dt|dd)\b[^>]*>/gi, "\n")
+    .replace(/<\/t[dh]>\s*<t[dh]\b[^>]*>/gi, " | ");
+
+  s = decodeEntities(stripTags(s));
+  const text = s
+    .split("\n")
+    .map((line) => line.replace(/[ \t\u00A0]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+  return { text, title: title ? decodeEntities(stripTags(title)).trim() : undefined };
+}
+
+export const htmlLoader: DocumentLoader = {
+  mimeType: "text/html",
+  extensions: [".html", ".htm", ".xhtml"],
+  load(buf, source) {
+    const { text, title } = htmlToText(buf.toString("utf-8"));
+    return [{ text, source, mimeType: "text/html", metadata: title ? { title } : {} }];
+  },
+};
+
+// --------------------------
+// CSV + JSONL (one document per row)
+// --------------------------
+
+// RFC 4180: quoted fields may contain delimiters, newlines and "" escapes
+export function parseCsv(input: string, delimiter = ","): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const c = input[i];
+    if (quoted) {
+      if (c === '"' && input[i + 1] === '"') (field += '"'), i++;
+      else if (c === '"') quoted = false;
+      else field += c;
+    } else if (c === '"' && !field) {
+      quoted = true;
+    } else if (c === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += c;
+    }
+  }
+  if (field || row.length) rows.push([...row, field]);
+  return rows.filter((r) => r.some((v) => v.trim()));
+}
+
+// A record as "key: value" lines, which embeds better than raw CSV/JSON syntax
+function recordText(record: Record<string, unknown>): string {
+  return Object.entries(record)
+    .filter(([, v]) => v !== null && v !== undefined && v !== "")
+    .map(([k, v]) => `${k}: ${typeof v === "object" ? JSON.stringify(v) : String(v)}`)
+    .join("\n");
+}
+
+function csvLoaderFor(delimiter: string, extensions: string[], mimeType: string): DocumentLoader {
+  return {
+    mimeType,
+    extensions,
+    load(buf, source) {
+      const [header, ...rows] = parseCsv(buf.toString("utf-8").replace(/^\uFEFF/, ""), delimiter);
+      if (!header) return [];
+      return rows.map((values, i) => {
+        const record = Object.fromEntries(header.map((h, c) => [h.trim() || `column${c + 1}`, values[c] ?? ""]));
+        return { text: recordText(record), source: `${source}#row=${i + 1}`, mimeType, metadata: { file: source, row: i + 1 } };
+      });
+    },
+  };
+}
+
+export const csvLoader = csvLoaderFor(",", [".csv"], "text/csv");
+export const tsvLoader = csvLoaderFor("\t", [".tsv"], "text/tab-separated-values");
+
+// Field used as the document text when a JSONL record has one; otherwise the whole record is rendered
+const JSONL_TEXT_FIELDS = ["text", "content", "body", "page_content"];
+
+export const jsonlLoader: DocumentLoader = {
+  mimeType: "application/jsonl",
+  extensions: [".jsonl", ".ndjson"],
+  load(buf, source) {
+    const docs: LoadedDocument[] = [];
+    buf
+      .toString("utf-8")
+      .split(/\r?\n/)
+      .forEach((line, i) => {
+        if (!line.trim()) return;
+        let record: unknown;
+        try {
+          record = JSON.parse(line);
+        } catch (err: any) {
+          throw new Error(`Invalid JSON on line ${i + 1} of ${source}: ${err.message}`);
+        }
+        const obj = record && typeof record === "object" && !Array.isArray(record) ? (record as Record<string, unknown>) : { value: record };
+        const textField = JSONL_TEXT_FIELDS.find((f) => typeof obj[f] === "string");
+        const text = textField ? (obj[textField] as string) : recordText(obj);
+        // Scalar fields next to the text become metadata (title, url, author, ...)
+        const metadata: Record<string, unknown> = { file: source, row: i + 1 };
+        if (textField) {
+          for (const [k, v] of Object.entries(obj)) if (k !== textField && v !== null && typeof v !== "object") metadata[k] = v;
+        }
+        docs.push({ text, source: `${source}#row=${i + 1}`, mimeType: "application/jsonl", metadata });
+      });
+    return docs;
+  },
+};
+
+// --------------------------
+// PDF (text layer only)
+// --------------------------
+
+export const pdfLoader: DocumentLoader = {
+  mimeType: "application/pdf",
+  extensions: [".pdf"],
+  load(buf, source) {
+    const { pages, info } = extractPdfText(buf);
+    const metadata: Record<string, unknown> = { ...info, pageCount: pages.length };
+    // No text at all usually means a scanned document: it needs OCR, not a loader
+    if (!pages.some((p) => p.trim())) metadata.warning = "no text layer (scanned PDF?)";
+    return [{ text: pages.join("\n\n"), source, mimeType: "application/pdf", pages, metadata }];
+  },
+};
+
+export const DEFAULT_LOADERS: DocumentLoader[] = [textLoader, markdownLoader, htmlLoader, csvLoader, tsvLoader, jsonlLoader, pdfLoader];
+
+export function loaderFor(file: string, loaders = DEFAULT_LOADERS): DocumentLoader | undefined {
+  const ext = path.extname(file).toLowerCase();
+  return loaders.find((l) => l.extensions.includes(ext));
+}
+
+// `source` defaults to the path as given (forward slashes)
+export function loadFile(file: string, opts: { source?: string; loaders?: DocumentLoader[] } = {}): LoadedDocument[] {
+  const loader = loaderFor(file, opts.loaders);
+  if (!loader) throw new Error(`No loader for ${file} (supported: ${(opts.loaders ?? DEFAULT_LOADERS).flatMap((l) => l.extensions).join(", ")})`);
+  return loader.load(fs.readFileSync(file), (opts.source ?? file).replace(/\\/g, "/"));
+}
+
+// --------------------------
+// Directory walker
+// --------------------------
+
+// "**" any number of directories, "*" anything but "/", "?" one character, "{a,b}" alternatives
+export function globToRegExp(glob: string): RegExp {
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      const slash = glob[i + 2] === "/";
+      re += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (c === "*") re += "[^/]*";
+    else if (c === "?") re += "[^/]";
+    else if (c === "{" && glob.indexOf("}", i) === -1) re += "\\{"; // unterminated: a literal brace
+    else if (c === "{") {
+      const end = glob.indexOf("}", i);
+      re += `(?:${glob.slice(i + 1, end).split(",").map((alt) => alt.replace(/[.+^$()|[\]\\]/g, "\\$&")).join("|")})`;
+      i = end;
+    } else re += c.replace(/[.+^$()|[\]\\]/g, "\\$&");
+  }
+  return new RegExp(`^${re}$`);
+}
+
+export type WalkOptions = {
+  include?: string[]; // globs relative to the root, default: every file a loader supports
+  exclude?: string[]; // globs relative to the root, checked first
+  loaders?: DocumentLoader[];
+};
+
+export const DEFAULT_EXCLUDE = ["**/node_modules/**", "**/.git/**", "**/.*"];
+
+// Files under `root` (sorted, relative paths) that pass the globs and have a loader
+export function walkFiles(root: string, opts: WalkOptions = {}): string[] {
+  const include = (opts.include ?? []).map(globToRegExp);
+  const exclude = (opts.exclude ?? DEFAULT_EXCLUDE).map(globToRegExp);
+  const out: string[] = [];
+
+  const visit = (dir: string) => {
+    for (const entry of fs.readdirSync(path.join(root, dir), { withFileTypes: true })) {
+      const rel = dir ? `${dir}/${entry.name}` : entry.name;
+      if (exclude.some((re) => re.test(rel) || (entry.isDirectory() && re.test(`${rel}/`)))) continue;
+      if (entry.isDirectory()) visit(rel);
+      else if (entry.isFile() && (include.length ? include.some((re) => re.test(rel)) : true) && loaderFor(rel, opts.loaders)) out.push(rel);
+    }
+  };
+  visit("");
+  return out.sort();
+}
+
+// Load every matching file under `root`. Sources are "<root name>/<relative path>", so they stay
+// stable no matter where the command is run from.
+export function loadDirectory(root: string, opts: WalkOptions = {}): LoadedDocument[] {
+  const base = path.basename(path.resolve(root));
+  return walkFiles(root, opts).flatMap((rel) => loadFile(path.join(root, rel), { source: `${base}/${rel}`, loaders: opts.loaders }));
+}
@@ -0,0 +1,115 @@
+// day07_chunking/markdown.ts
+// Minimal markdown block parser for structure-aware chunking (see the "markdown" strategy in chunkers.ts).
+//
+// Splits a document into top-level blocks — headings, fenced code, tables, lists, paragraphs —
+// with their character offsets in the original text. Not a full CommonMark parser: no nested
+// containers, setext headings or HTML blocks; enough to know where a chunk may NOT be cut.
+
+export type MarkdownBlockType = "heading" | "code" | "table" | "list" | "paragraph";
+
+export type MarkdownBlock = {
+  type: MarkdownBlockType;
+  start: number; // offsets into the original text, end exclusive
+  end: number;
+  level?: number; // headings: 1-6
+  title?: string; // headings: text without the #'s
+  items?: { start: number; end: number }[]; // lists: one range per item (continuation lines included)
+};
+
+const HEADING = /^(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/; // a closing # run needs a space before it, so "C#" keeps its #
+const FENCE = /^\s{0,3}(`{3,}|~{3,})/;
+const TABLE_ROW = /^\s*\|/;
+const LIST_ITEM = /^\s{0,3}([-*+]|\d+[.)])\s+/;
+const CONTINUATION = /^\s{2,}\S/;
+
+type Line = { text: string; start: number; end: number };
+
+function toLines(text: string): Line[] {
+  const lines: Line[] = [];
+  let start = 0;
+  for (const part of text.split("\n")) {
+    lines.push({ text: part.replace(/\r$/, ""), start, end: start + part.replace(/\r$/, "").length });
+    start += part.length + 1;
+  }
+  return lines;
+}
+
+const isBlank = (line: Line) => !line.text.trim();
+
+function startsBlock(line: Line) {
+  return HEADING.test(line.text) || FENCE.test(line.text) || TABLE_ROW.test(line.text) || LIST_ITEM.test(line.text);
+}
+
+export function parseMarkdown(text: string): MarkdownBlock[] {
+  const lines = toLines(text);
+  const blocks: MarkdownBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) {
+      i++;
+      continue;
+    }
+
+    const heading = line.text.match(HEADING);
+    if (heading) {
+      blocks.push({ type: "heading", start: line.start, end: line.end, level: heading[1].length, title: heading[2] });
+      i++;
+      continue;
+    }
+
+    const fence = line.text.match(FENCE);
+    if (fence) {
+      // Runs to the matching closing fence (or the end of the document if it's never closed)
+      const marker = fence[1];
+      let j = i + 1;
+      while (j < lines.length && !lines[j].text.trim().startsWith(marker)) j++;
+      const last = lines[Math.min(j, lines.length - 1)];
+      blocks.push({ type: "code", start: line.start, end: last.end });
+      i = j + 1;
+      continue;
+    }
+
+    if (TABLE_ROW.test(line.text)) {
+      let j = i;
+      while (j + 1 < lines.length && TABLE_ROW.test(lines[j + 1].text)) j++;
+      blocks.push({ type: "table", start: line.start, end: lines[j].end });
+      i = j + 1;
+      continue;
+    }
+
+    if (LIST_ITEM.test(line.text)) {
+      const items: { start: number; end: number }[] = [];
+      let j = i;
+      while (j < lines.length && !isBlank(lines[j])) {
+        if (LIST_ITEM.test(lines[j].text)) items.push({ start: lines[j].start, end: lines[j].end });
+        else if (CONTINUATION.test(lines[j].text) || !startsBlock(lines[j])) items[items.length - 1].end = lines[j].end;
+        else break;
+        j++;
+      }
+      blocks.push({ type: "list", start: line.start, end: items[items.length - 1].end, items });
+      i = j;
+      continue;
+    }
+
+    let j = i;
+    while (j + 1 < lines.length && !isBlank(lines[j + 1]) && !startsBlock(lines[j + 1])) j++;
+    blocks.push({ type: "paragraph", start: line.start, end: lines[j].end });
+    i = j + 1;
+  }
+
+  return blocks;
+}
+
+// "Getting Started with RAG > Why Chunking Matters" for every block (headings included)
+export function headingBreadcrumbs(blocks: MarkdownBlock[]): string[] {
+  const stack: string[] = [];
+  return blocks.map((block) => {
+    if (block.type === "heading") {
+      stack.length = Math.min(stack.length, block.level! - 1);
+      stack.push(block.title!);
+    }
+    return stack.join(" > ");
+  });
+}
@@ -0,0 +1,396 @@
+// day07_chunking/pdf.ts
+// Text-layer PDF extraction in pure TypeScript (zlib from Node is the only helper).
+//
+// Handles what most generated PDFs (LaTeX, Word/Docs exports, browsers) contain:
+// - objects at the top level and inside compressed object streams (/Type /ObjStm)
+// - FlateDecode content streams, page order from the /Pages tree
+// - Tj / TJ / ' / " text operators, line breaks from Td / TD / T* / Tm moves
+// - hex strings mapped through the font's /ToUnicode CMap
+// Not handled: scanned pages (no text layer — needs OCR), encryption, LZW and other filters.
+
+import * as zlib from "zlib";
+
+type PdfObject = { dict: string; stream?: Buffer };
+
+const latin1 = (buf: Buffer) => buf.toString("latin1");
+
+// --------------------------
+// Objects
+// --------------------------
+
+function readObjects(buf: Buffer): Map<number, PdfObject> {
+  const raw = latin1(buf);
+  const objects = new Map<number, PdfObject>();
+  const header = /(\d+)\s+\d+\s+obj\b/g;
+
+  for (let m = header.exec(raw); m; m = header.exec(raw)) {
+    const bodyStart = m.index + m[0].length;
+    const end = raw.indexOf("endobj", bodyStart);
+    if (end === -1) break;
+    let body = raw.slice(bodyStart, end);
+
+    let stream: Buffer | undefined;
+    const streamAt = body.search(/\bstream\r?\n/);
+    if (streamAt !== -1) {
+      const dataStart = bodyStart + streamAt + body.slice(streamAt).match(/^stream\r?\n/)![0].length;
+      const length = Number(body.slice(0, streamAt).match(/\/Length\s+(\d+)\b(?!\s+\d+\s+R)/)?.[1]);
+      const dataEnd = Number.isFinite(length) && length > 0 ? dataStart + length : raw.lastIndexOf("endstream", end);
+      stream = buf.subarray(dataStart, dataEnd);
+      body = body.slice(0, streamAt);
+    }
+    objects.set(Number(m[1]), { dict: body.trim(), stream });
+    header.lastIndex = end;
+  }
+
+  // PDF 1.5+: most small objects live inside compressed object streams
+  for (const obj of [...objects.values()]) {
+    if (!/\/Type\s*\/ObjStm\b/.test(obj.dict) || !obj.stream) continue;
+    const data = decodeStream(obj);
+    if (!data) continue;
+    const text = latin1(data);
+    const n = Number(dictValue(obj.dict, "N"));
+    const first = Number(dictValue(obj.dict, "First"));
+    const nums = text.slice(0, first).trim().split(/\s+/).map(Number);
+    for (let i = 0; i < n; i++) {
+      const num = nums[2 * i];
+      const start = first + nums[2 * i + 1];
+      const end = i + 1 < n ? first + nums[2 * i + 3] : text.length;
+      if (!objects.has(num)) objects.set(num, { dict: text.slice(start, end).trim() });
+    }
+  }
+
+  return objects;
+}
+
+function decodeStream(obj: PdfObject): Buffer | null {
+  if (!obj.stream) return null;
+  const filter = dictValue(obj.dict, "Filter") ?? "";
+  if (!filter) return obj.stream;
+  if (!/^\[?\s*\/FlateDecode\s*\]?$/.test(filter)) return null; // other filters: not supported
+  try {
+    return zlib.inflateSync(obj.stream);
+  } catch {
+    // Some writers add trailing garbage after the zlib data
+    try {
+      return zlib.inflateSync(obj.stream, { finishFlush: zlib.constants.Z_SYNC_FLUSH });
+    } catch {
+      return null;
+    }
+  }
+}
+
+// Value of `/Key` in a dictionary: a reference, name, number, array or nested dictionary (as source text)
+function dictValue(dict: string, key: string): string | undefined {
+  const re = new RegExp(`/${key}(?![A-Za-z0-9])\\s*`, "g");
+  const m = re.exec(dict);
+  if (!m) return undefined;
+  const rest = dict.slice(m.index + m[0].length);
+
+  const ref = rest.match(/^(\d+\s+\d+\s+R)/);
+  if (ref) return ref[1];
+  for (const [open, close] of [["<<", ">>"], ["[", "]"]]) {
+    if (!rest.startsWith(open)) continue;
+    let depth = 0;
+    for (let i = 0; i < rest.length; i++) {
+      if (rest.startsWith(open, i)) (depth++, (i += open.length - 1));
+      else if (rest.startsWith(close, i)) {
+        depth--;
+        i += close.length - 1;
+        if (depth === 0) return rest.slice(0, i + 1);
+      }
+    }
+    return rest;
+  }
+  return rest.match(/^(\/[^\s/<>\[\]()]+|[-+\d.]+|true|false)/)?.[1];
+}
+
+const refNumber = (value: string | undefined) => Number(value?.match(/^(\d+)\s+\d+\s+R$/)?.[1] ?? NaN);
+
+function refNumbers(value: string | undefined): number[] {
+  return [...(value ?? "").matchAll(/(\d+)\s+\d+\s+R/g)].map((m) => Number(m[1]));
+}
+
+// A value that may be an indirect reference to a dictionary
+function resolveDict(objects: Map<number, PdfObject>, value: string | undefined): string | undefined {
+  const num = refNumber(value);
+  return Number.isNaN(num) ? value : objects.get(num)?.dict;
+}
+
+// Streams of a page's /Contents: one reference, an array of references, or a reference to such an array
+function contentObjects(objects: Map<number, PdfObject>, value: string | undefined): PdfObject[] {
+  return refNumbers(value).flatMap((num) => {
+    const obj = objects.get(num);
+    if (!obj) return [];
+    if (!obj.stream && obj.dict.startsWith("[")) return refNumbers(obj.dict).flatMap((n) => objects.get(n) ?? []);
+    return [obj];
+  });
+}
+
+// --------------------------
+// Pages + fonts
+// --------------------------
+
+// Page objects in reading order (from the /Pages tree; object order as a fallback)
+function pageObjects(objects: Map<number, PdfObject>): { dict: string; resources?: string }[] {
+  const catalog = [...objects.values()].find((o) => /\/Type\s*\/Catalog\b/.test(o.dict));
+  const pages: { dict: string; resources?: string }[] = [];
+  const visit = (num: number, inherited: string | undefined, seen: Set<number>) => {
+    const obj = objects.get(num);
+    if (!obj || seen.has(num)) return;
+    seen.add(num);
+    const resources = resolveDict(objects, dictValue(obj.dict, "Resources")) ?? inherited;
+    if (/\/Type\s*\/Pages\b/.test(obj.dict)) {
+      for (const kid of refNumbers(dictValue(obj.dict, "Kids"))) visit(kid, resources, seen);
+    } else if (/\/Type\s*\/Page\b/.test(obj.dict)) {
+      pages.push({ dict: obj.dict, resources });
+    }
+  };
+  if (catalog) visit(refNumber(dictValue(catalog.dict, "Pages")), undefined, new Set());
+  if (pages.length) return pages;
+
+  return [...objects.values()]
+    .filter((o) => /\/Type\s*\/Page\b/.test(o.dict))
+    .map((o) => ({ dict: o.dict, resources: resolveDict(objects, dictValue(o.dict, "Resources")) }));
+}
+
+type CMap = { map: Map<number, string>; bytes: number };
+
+function parseToUnicode(data: string): CMap {
+  const map = new Map<number, string>();
+  let bytes = 1;
+  const hexToText = (hex: string) => {
+    let s = "";
+    for (let i = 0; i + 4 <= hex.length; i += 4) s += String.fromCharCode(parseInt(hex.slice(i, i + 4), 16));
+    return s;
+  };
+  const range = data.match(/begincodespacerange\s*<([0-9A-Fa-f]+)>/);
+  if (range) bytes = range[1].length / 2;
+
+  for (const block of data.matchAll(/beginbfchar([\s\S]*?)endbfchar/g)) {
+    for (const m of block[1].matchAll(/<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]+)>/g)) map.set(parseInt(m[1], 16), hexToText(m[2]));
+  }
+  for (const block of data.matchAll(/beginbfrange([\s\S]*?)endbfrange/g)) {
+    for (const m of block[1].matchAll(/<([0-9A-Fa-f]+)>\s*<([0-9A-Fa-f]+)>\s*(<[0-9A-Fa-f]+>|\[[^\]]*\])/g)) {
+      const lo = parseInt(m[1], 16);
+      const hi = parseInt(m[2], 16);
+      if (m[3].startsWith("[")) {
+        [...m[3].matchAll(/<([0-9A-Fa-f]+)>/g)].forEach((d, i) => map.set(lo + i, hexToText(d[1])));
+      } else {
+        const base = parseInt(m[3].slice(1, -1), 16);
+        for (let c = lo; c <= hi && c - lo < 65536; c++) map.set(c, String.fromCharCode(base + (c - lo)));
+      }
+    }
+  }
+  return { map, bytes };
+}
+
+function fontCMaps(objects: Map<number, PdfObject>, resources: string | undefined): Map<string, CMap> {
+  const out = new Map<string, CMap>();
+  const fonts = resolveDict(objects, resources ? dictValue(resources, "Font") : undefined);
+  if (!fonts) return out;
+  for (const m of fonts.matchAll(/\/([^\s/<>\[\]()]+)\s+(\d+)\s+\d+\s+R/g)) {
+    const font = objects.get(Number(m[2]));
+    const cmapObj = font && objects.get(refNumber(dictValue(font.dict, "ToUnicode")));
+    const data = cmapObj && decodeStream(cmapObj);
+    if (data) out.set(m[1], parseToUnicode(latin1(data)));
+  }
+  return out;
+}
+
+// --------------------------
+// Content streams
+// --------------------------
+
+type Token = { kind: "str" | "hex" | "num" | "name" | "op" | "open" | "close" | "array"; value: string; items?: Token[] };
+
+function* tokenize(src: string): Generator<Token> {
+  let i = 0;
+  while (i < src.length) {
+    const c = src[i];
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === "%") {
+      while (i < src.length && src[i] !== "\n" && src[i] !== "\r") i++;
+    } else if (c === "(") {
+      // Literal string: balanced parentheses, backslash escapes
+      let depth = 1;
+      let out = "";
+      i++;
+      while (i < src.length && depth > 0) {
+        const ch = src[i++];
+        if (ch === "\\") {
+          const next = src[i++];
+          const escapes: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" };
+          if (next in escapes) out += escapes[next];
+          else if (/[0-7]/.test(next)) {
+            let oct = next;
+            while (oct.length < 3 && /[0-7]/.test(src[i])) oct += src[i++];
+            out += String.fromCharCode(parseInt(oct, 8));
+          } else if (next === "\r" || next === "\n") {
+            if (next === "\r" && src[i] === "\n") i++;
+          } else out += next;
+        } else if (ch === "(") {
+          depth++;
+          out += ch;
+        } else if (ch === ")") {
+          if (--depth > 0) out += ch;
+        } else out += ch;
+      }
+      yield { kind: "str", value: out };
+    } else if (c === "<" && src[i + 1] === "<") {
+      yield { kind: "op", value: "<<" };
+      i += 2;
+    } else if (c === ">" && src[i + 1] === ">") {
+      yield { kind: "op", value: ">>" };
+      i += 2;
+    } else if (c === "<") {
+      const end = src.indexOf(">", i);
+      yield { kind: "hex", value: src.slice(i + 1, end === -1 ? src.length : end).replace(/\s+/g, "") };
+      i = end === -1 ? src.length : end + 1;
+    } else if (c === "[") {
+      yield { kind: "open", value: c };
+      i++;
+    } else if (c === "]") {
+      yield { kind: "close", value: c };
+      i++;
+    } else if (c === "/") {
+      const m = src.slice(i).match(/^\/[^\s/<>\[\]()%{}]*/)!;
+      yield { kind: "name", value: m[0].slice(1) };
+      i += m[0].length;
+    } else {
+      const m = src.slice(i).match(/^[^\s/<>\[\]()%{}]+/);
+      if (!m) {
+        i++;
+        continue;
+      }
+      yield { kind: /^[-+]?(\d+\.?\d*|\.\d+)$/.test(m[0]) ? "num" : "op", value: m[0] };
+      i += m[0].length;
+    }
+  }
+}
+
+function decodeText(token: Token, cmap: CMap | undefined): string {
+  if (token.kind === "str") {
+    if (!cmap) return token.value;
+    let s = "";
+    for (let i = 0; i + cmap.bytes <= token.value.length; i += cmap.bytes) {
+      let code = 0;
+      for (let b = 0; b < cmap.bytes; b++) code = (code << 8) | token.value.charCodeAt(i + b);
+      s += cmap.map.get(code) ?? "";
+    }
+    return s;
+  }
+  const hex = token.value.length % 2 ? token.value + "0" : token.value;
+  const bytes = cmap?.bytes ?? 1;
+  let s = "";
+  for (let i = 0; i + bytes * 2 <= hex.length; i += bytes * 2) {
+    const code = parseInt(hex.slice(i, i + bytes * 2), 16);
+    s += cmap ? cmap.map.get(code) ?? "" : String.fromCharCode(code);
+  }
+  return s;
+}
+
+function contentText(src: string, cmaps: Map<string, CMap>): string {
+  let out = "";
+  let operands: Token[] = [];
+  let array: Token[] | null = null;
+  let cmap: CMap | undefined;
+  let lastY: number | null = null;
+
+  const newline = () => {
+    if (out && !out.endsWith("\n")) out += "\n";
+  };
+
+  for (const token of tokenize(src)) {
+    if (token.kind === "open") {
+      array = [];
+      continue;
+    }
+    if (token.kind === "close") {
+      operands.push({ kind: "array", value: "", items: array ?? [] });
+      array = null;
+      continue;
+    }
+    if (array) {
+      array.push(token);
+      continue;
+    }
+    if (token.kind !== "op") {
+      operands.push(token);
+      continue;
+    }
+
+    const num = (i: number) => Number(operands[operands.length - i]?.value ?? 0);
+    switch (token.value) {
+      case "Tf":
+        cmap = cmaps.get(operands[operands.length - 2]?.value ?? "");
+        break;
+      case "Tj":
+        out += decodeText(operands[operands.length - 1], cmap);
+        break;
+      case "'":
+      case '"':
+        newline();
+        out += decodeText(operands[operands.length - 1], cmap);
+        break;
+      case "TJ": {
+        const items = operands[operands.length - 1]?.items ?? [];
+        for (const item of items) {
+          // Large negative kerning between glyphs is how many writers encode a word space
+          if (item.kind === "num") {
+            if (Number(item.value) < -200 && !out.endsWith(" ")) out += " ";
+          } else out += decodeText(item, cmap);
+        }
+        break;
+      }
+      case "Td":
+      case "TD":
+        if (num(1) !== 0) newline();
+        else if (num(2) > 0 && !out.endsWith(" ")) out += " ";
+        break;
+      case "Tm":
+        if (lastY !== null && num(1) !== lastY) newline();
+        lastY = num(1);
+        break;
+      case "T*":
+        newline();
+        break;
+      case "ET":
+        lastY = null;
+        break;
+    }
+    operands = [];
+  }
+  return out;
+}
+
+// --------------------------
+// Public API
+// --------------------------
+
+export type PdfText = { pages: string[]; info: Record<string, string> };
+
+export function extractPdfText(buf: Buffer): PdfText {
+  if (!latin1(buf.subarray(0, 1024)).includes("%PDF-")) throw new Error("Not a PDF file (missing %PDF- header)");
+  const objects = readObjects(buf);
+  if ([...objects.values()].some((o) => /\/Encrypt\b/.test(o.dict))) throw new Error("Encrypted PDFs are not supported");
+
+  const pages = pageObjects(objects).map(({ dict, resources }) => {
+    const cmaps = fontCMaps(objects, resources);
+    const streams = contentObjects(objects, dictValue(dict, "Contents"))
+      .map(decodeStream)
+      .filter((b): b is Buffer => b !== null);
+    const text = contentText(streams.map(latin1).join("\n"), cmaps);
+    return text.replace(/[ \t]+\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+  });
+
+  // Document info (/Title, /Author, ...) when stored as plain literal strings
+  const info: Record<string, string> = {};
+  const infoObj = [...objects.values()].find((o) => /\/Producer|\/Title|\/Author/.test(o.dict) && !o.stream);
+  for (const key of ["Title", "Author", "Subject"]) {
+    const m = infoObj?.dict.match(new RegExp(`/${key}\\s*\\(([^)]*)\\)`));
+    if (m) info[key.toLowerCase()] = m[1];
+  }
+
+  return { pages, info };
+}
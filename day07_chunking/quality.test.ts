@@ -0,0 +1,65 @@
+// day07_chunking/quality.test.ts
+// Run: npm test
+
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { chunkText, type Chunk } from "./chunkers.js";
+import { chunkQualityReport, cutsSentence, findDuplicates, overlapRatio, sizeStats } from "./quality.js";
+
+// Fixture: three sentences on two lines, 60 characters
+const SOURCE = "Alpha one is here. Beta two is here.\nGamma three is here.";
+
+function chunk(id: string, startIndex: number, endIndex: number, source = SOURCE): Chunk {
+  const text = source.slice(startIndex, endIndex);
+  return { text, meta: { id, source: "fixture.txt", index: 0, startIndex, endIndex, strategy: "characters", tokenCount: text.split(" ").length } };
+}
+
+test("sizeStats: nearest-rank percentiles", () => {
+  assert.deepEqual(sizeStats([10, 20, 30, 40]), { min: 10, p10: 10, median: 20, mean: 25, p90: 40, max: 40, stdev: 11.2 });
+  assert.deepEqual(sizeStats([]), { min: 0, p10: 0, median: 0, mean: 0, p90: 0, max: 0, stdev: 0 });
+});
+
+test("overlapRatio: stored characters over covered characters", () => {
+  assert.equal(overlapRatio([chunk("a", 0, 36), chunk("b", 37, 57)]), 0);
+  // 0-30 and 20-50: 60 stored, 50 covered
+  assert.equal(overlapRatio([chunk("a", 0, 30), chunk("b", 20, 50)]), 0.2);
+});
+
+test("cutsSentence: sentence ends, line breaks and text edges are clean", () => {
+  assert.equal(cutsSentence(chunk("a", 0, 18), SOURCE), false); // "Alpha one is here."
+  assert.equal(cutsSentence(chunk("b", 19, 36), SOURCE), false); // "Beta two is here." (ends at the line break)
+  assert.equal(cutsSentence(chunk("c", 37, 57), SOURCE), false); // last line, end of text
+  assert.equal(cutsSentence(chunk("d", 0, 10), SOURCE), true); // ends mid-sentence
+  assert.equal(cutsSentence(chunk("e", 6, 18), SOURCE), true); // starts mid-sentence
+});
+
+test("findDuplicates: exact groups ignore case/whitespace, near pairs use shingles", () => {
+  const source = "the quick brown fox jumps over the lazy dog|The quick  brown fox jumps over the lazy dog|the quick brown fox jumps over the lazy cat";
+  const [a, b, c] = source.split("|");
+  const chunks = [chunk("a", 0, a.length, source), chunk("b", a.length + 1, a.length + 1 + b.length, source), chunk("c", source.length - c.length, source.length, source)];
+  const dups = findDuplicates(chunks, 0.7);
+  assert.deepEqual(dups.exact, [["a", "b"]]);
+  assert.deepEqual(dups.near, [{ a: "a", b: "c", similarity: 0.75 }]);
+});
+
+test("report: the sentences strategy never cuts a sentence, characters does", async () => {
+  const text = "One short sentence here. Another one follows it.\nA third line ends the text. And a fourth.";
+  const sources = new Map([["fixture.txt", text]]);
+  const opts = { chunkSize: 50, overlap: 10, source: "fixture.txt" };
+
+  const sentences = chunkQualityReport(await chunkText(text, { ...opts, strategy: "sentences" }), sources, { minChars: 10 });
+  assert.equal(sentences.cutSentences.count, 0);
+  assert.equal(sentences.overlapRatio, 0);
+  assert.equal(sentences.orphans.count, 0);
+
+  const charChunks = await chunkText(text, { ...opts, strategy: "characters" });
+  const characters = chunkQualityReport(charChunks, sources, { minChars: 10 });
+  assert.ok(characters.cutSentences.count > 0);
+  assert.ok(characters.overlapRatio > 0);
+  assert.equal(characters.embeddingCost.model, "text-embedding-3-small");
+  assert.equal(characters.embeddingCost.tokens, charChunks.reduce((sum, c) => sum + c.meta.tokenCount, 0));
+});
+
+test("report: unknown source text is an error, not a silent pass", () => {
+  assert.throws(() => chunkQualityReport([chunk("a", 0, 10)], new Map()), /No source text/);
+});
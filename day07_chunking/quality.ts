@@ -0,0 +1,164 @@
+// day07_chunking/quality.ts
+// Chunk quality metrics (the CLI is report.ts).
+//
+// Everything is computed from the chunks plus the text they were cut from, so any strategy can be
+// scored the same way:
+// - size distribution, in characters and tokens
+// - overlap ratio: how much text is stored more than once (0 = no overlap, 0.1 = 10% extra)
+// - orphans: chunks shorter than `minChars`, usually a heading or a tail with no context of its own
+// - cut sentences: chunks that start or end in the middle of a sentence
+// - duplicates: identical chunks (after whitespace/case normalisation) and near-duplicates
+//   (Jaccard similarity of word shingles >= `nearDuplicateThreshold`)
+// - embedding cost of the whole set, priced with the Day 5 pricing table
+//
+// Numbers are rounded so the JSON report diffs cleanly between runs.
+
+import { getCostCalculator } from "../day05_inferencing/pricing.js";
+import type { Chunk } from "./chunkers.js";
+
+export interface QualityOptions {
+  minChars?: number;               // orphan threshold, default 100
+  nearDuplicateThreshold?: number; // Jaccard similarity of 3-word shingles, default 0.8
+  embeddingModel?: string;         // priced via day05_inferencing/pricing.json, default text-embedding-3-small
+}
+
+export type SizeStats = { min: number; p10: number; median: number; mean: number; p90: number; max: number; stdev: number };
+
+export interface QualityReport {
+  chunks: number;
+  chars: SizeStats;
+  tokens: SizeStats;
+  overlapRatio: number;
+  orphans: { count: number; ratio: number; ids: string[] };
+  cutSentences: { count: number; ratio: number; ids: string[] };
+  duplicates: { exact: string[][]; near: { a: string; b: string; similarity: number }[] };
+  embeddingCost: { model: string; tokens: number; usd: number };
+}
+
+const round = (n: number, digits = 3) => Number(n.toFixed(digits));
+
+// Nearest-rank percentile of sorted values
+function rank(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+}
+
+export function sizeStats(values: number[]): SizeStats {
+  if (!values.length) return { min: 0, p10: 0, median: 0, mean: 0, p90: 0, max: 0, stdev: 0 };
+  const sorted = [...values].sort((a, b) => a - b);
+  const mean = values.reduce((s, v) => s + v, 0) / values.length;
+  const variance = values.reduce((s, v) => s + (v - mean) ** 2, 0) / values.length;
+  return {
+    min: sorted[0],
+    p10: rank(sorted, 10),
+    median: rank(sorted, 50),
+    mean: round(mean, 1),
+    p90: rank(sorted, 90),
+    max: sorted[sorted.length - 1],
+    stdev: round(Math.sqrt(variance), 1),
+  };
+}
+
+// Characters stored in chunks / characters of the source they cover, minus one
+export function overlapRatio(chunks: Chunk[]): number {
+  let stored = 0;
+  let covered = 0;
+  const bySource = new Map<string, Chunk[]>();
+  for (const chunk of chunks) bySource.set(chunk.meta.source, [...(bySource.get(chunk.meta.source) ?? []), chunk]);
+
+  for (const group of bySource.values()) {
+    const ranges = group.map((c) => [c.meta.startIndex, c.meta.endIndex]).sort((a, b) => a[0] - b[0]);
+    let end = -1;
+    for (const [s, e] of ranges) {
+      stored += e - s;
+      if (e <= end) continue;
+      covered += e - Math.max(s, end);
+      end = e;
+    }
+  }
+  return covered ? round(stored / covered - 1) : 0;
+}
+
+const SENTENCE_END = /[.!?…:;]["'”’)\]]*$/;
+
+// A boundary is clean at the start/end of the text, at a line break, or right after sentence punctuation
+function cleanStart(text: string, start: number): boolean {
+  const before = text.slice(0, start);
+  return !before.trim() || /\n[ \t]*$/.test(before) || SENTENCE_END.test(before.trimEnd());
+}
+
+function cleanEnd(text: string, end: number): boolean {
+  const after = text.slice(end);
+  return !after.trim() || /^[ \t]*\r?\n/.test(after) || SENTENCE_END.test(text.slice(0, end).trimEnd());
+}
+
+export function cutsSentence(chunk: Chunk, sourceText: string): boolean {
+  return !cleanStart(sourceText, chunk.meta.startIndex) || !cleanEnd(sourceText, chunk.meta.endIndex);
+}
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, " ").trim();
+
+function shingles(text: string, size = 3): Set<string> {
+  const words = normalize(text).split(" ").filter(Boolean);
+  const out = new Set<string>();
+  for (let i = 0; i + size <= words.length; i++) out.add(words.slice(i, i + size).join(" "));
+  if (!out.size && words.length) out.add(words.join(" "));
+  return out;
+}
+
+export function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const s of a) if (b.has(s)) shared++;
+  const union = a.size + b.size - shared;
+  return union ? shared / union : 0;
+}
+
+// Exact groups first; near-duplicate pairs skip chunks already reported as exact copies.
+// Pairwise, so O(n²) — fine for a report over one corpus, not for millions of chunks.
+export function findDuplicates(chunks: Chunk[], threshold: number): QualityReport["duplicates"] {
+  const groups = new Map<string, string[]>();
+  for (const chunk of chunks) {
+    const key = normalize(chunk.text);
+    groups.set(key, [...(groups.get(key) ?? []), chunk.meta.id]);
+  }
+  const exact = [...groups.values()].filter((ids) => ids.length > 1);
+
+  const firsts = new Set([...groups.values()].map((ids) => ids[0]));
+  const candidates = chunks.filter((c) => firsts.has(c.meta.id)).map((c) => ({ id: c.meta.id, shingles: shingles(c.text) }));
+  const near: { a: string; b: string; similarity: number }[] = [];
+  for (let i = 0; i < candidates.length; i++) {
+    for (let j = i + 1; j < candidates.length; j++) {
+      const similarity = jaccard(candidates[i].shingles, candidates[j].shingles);
+      if (similarity >= threshold) near.push({ a: candidates[i].id, b: candidates[j].id, similarity: round(similarity) });
+    }
+  }
+  return { exact, near };
+}
+
+// `sources` maps chunk.meta.source to the full text the offsets point into
+export function chunkQualityReport(chunks: Chunk[], sources: Map<string, string>, options: QualityOptions = {}): QualityReport {
+  const minChars = options.minChars ?? 100;
+  const model = options.embeddingModel ?? "text-embedding-3-small";
+
+  const orphans = chunks.filter((c) => c.text.trim().length < minChars).map((c) => c.meta.id);
+  const cut = chunks
+    .filter((c) => {
+      const text = sources.get(c.meta.source);
+      if (text === undefined) throw new Error(`No source text for ${c.meta.source}`);
+      return cutsSentence(c, text);
+    })
+    .map((c) => c.meta.id);
+
+  const tokens = chunks.reduce((s, c) => s + c.meta.tokenCount, 0);
+  const cost = getCostCalculator().cost(model, { inputTokens: tokens }, true);
+
+  return {
+    chunks: chunks.length,
+    chars: sizeStats(chunks.map((c) => c.text.length)),
+    tokens: sizeStats(chunks.map((c) => c.meta.tokenCount)),
+    overlapRatio: overlapRatio(chunks),
+    orphans: { count: orphans.length, ratio: chunks.length ? round(orphans.length / chunks.length) : 0, ids: orphans },
+    cutSentences: { count: cut.length, ratio: chunks.length ? round(cut.length / chunks.length) : 0, ids: cut },
+    duplicates: findDuplicates(chunks, options.nearDuplicateThreshold ?? 0.8),
+    embeddingCost: { model: cost.model, tokens, usd: round(cost.totalUsd, 6) },
+  };
+}
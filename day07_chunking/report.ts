@@ -0,0 +1,113 @@
+// day07_chunking/report.ts
+// Chunk quality report: chunk the same documents with one or two strategies and compare them
+// (metrics in quality.ts). Prints a table and writes day07_chunk_report.json, which is stable
+// across runs: commit it next to a chunking change and the review shows what the change did.
+//
+//   npm run dev:day7:report                                   # characters vs recursive on corpus.txt
+//   npm run dev:day7:report -- recursive semantic --unit tokens
+//   npm run dev:day7:report -- markdown --dir ./docs --include "**/*.md"
+//
+// Other flags: --min-chars 100 (orphan threshold), --near 0.8 (near-duplicate Jaccard threshold),
+// --model text-embedding-3-small (pricing), --exclude <globs>, --out path.json
+
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { chunkDocument, type Chunk, type ChunkOptions, type ChunkStrategy, type LengthUnit } from "./chunkers.js";
+import { DEFAULT_EXCLUDE, loadDirectory, loadFile } from "./loaders.js";
+import { chunkQualityReport, type QualityReport } from "./quality.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+const STRATEGIES: ChunkStrategy[] = ["characters", "sentences", "recursive", "tokens", "markdown", "semantic"];
+
+function arg(name: string): string | undefined {
+  const i = process.argv.indexOf(`--${name}`);
+  return i !== -1 ? process.argv[i + 1] : undefined;
+}
+
+const globs = (value?: string) => value?.split(",").map((g) => g.trim()).filter(Boolean);
+
+// Rows of the console table: label + how to read the value out of a report
+const ROWS: [string, (r: QualityReport) => string][] = [
+  ["chunks", (r) => String(r.chunks)],
+  ["chars min / median / max", (r) => `${r.chars.min} / ${r.chars.median} / ${r.chars.max}`],
+  ["chars p10 / p90", (r) => `${r.chars.p10} / ${r.chars.p90}`],
+  ["chars mean ± stdev", (r) => `${r.chars.mean} ± ${r.chars.stdev}`],
+  ["tokens min / median / max", (r) => `${r.tokens.min} / ${r.tokens.median} / ${r.tokens.max}`],
+  ["overlap ratio", (r) => `${(r.overlapRatio * 100).toFixed(1)}%`],
+  ["orphans", (r) => `${r.orphans.count} (${(r.orphans.ratio * 100).toFixed(1)}%)`],
+  ["cut sentences", (r) => `${r.cutSentences.count} (${(r.cutSentences.ratio * 100).toFixed(1)}%)`],
+  ["exact duplicate groups", (r) => String(r.duplicates.exact.length)],
+  ["near-duplicate pairs", (r) => String(r.duplicates.near.length)],
+  ["embedding tokens", (r) => String(r.embeddingCost.tokens)],
+  ["embedding cost (USD)", (r) => `$${r.embeddingCost.usd.toFixed(6)}`],
+];
+
+function printTable(columns: string[], reports: QualityReport[]) {
+  const cells = ROWS.map(([label, value]) => [label, ...reports.map(value)]);
+  const widths = [0, ...columns.map((_, i) => i + 1)].map((col) =>
+    Math.max(...[["metric", ...columns], ...cells].map((row) => row[col].length))
+  );
+  const line = (row: string[]) => row.map((cell, i) => (i === 0 ? cell.padEnd(widths[i]) : cell.padStart(widths[i]))).join("  ");
+
+  console.log(line(["metric", ...columns]));
+  console.log(widths.map((w) => "-".repeat(w)).join("  "));
+  for (const row of cells) console.log(line(row));
+}
+
+async function main() {
+  const positional = process.argv.slice(2).filter((a, i, all) => !a.startsWith("--") && !all[i - 1]?.startsWith("--"));
+  const strategies = (positional.length ? positional : ["characters", "recursive"]) as ChunkStrategy[];
+  if (strategies.length > 2) throw new Error("Compare at most two strategies at a time");
+  for (const s of strategies) {
+    if (!STRATEGIES.includes(s)) throw new Error(`Unknown strategy "${s}" (expected ${STRATEGIES.join(" | ")})`);
+  }
+
+  const unit: LengthUnit = arg("unit") === "tokens" ? "tokens" : "characters";
+  const dir = arg("dir");
+  const docs = dir
+    ? loadDirectory(dir, { include: globs(arg("include")), exclude: [...DEFAULT_EXCLUDE, ...(globs(arg("exclude")) ?? [])] })
+    : loadFile(path.join(__dirname, "corpus.txt"), { source: "day07_chunking/corpus.txt" });
+  const sources = new Map(docs.map((d) => [d.source, d.text]));
+
+  const quality = {
+    minChars: Number(arg("min-chars") ?? 100),
+    nearDuplicateThreshold: Number(arg("near") ?? 0.8),
+    embeddingModel: arg("model") ?? "text-embedding-3-small",
+  };
+
+  const runs: { strategy: ChunkStrategy; options: Omit<ChunkOptions, "source">; report: QualityReport }[] = [];
+  for (const strategy of strategies) {
+    // Same settings as code.ts, so the report describes what Day 7 actually writes
+    const tokens = strategy === "tokens" || unit === "tokens";
+    const options: Omit<ChunkOptions, "source"> = {
+      strategy,
+      chunkSize: tokens ? 128 : 500,
+      overlap: tokens ? 16 : 50,
+      lengthUnit: tokens ? "tokens" : "characters",
+      maxTokens: 512,
+    };
+    const chunks: Chunk[] = [];
+    for (const doc of docs) chunks.push(...(await chunkDocument(doc, options)));
+    runs.push({ strategy, options, report: chunkQualityReport(chunks, sources, quality) });
+  }
+
+  console.log(`=== Chunk quality: ${docs.length} document(s), ${[...sources.values()].reduce((s, t) => s + t.length, 0)} chars ===\n`);
+  printTable(
+    runs.map((r) => r.strategy),
+    runs.map((r) => r.report)
+  );
+
+  // No timestamps: the file should only change when the chunks do
+  const outPath = arg("out") ?? path.join(__dirname, "day07_chunk_report.json");
+  const output = { documents: docs.map((d) => d.source), quality, runs };
+  fs.writeFileSync(outPath, JSON.stringify(output, null, 2) + "\n", "utf-8");
+  console.log(`\nWrote report to ${outPath}`);
+}
+
+main().catch((err) => {
+  console.error("Chunk quality report failed:", err);
+  process.exit(1);
+});
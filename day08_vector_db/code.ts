@@ -1,5 +1,5 @@
 // day08_vector_db/code.ts
-// Vanilla local JSON "vector store" using OpenAI embeddings and cosine similarity.
+// Vanilla local JSON "vector store" using an Embedder (OpenAI or offline) and cosine similarity.
 // Input: ../day07_chunking/day07_chunks.json
 // Output: day08_local_vector_store.json
 // Run: npx tsx day08_vector_db/code.ts
@@ -7,75 +7,28 @@
 import "dotenv/config";
 import * as fs from "fs";
 import * as path from "path";
+import { fileURLToPath } from "url";
+import { CachedEmbedder } from "../day06_embeddings/embedding_cache.js";
+import { embedderFromEnv, fitIfNeeded } from "../day06_embeddings/embedders.js";
+import type { Chunk } from "../day07_chunking/chunkers.js";
+import { buildStore, toRecord, type LocalVectorRecord } from "../day09_ingestion_pipeline/vector_store.js";
+import { cosineSimilarity } from "../day10_similarity_search/vector_math.js";
 
-interface Day7ChunkMeta {
-  id: string;
-  index: number;
-  startIndex: number;
-  endIndex: number;
-  strategy: string;
-}
-
-interface Day7Chunk {
-  meta: Day7ChunkMeta;
-  text: string;
-}
-
-interface LocalVectorRecord {
-  id: string;
-  text: string;
-  metadata: Day7ChunkMeta;
-  embedding: number[];
-}
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
 
 interface Day7File {
   strategy: string;
   chunkSize: number;
   overlap: number;
   totalChunks: number;
-  chunks: Day7Chunk[];
-}
-
-// Simple cosine similarity for embeddings
-function cosineSimilarity(a: number[], b: number[]): number {
-  const dot = a.reduce((sum, ai, i) => sum + ai * (b[i] ?? 0), 0);
-  const magA = Math.sqrt(a.reduce((sum, ai) => sum + ai * ai, 0));
-  const magB = Math.sqrt(b.reduce((sum, bi) => sum + bi * bi, 0));
-  if (!magA || !magB) return 0;
-  return dot / (magA * magB);
+  chunks: Chunk[];
 }
 
-// Call OpenAI embeddings API directly using fetch
-async function embedText(text: string): Promise<number[]> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error("OPENAI_API_KEY is not set in environment");
-  }
-
-  const response = await fetch("https://api.openai.com/v1/embeddings", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: "text-embedding-3-small",
-      input: text,
-    }),
-  });
-
-  if (!response.ok) {
-    const errText = await response.text();
-    throw new Error(`OpenAI embeddings API error: ${response.status} - ${errText}`);
-  }
-
-  const data: any = await response.json();
-  const embedding = data.data?.[0]?.embedding;
-  if (!embedding || !Array.isArray(embedding)) {
-    throw new Error("Unexpected embeddings API response format");
-  }
-  return embedding;
-}
+// OpenAI by default; EMBEDDER=ngram|tfidf|tfidf-rp builds the store offline (see day06_embeddings/embedders.ts)
+// Vectors are cached on disk by (model, dims, text hash): re-runs over unchanged chunks make no API calls
+const baseEmbedder = embedderFromEnv();
+const embedder = new CachedEmbedder(baseEmbedder);
 
 async function main() {
   const inputPath = path.join(__dirname, "..", "day07_chunking", "day07_chunks.json");
@@ -90,45 +43,35 @@ async function main() {
 
   console.log(`Loaded ${parsed.totalChunks} chunks from Day 7 output.`);
 
+  // TF-IDF needs a vocabulary: fit it on the chunks we are about to index
+  fitIfNeeded(baseEmbedder, parsed.chunks.map((c) => c.text.trim()).filter(Boolean));
+  console.log(`Embedding model: ${embedder.model}`);
+
   const records: LocalVectorRecord[] = [];
   for (const chunk of parsed.chunks) {
     const text = chunk.text.trim();
-    if (!text) continue;
+    // Parent chunks (Day 7 --parents) are context for Day 9's small-to-big retrieval, not search targets
+    if (!text || chunk.meta.level === "parent") continue;
 
     console.log(`Embedding chunk ${chunk.meta.id}...`);
-    const embedding = await embedText(text);
-
-    records.push({
-      id: chunk.meta.id,
-      text,
-      metadata: chunk.meta,
-      embedding,
-    });
+    const [embedding] = await embedder.embedDocuments([text]);
+
+    // Each record remembers its model + dimension, so nobody compares it with another model's vectors
+    records.push(toRecord({ meta: chunk.meta, text }, embedding, embedder.model));
   }
 
   const storePath = path.join(__dirname, "day08_local_vector_store.json");
-  fs.writeFileSync(
-    storePath,
-    JSON.stringify(
-      {
-        totalRecords: records.length,
-        createdAt: new Date().toISOString(),
-        records,
-      },
-      null,
-      2
-    ),
-    "utf-8"
-  );
+  fs.writeFileSync(storePath, JSON.stringify(buildStore(records), null, 2), "utf-8");
 
   console.log(`Saved ${records.length} records to ${storePath}`);
+  console.log("Embedding cache:", embedder.stats);
 
   // Demo similarity search
   const query = "Why do we chunk documents before using RAG?";
   console.log("\nRunning a demo similarity search for query:");
   console.log(query);
 
-  const queryEmbedding = await embedText(query);
+  const queryEmbedding = await embedder.embedQuery(query);
 
   const scored = records.map((rec) => ({
     ...rec,
@@ -1,41 +1,34 @@
 import "dotenv/config";
 import * as fs from "fs";
 import * as path from "path";
-
-interface ChunkMeta {
-  id: string;
-  index: number;
-  startIndex: number;
-  endIndex: number;
-  strategy: string;
-}
-
-interface Chunk {
-  meta: ChunkMeta;
-  text: string;
-}
+import { fileURLToPath } from "url";
+import { CachedEmbedder } from "../day06_embeddings/embedding_cache.js";
+import { embedderFromEnv, fitIfNeeded, parseEmbedderKind } from "../day06_embeddings/embedders.js";
+import type { Chunk } from "../day07_chunking/chunkers.js";
+import {
+  VectorStoreMigration,
+  buildStore,
+  loadStore,
+  saveStoreAtomic,
+  storeEmbedding,
+  toRecord,
+  type LocalVectorRecord,
+  type LocalVectorStore,
+  type ParentRecord,
+} from "./vector_store.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
 
 interface Day7Output {
   totalChunks: number;
   chunks: Chunk[];
 }
 
-interface LocalVectorRecord {
-  id: string;
-  text: string;
-  metadata: ChunkMeta;
-  embedding: number[];
-}
-
-interface LocalVectorStore {
-  totalRecords: number;
-  createdAt: string;
-  updatedAt: string;
-  records: LocalVectorRecord[];
-}
-
 const DAY7_PATH = path.join(__dirname, "..", "day07_chunking", "day07_chunks.json");
 const STORE_PATH = path.join(__dirname, "day09_local_ingestion_store.json");
+const TFIDF_STATE_PATH = path.join(__dirname, "day09_tfidf_state.json");
+const NEXT_TFIDF_STATE_PATH = path.join(__dirname, "day09_tfidf_state.next.json"); // used by a pending migration
 const BATCH_SIZE = 8;
 
 // ---------- Utility: Cleaning & Normalization ----------
@@ -61,68 +54,57 @@ const day7Data: Day7Output = JSON.parse(day7Raw);
 console.log(`Loaded ${day7Data.totalChunks} chunks from Day 7.`);
 
 // Normalize and filter chunks
-const normalizedChunks: Chunk[] = day7Data.chunks
+const cleanedChunks: Chunk[] = day7Data.chunks
   .map((chunk) => ({
     ...chunk,
     text: cleanText(chunk.text),
   }))
   .filter((chunk) => chunk.text.length > 0);
 
-console.log(`After cleaning, ${normalizedChunks.length} chunks remain.`);
+// Two-level output (Day 7 --parents): children are embedded, parents are stored as plain context
+const normalizedChunks = cleanedChunks.filter((chunk) => chunk.meta.level !== "parent");
+const parents: ParentRecord[] = cleanedChunks
+  .filter((chunk) => chunk.meta.level === "parent")
+  .map((chunk) => ({ id: chunk.meta.id, text: chunk.text, metadata: chunk.meta }));
+
+console.log(`After cleaning, ${normalizedChunks.length} chunks remain${parents.length ? ` (+ ${parents.length} parents)` : ""}.`);
 
 // ---------- Load Existing Store (for Upserts) ----------
 
-let existingStore: LocalVectorStore | null = null;
+const existingStore: LocalVectorStore | null = loadStore(STORE_PATH);
 let existingById: Map<string, LocalVectorRecord> = new Map();
 
-if (fs.existsSync(STORE_PATH)) {
-  const raw = fs.readFileSync(STORE_PATH, "utf8");
-  existingStore = JSON.parse(raw) as LocalVectorStore;
+if (existingStore) {
   existingById = new Map(existingStore.records.map((r) => [r.id, r]));
   console.log(`Found existing store with ${existingStore.totalRecords} records.`);
 } else {
   console.log("No existing store found. A new one will be created.");
 }
 
-// ---------- OpenAI Embedding Helpers (Batch) ----------
-
-async function embedBatch(texts: string[]): Promise<number[][]> {
-  const apiKey = process.env.OPENAI_API_KEY;
-  if (!apiKey) {
-    throw new Error("Missing OPENAI_API_KEY in environment.");
-  }
-
-  const res = await fetch("https://api.openai.com/v1/embeddings", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: "text-embedding-3-small",
-      input: texts,
-    }),
-  });
-
-  if (!res.ok) {
-    const errText = await res.text();
-    throw new Error(`OpenAI embeddings API error: ${res.status} - ${errText}`);
-  }
-
-  const json: any = await res.json();
-  const data = json.data;
-  if (!Array.isArray(data)) {
-    throw new Error("Unexpected embeddings API response format.");
-  }
-
-  return data.map((item: any) => item.embedding);
-}
+// ---------- Embeddings ----------
+
+// OpenAI by default; EMBEDDER=ngram|tfidf|tfidf-rp ingests offline (see day06_embeddings/embedders.ts).
+// A fitted TF-IDF vocabulary is saved next to the store so later runs (and Day 10) embed into the same space.
+// Vectors are cached on disk by (model, dims, text hash), so a rebuilt store re-embeds nothing that didn't change.
+const baseEmbedder = embedderFromEnv({ tfidfStatePath: TFIDF_STATE_PATH });
+const embedder = new CachedEmbedder(baseEmbedder);
+
+// While a model migration is pending (npm run dev:day9:migrate), EMBEDDER_NEXT=<kind> dual-writes
+// new/changed chunks into the shadow store too; without it, the migration's catch-up pass handles them.
+const migration =
+  VectorStoreMigration.pending(STORE_PATH) && process.env.EMBEDDER_NEXT
+    ? new VectorStoreMigration(
+        STORE_PATH,
+        new CachedEmbedder(
+          embedderFromEnv({ kind: parseEmbedderKind(process.env.EMBEDDER_NEXT), tfidfStatePath: NEXT_TFIDF_STATE_PATH })
+        )
+      )
+    : null;
 
 // ---------- Ingestion with Batching & Upserts ----------
 
 async function ingest() {
   const newRecords: LocalVectorRecord[] = [];
-  const now = new Date().toISOString();
 
   // Determine which chunks need (re-)embedding
   const toEmbed: Chunk[] = [];
@@ -135,43 +117,58 @@ async function ingest() {
 
   console.log(`Chunks needing (re)embedding: ${toEmbed.length}.`);
 
+  fitIfNeeded(baseEmbedder, normalizedChunks.map((c) => c.text), TFIDF_STATE_PATH);
+  console.log(`Embedding model: ${embedder.model}`);
+
+  // Upserting vectors from a different model would silently mix two vector spaces
+  const stored = existingStore ? storeEmbedding(existingStore) : null;
+  if (stored && stored.model !== embedder.model) {
+    throw new Error(
+      `Store was embedded with ${stored.model}, current embedder is ${embedder.model}. ` +
+        `Migrate it (npm run dev:day9:migrate) or delete ${STORE_PATH} to rebuild.`
+    );
+  }
+  if (VectorStoreMigration.pending(STORE_PATH)) {
+    console.log(migration ? "Model migration pending: dual-writing to the shadow store." : "Model migration pending (set EMBEDDER_NEXT to dual-write).");
+  }
+
   // Embed in batches
   for (let i = 0; i < toEmbed.length; i += BATCH_SIZE) {
     const batch = toEmbed.slice(i, i + BATCH_SIZE);
     console.log(`Embedding batch ${i / BATCH_SIZE + 1} (size=${batch.length})...`);
 
-    const embeddings = await embedBatch(batch.map((c) => c.text));
+    const embeddings = await embedder.embedDocuments(batch.map((c) => c.text));
 
     batch.forEach((chunk, idx) => {
-      const embedding = embeddings[idx];
-      const record: LocalVectorRecord = {
-        id: chunk.meta.id,
-        text: chunk.text,
-        metadata: chunk.meta,
-        embedding,
-      };
+      const record = toRecord(chunk, embeddings[idx], embedder.model);
       newRecords.push(record);
       existingById.set(chunk.meta.id, record);
     });
+    await migration?.dualWrite(batch);
   }
 
+  // Chunk IDs are content-addressed (Day 7): an edited chunk comes back under a new ID,
+  // so records whose ID is no longer produced are stale and get dropped
+  const currentIds = new Set(normalizedChunks.map((c) => c.meta.id));
+  const staleIds = [...existingById.keys()].filter((id) => !currentIds.has(id));
+  staleIds.forEach((id) => existingById.delete(id));
+
   // Merge into final array
   const mergedRecords = Array.from(existingById.values());
 
-  const store: LocalVectorStore = {
-    totalRecords: mergedRecords.length,
-    createdAt: existingStore?.createdAt || now,
-    updatedAt: now,
-    records: mergedRecords,
-  };
-
-  fs.writeFileSync(STORE_PATH, JSON.stringify(store, null, 2), "utf8");
+  // Parents are cheap to rewrite (nothing to embed), so they are replaced wholesale on every run
+  const store = buildStore(mergedRecords, existingStore?.createdAt, parents);
+  saveStoreAtomic(STORE_PATH, store);
 
   console.log(`
 ✅ Ingestion complete.`);
   console.log(`- New/updated records: ${newRecords.length}`);
+  console.log(`- Removed stale records: ${staleIds.length}`);
   console.log(`- Total records in store: ${store.totalRecords}`);
+  if (parents.length) console.log(`- Parent chunks: ${parents.length}`);
   console.log(`- Store path: ${STORE_PATH}`);
+  console.log(`- Embedding cache: ${embedder.stats.hits} hits, ${embedder.stats.misses} misses`);
+  embedder.cache.compactIfNeeded();
 }
 
 ingest().catch((err) => {
@@ -0,0 +1,85 @@
+// day09_ingestion_pipeline/migrate_embeddings.ts
+// Move the Day 9 store to another embedding model without taking it offline.
+//
+//   npm run dev:day9:migrate -- --to tfidf            # re-embed into <store>.next.json (resumable)
+//   EMBEDDER_NEXT=tfidf npm run dev:day9:vanilla      # optional: ingestion dual-writes meanwhile
+//   npm run dev:day9:migrate -- --to tfidf --swap     # catch up, then swap shadow -> live
+//   npm run dev:day9:migrate -- --abort               # drop the shadow store
+//
+// Other flags: --batch 16, --store path.json
+// After a swap, run ingestion and queries with EMBEDDER=<new kind>.
+
+import "dotenv/config";
+import * as fs from "fs";
+import * as path from "path";
+import { fileURLToPath } from "url";
+import { CachedEmbedder } from "../day06_embeddings/embedding_cache.js";
+import { embedderFromEnv, fitIfNeeded, parseEmbedderKind } from "../day06_embeddings/embedders.js";
+import { VectorStoreMigration, loadStore, storeEmbedding } from "./vector_store.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+function arg(name: string): string | undefined {
+  const i = process.argv.indexOf(`--${name}`);
+  return i !== -1 ? process.argv[i + 1] : undefined;
+}
+
+const STORE_PATH = arg("store") ?? path.join(__dirname, "day09_local_ingestion_store.json");
+const TFIDF_STATE_PATH = path.join(__dirname, "day09_tfidf_state.json");
+const NEXT_TFIDF_STATE_PATH = path.join(__dirname, "day09_tfidf_state.next.json");
+const BATCH_SIZE = Number(arg("batch") ?? 16);
+
+function abort() {
+  VectorStoreMigration.abort(STORE_PATH);
+  if (fs.existsSync(NEXT_TFIDF_STATE_PATH)) fs.unlinkSync(NEXT_TFIDF_STATE_PATH);
+  console.log("Migration aborted, shadow store removed.");
+}
+
+async function main() {
+  if (process.argv.includes("--abort")) return abort();
+
+  const to = arg("to");
+  if (!to) throw new Error("Missing --to <openai|ngram|tfidf|tfidf-rp>");
+  const kind = parseEmbedderKind(to);
+
+  const live = loadStore(STORE_PATH);
+  if (!live) throw new Error(`Store not found: ${STORE_PATH}. Run Day 9 first.`);
+
+  // A TF-IDF target gets its own vocabulary, fitted on the live texts; the current one stays in use until the swap
+  const target = embedderFromEnv({ kind, tfidfStatePath: NEXT_TFIDF_STATE_PATH });
+  fitIfNeeded(target, live.records.map((r) => r.text), NEXT_TFIDF_STATE_PATH);
+
+  const from = storeEmbedding(live);
+  console.log(`=== Migrating ${live.totalRecords} records: ${from?.model ?? "(empty)"} -> ${target.model} ===`);
+  if (from?.model === target.model) {
+    console.log("Store already uses this model, nothing to do.");
+    return;
+  }
+
+  const migration = new VectorStoreMigration(STORE_PATH, new CachedEmbedder(target), BATCH_SIZE);
+
+  if (!process.argv.includes("--swap")) {
+    const { embedded, reused } = await migration.run((p) => {
+      console.log(`Batch ${p.batch}: ${p.done}/${p.total} re-embedded`);
+    });
+    console.log(`\n✅ Shadow store ready: ${embedded} re-embedded, ${reused} already done.`);
+    console.log(`- Shadow: ${migration.shadowPath}`);
+    console.log(`- Swap when ready: npm run dev:day9:migrate -- --to ${kind} --swap`);
+    return;
+  }
+
+  const next = await migration.swap();
+  if (fs.existsSync(NEXT_TFIDF_STATE_PATH)) {
+    if (fs.existsSync(TFIDF_STATE_PATH)) fs.copyFileSync(TFIDF_STATE_PATH, TFIDF_STATE_PATH.replace(/\.json$/, ".prev.json"));
+    fs.renameSync(NEXT_TFIDF_STATE_PATH, TFIDF_STATE_PATH);
+  }
+  console.log(`\n✅ Swapped: store now uses ${next.embeddingModel} (${next.embeddingDimensions}d), ${next.totalRecords} records.`);
+  console.log(`- Previous store kept at ${migration.backupPath}`);
+  console.log(`- From now on run ingestion and queries with EMBEDDER=${kind}`);
+}
+
+main().catch((err) => {
+  console.error("❌ Migration failed:", err.message ?? err);
+  process.exit(1);
+});
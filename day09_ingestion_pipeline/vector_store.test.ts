@@ -0,0 +1,195 @@
+// day09_ingestion_pipeline/vector_store.test.ts
+// Run: npm test
+
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { describe, test } from "node:test";
+import type { Embedder } from "../day06_embeddings/embedders.js";
+import type { ChunkMeta } from "../day07_chunking/chunkers.js";
+import {
+  LEGACY_EMBEDDING_MODEL,
+  VectorStoreMigration,
+  assertCompatible,
+  buildStore,
+  expandToParents,
+  loadStore,
+  saveStoreAtomic,
+  storeEmbedding,
+  toRecord,
+  type ParentRecord,
+} from "./vector_store.js";
+
+function meta(id: string, tokenCount: number, parentId?: string): ChunkMeta {
+  return { id, source: "doc.md", index: 0, startIndex: 0, endIndex: 0, strategy: "recursive", tokenCount, ...(parentId ? { level: "child" as const, parentId } : {}) };
+}
+
+const parent = (id: string, tokens: number): ParentRecord => ({ id, text: `${id} text`, metadata: { ...meta(id, tokens), level: "parent" } });
+const hit = (id: string, tokens: number, parentId?: string) => ({ id, text: `${id} text`, metadata: meta(id, tokens, parentId) });
+
+describe("expandToParents", () => {
+  const parents = [parent("p1", 100), parent("p2", 100), parent("big", 1000)];
+
+  test("hits become their parents; a parent shared by several hits appears once", () => {
+    const blocks = expandToParents([hit("c1", 20, "p1"), hit("c2", 20, "p2"), hit("c3", 20, "p1")], parents, 500);
+    assert.deepEqual(
+      blocks.map((b) => [b.id, b.hits, b.tokens]),
+      [
+        ["p1", ["c1", "c3"], 100],
+        ["p2", ["c2"], 100],
+      ]
+    );
+    assert.equal(blocks[0].text, "p1 text");
+  });
+
+  test("a parent over the remaining budget falls back to the hit itself", () => {
+    const blocks = expandToParents([hit("c1", 20, "p1"), hit("c2", 30, "big")], parents, 200);
+    assert.deepEqual(blocks.map((b) => [b.id, b.hits]), [["p1", ["c1"]], ["c2", ["c2"]]]);
+  });
+
+  test("what fits nowhere is skipped, and a later smaller block still fits", () => {
+    const blocks = expandToParents([hit("c1", 20, "p1"), hit("huge", 500), hit("c2", 60, "big")], parents, 180);
+    assert.deepEqual(blocks.map((b) => b.id), ["p1", "c2"]);
+    assert.ok(blocks.reduce((s, b) => s + b.tokens, 0) <= 180);
+  });
+
+  test("hits without a parent, or with an unknown one, are kept as they are", () => {
+    const blocks = expandToParents([hit("flat", 10), hit("orphan", 10, "gone")], parents, 100);
+    assert.deepEqual(blocks.map((b) => b.id), ["flat", "orphan"]);
+  });
+});
+
+// --------------------------
+// Compatibility and migration
+// --------------------------
+
+// Deterministic fake embedder (vectors from the text length) that records what it was asked to embed
+class FakeEmbedder implements Embedder {
+  calls: string[][] = [];
+  constructor(readonly model: string, readonly dimensions = 3) {}
+  async embedDocuments(texts: string[]) {
+    this.calls.push(texts);
+    return texts.map((t) => Array.from({ length: this.dimensions }, (_, d) => t.length + d));
+  }
+  async embedQuery(text: string) {
+    return (await this.embedDocuments([text]))[0];
+  }
+}
+
+const chunk = (id: string, text: string) => ({ meta: meta(id, 1), text });
+
+function tempStore(model = "old-model", texts: Record<string, string> = { a: "alpha", b: "bravo", c: "charlie" }) {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "store-")), "store.json");
+  const records = Object.entries(texts).map(([id, text]) => toRecord(chunk(id, text), [text.length, 0], model));
+  saveStoreAtomic(file, buildStore(records, "2025-01-01T00:00:00.000Z", [parent("p1", 10)]));
+  return file;
+}
+
+describe("storeEmbedding / assertCompatible", () => {
+  const rec = (model?: string, dims = 2) => ({ embedding: new Array(dims).fill(0), ...(model ? { embeddingModel: model, embeddingDimensions: dims } : {}) });
+
+  test("one model per store; an empty store has none", () => {
+    assert.deepEqual(storeEmbedding({ records: [rec("m"), rec("m")] }), { model: "m", dimensions: 2 });
+    assert.equal(storeEmbedding({ records: [] }), null);
+    assert.doesNotThrow(() => assertCompatible({ records: [] }, { model: "anything", dimensions: 1 }));
+  });
+
+  test("records without metadata are the legacy OpenAI model", () => {
+    assert.deepEqual(storeEmbedding({ records: [rec(undefined, 1536)] }), { model: LEGACY_EMBEDDING_MODEL, dimensions: 1536 });
+    assert.throws(() => storeEmbedding({ records: [rec(undefined, 1536), rec("hashed-ngram-3-5-d512", 512)] }), /Store mixes embedding models/);
+  });
+
+  test("a store that mixes models, or a query from another model or size, is refused", () => {
+    assert.throws(() => storeEmbedding({ records: [rec("m"), rec("n")] }), /Store mixes embedding models: m \(2d\) and n \(2d\)/);
+    assert.throws(() => storeEmbedding({ records: [rec("m", 2), rec("m", 3)] }), /mixes/);
+    assert.throws(() => assertCompatible({ records: [rec("m")] }, { model: "n", dimensions: 2 }), /store uses m \(2d\), query uses n \(2d\)/);
+    assert.throws(() => assertCompatible({ records: [rec("m")] }, { model: "m", dimensions: 3 }), /mismatch/);
+    assert.doesNotThrow(() => assertCompatible({ records: [rec("m")] }, { model: "m", dimensions: 2 }));
+  });
+});
+
+describe("VectorStoreMigration", () => {
+  test("run re-embeds into the shadow store in batches; the live store is untouched", async () => {
+    const file = tempStore();
+    const before = fs.readFileSync(file, "utf8");
+    const target = new FakeEmbedder("new-model");
+    const progress: number[] = [];
+
+    const res = await new VectorStoreMigration(file, target, 2).run((p) => progress.push(p.done));
+    assert.deepEqual(res, { embedded: 3, reused: 0 });
+    assert.deepEqual(progress, [2, 3]);
+    assert.equal(fs.readFileSync(file, "utf8"), before);
+    assert.ok(VectorStoreMigration.pending(file));
+    assert.deepEqual(storeEmbedding(loadStore(VectorStoreMigration.shadowPathFor(file))!), { model: "new-model", dimensions: 3 });
+  });
+
+  test("a re-run resumes: only missing or changed records are embedded", async () => {
+    const file = tempStore();
+    const first = new FakeEmbedder("new-model");
+    await new VectorStoreMigration(file, first, 2).run();
+
+    // The live store changes: "b" is edited, "d" is added
+    const live = loadStore(file)!;
+    live.records[1] = toRecord(chunk("b", "bravo two"), [9, 0], "old-model");
+    live.records.push(toRecord(chunk("d", "delta"), [5, 0], "old-model"));
+    saveStoreAtomic(file, live);
+
+    const again = new FakeEmbedder("new-model");
+    assert.deepEqual(await new VectorStoreMigration(file, again, 2).run(), { embedded: 2, reused: 2 });
+    assert.deepEqual(again.calls.flat(), ["bravo two", "delta"]);
+
+    // A shadow from another target model is not reused
+    const other = new FakeEmbedder("other-model");
+    assert.deepEqual(await new VectorStoreMigration(file, other).run(), { embedded: 4, reused: 0 });
+  });
+
+  test("dual-write adds new chunks to the shadow store only", async () => {
+    const file = tempStore();
+    const target = new FakeEmbedder("new-model");
+    const migration = new VectorStoreMigration(file, target);
+    await migration.run();
+    await migration.dualWrite([chunk("e", "echo")]);
+
+    const shadow = loadStore(VectorStoreMigration.shadowPathFor(file))!;
+    assert.deepEqual(shadow.records.map((r) => r.id).sort(), ["a", "b", "c", "e"]);
+    assert.equal(shadow.records.find((r) => r.id === "e")!.embeddingModel, "new-model");
+    assert.deepEqual(loadStore(file)!.records.map((r) => r.id), ["a", "b", "c"]);
+  });
+
+  test("swap catches up, drops records deleted from the live store, keeps a backup", async () => {
+    const file = tempStore();
+    const migration = new VectorStoreMigration(file, new FakeEmbedder("new-model"));
+    await migration.run();
+    await migration.dualWrite([chunk("stray", "never in live")]);
+
+    const live = loadStore(file)!;
+    live.records = live.records.filter((r) => r.id !== "c");
+    live.records.push(toRecord(chunk("d", "delta"), [5, 0], "old-model"));
+    saveStoreAtomic(file, live);
+
+    const next = await migration.swap();
+    assert.deepEqual(next.records.map((r) => r.id), ["a", "b", "d"]);
+    assert.equal(next.embeddingModel, "new-model");
+    assert.equal(next.createdAt, "2025-01-01T00:00:00.000Z");
+    assert.deepEqual(next.parents?.map((p) => p.id), ["p1"]);
+    assert.deepEqual(loadStore(file), next);
+    assert.equal(loadStore(migration.backupPath)!.embeddingModel, "old-model");
+    assert.ok(!VectorStoreMigration.pending(file));
+    assert.ok(!fs.existsSync(`${file}.tmp`));
+  });
+
+  test("abort drops the shadow store and leaves the live one alone", async () => {
+    const file = tempStore();
+    const before = fs.readFileSync(file, "utf8");
+    await new VectorStoreMigration(file, new FakeEmbedder("new-model")).run();
+    VectorStoreMigration.abort(file);
+    assert.ok(!VectorStoreMigration.pending(file));
+    assert.equal(fs.readFileSync(file, "utf8"), before);
+    assert.doesNotThrow(() => VectorStoreMigration.abort(file));
+  });
+
+  test("a missing store is an error", async () => {
+    await assert.rejects(new VectorStoreMigration("/nonexistent/store.json", new FakeEmbedder("m")).run(), /Store not found/);
+  });
+});
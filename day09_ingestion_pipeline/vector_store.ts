@@ -0,0 +1,266 @@
+// day09_ingestion_pipeline/vector_store.ts
+// Local JSON vector store: record types, embedding-model metadata and model migration.
+//
+// Every record remembers which embedding model (and dimension) produced its vector.
+// Vectors from different models live in different spaces — comparing them gives numbers
+// that look fine and mean nothing — so `assertCompatible` refuses instead.
+//
+// Migration (old model -> new model) without downtime:
+//   1. `VectorStoreMigration.run()` re-embeds the live store into a shadow file (<store>.next.json)
+//      in batches; the live store stays untouched and queryable, and a crashed run resumes
+//   2. while a migration is pending, ingestion dual-writes new chunks to the shadow as well
+//   3. `swap()` catches up on anything that changed, then atomically renames shadow -> live
+//
+// Two-level chunking (Day 7 `--parents`): only the small child chunks become records; their parent
+// sections are kept in `parents`, unembedded, and `expandToParents` swaps child hits for them.
+
+import * as fs from "fs";
+import { estimateTokens } from "../day03_llm_mind/tokenizer.js";
+import type { Embedder } from "../day06_embeddings/embedders.js";
+import type { ChunkMeta } from "../day07_chunking/chunkers.js";
+
+export type EmbeddingInfo = { model: string; dimensions: number };
+
+// The part of a record the compatibility checks look at (also fits the older per-day record types)
+export type StoredVector = { embedding: number[]; embeddingModel?: string; embeddingDimensions?: number };
+
+// Records keep the Day 7 chunk metadata as-is
+export type { ChunkMeta };
+
+export interface LocalVectorRecord {
+  id: string;
+  text: string;
+  metadata: ChunkMeta;
+  embedding: number[];
+  embeddingModel: string;
+  embeddingDimensions: number;
+}
+
+// Parent chunks are retrieval context only: no embedding
+export interface ParentRecord {
+  id: string;
+  text: string;
+  metadata: ChunkMeta;
+}
+
+export interface LocalVectorStore {
+  totalRecords: number;
+  createdAt: string;
+  updatedAt: string;
+  embeddingModel?: string; // set when every record uses the same model
+  embeddingDimensions?: number;
+  records: LocalVectorRecord[];
+  parents?: ParentRecord[];
+}
+
+// Stores written before records carried metadata were all embedded with this model
+export const LEGACY_EMBEDDING_MODEL = "text-embedding-3-small";
+
+export function recordEmbedding(r: StoredVector): EmbeddingInfo {
+  return { model: r.embeddingModel ?? LEGACY_EMBEDDING_MODEL, dimensions: r.embeddingDimensions ?? r.embedding.length };
+}
+
+// The one model used by the whole store (throws if records were mixed)
+export function storeEmbedding(store: { records: StoredVector[] }): EmbeddingInfo | null {
+  if (!store.records.length) return null;
+  const first = recordEmbedding(store.records[0]);
+  const other = store.records.find((r) => {
+    const e = recordEmbedding(r);
+    return e.model !== first.model || e.dimensions !== first.dimensions;
+  });
+  if (other) {
+    const e = recordEmbedding(other);
+    throw new Error(
+      `Store mixes embedding models: ${first.model} (${first.dimensions}d) and ${e.model} (${e.dimensions}d) — re-index it`
+    );
+  }
+  return first;
+}
+
+export function assertCompatible(store: { records: StoredVector[] }, query: EmbeddingInfo) {
+  const info = storeEmbedding(store);
+  if (!info) return;
+  if (info.model !== query.model || info.dimensions !== query.dimensions) {
+    throw new Error(
+      `Embedding model mismatch: store uses ${info.model} (${info.dimensions}d), query uses ${query.model} (${query.dimensions}d). ` +
+        `Query with the same model, or migrate the store (npm run dev:day9:migrate).`
+    );
+  }
+}
+
+export function toRecord(chunk: { meta: ChunkMeta; text: string }, embedding: number[], model: string): LocalVectorRecord {
+  return {
+    id: chunk.meta.id,
+    text: chunk.text,
+    metadata: chunk.meta,
+    embedding,
+    embeddingModel: model,
+    embeddingDimensions: embedding.length,
+  };
+}
+
+export function buildStore(records: LocalVectorRecord[], createdAt?: string, parents?: ParentRecord[]): LocalVectorStore {
+  const now = new Date().toISOString();
+  const info = records.length ? storeEmbedding({ records }) : null;
+  return {
+    totalRecords: records.length,
+    createdAt: createdAt ?? now,
+    updatedAt: now,
+    embeddingModel: info?.model,
+    embeddingDimensions: info?.dimensions,
+    records,
+    ...(parents?.length ? { parents } : {}),
+  };
+}
+
+export function loadStore(file: string): LocalVectorStore | null {
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, "utf8")) as LocalVectorStore;
+}
+
+// Write to a temp file, then rename: readers never see a half-written store
+export function saveStoreAtomic(file: string, store: LocalVectorStore) {
+  const tmp = `${file}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(store, null, 2), "utf8");
+  fs.renameSync(tmp, file);
+}
+
+// --------------------------
+// Small-to-big retrieval
+// --------------------------
+export type ContextBlock = {
+  id: string; // parent id, or the hit's own id when it has no (fitting) parent
+  text: string;
+  metadata: ChunkMeta;
+  tokens: number;
+  hits: string[]; // ids of the retrieved chunks that led here, best first
+};
+
+// Walk the hits best-first and replace each with its parent section. Parents shared by several hits
+// appear once; a parent that doesn't fit the remaining budget falls back to the hit itself, and
+// anything that doesn't fit at all is skipped (a later, smaller one may still fit).
+export function expandToParents(
+  hits: { id: string; text: string; metadata: ChunkMeta }[],
+  parents: ParentRecord[],
+  tokenBudget: number
+): ContextBlock[] {
+  const parentById = new Map(parents.map((p) => [p.id, p]));
+  const blocks = new Map<string, ContextBlock>();
+  let used = 0;
+
+  const tokensOf = (r: { text: string; metadata: ChunkMeta }) => r.metadata.tokenCount ?? estimateTokens(r.text);
+  for (const hit of hits) {
+    const parent = hit.metadata.parentId ? parentById.get(hit.metadata.parentId) : undefined;
+    const existing = blocks.get(parent?.id ?? hit.id);
+    if (existing) {
+      existing.hits.push(hit.id);
+      continue;
+    }
+    for (const candidate of parent ? [parent, hit] : [hit]) {
+      const tokens = tokensOf(candidate);
+      if (used + tokens > tokenBudget) continue;
+      blocks.set(candidate.id, { id: candidate.id, text: candidate.text, metadata: candidate.metadata, tokens, hits: [hit.id] });
+      used += tokens;
+      break;
+    }
+  }
+  return [...blocks.values()];
+}
+
+// --------------------------
+// Migration
+// --------------------------
+export type MigrationProgress = { done: number; total: number; batch: number };
+
+export class VectorStoreMigration {
+  readonly shadowPath: string;
+  readonly backupPath: string;
+
+  constructor(
+    readonly storePath: string,
+    private target: Embedder,
+    private batchSize = 16
+  ) {
+    this.shadowPath = VectorStoreMigration.shadowPathFor(storePath);
+    this.backupPath = storePath.replace(/\.json$/, "") + ".prev.json";
+  }
+
+  static shadowPathFor(storePath: string) {
+    return storePath.replace(/\.json$/, "") + ".next.json";
+  }
+
+  static pending(storePath: string) {
+    return fs.existsSync(VectorStoreMigration.shadowPathFor(storePath));
+  }
+
+  private loadShadow(): Map<string, LocalVectorRecord> {
+    const shadow = loadStore(this.shadowPath);
+    // A shadow left by a migration to another model is discarded
+    const usable = shadow?.records.filter((r) => r.embeddingModel === this.target.model) ?? [];
+    return new Map(usable.map((r) => [r.id, r]));
+  }
+
+  // Records of the live store whose shadow copy is missing or stale
+  private pendingRecords(live: LocalVectorStore, shadow: Map<string, LocalVectorRecord>) {
+    return live.records.filter((r) => shadow.get(r.id)?.text !== r.text);
+  }
+
+  // Re-embed the live store into the shadow, saving after every batch (safe to re-run)
+  async run(onProgress?: (p: MigrationProgress) => void): Promise<{ embedded: number; reused: number }> {
+    const live = loadStore(this.storePath);
+    if (!live) throw new Error(`Store not found: ${this.storePath}`);
+
+    const shadow = this.loadShadow();
+    const todo = this.pendingRecords(live, shadow);
+    const reused = live.records.length - todo.length;
+
+    for (let i = 0; i < todo.length; i += this.batchSize) {
+      const batch = todo.slice(i, i + this.batchSize);
+      await this.write(batch, shadow);
+      onProgress?.({ done: Math.min(i + this.batchSize, todo.length), total: todo.length, batch: i / this.batchSize + 1 });
+    }
+    if (!todo.length) this.saveShadow(shadow);
+    return { embedded: todo.length, reused };
+  }
+
+  // Dual-write: embed chunks with the target model and add them to the shadow store
+  async dualWrite(chunks: { meta: ChunkMeta; text: string }[]) {
+    await this.write(chunks.map((c) => ({ id: c.meta.id, text: c.text, metadata: c.meta })), this.loadShadow());
+  }
+
+  private async write(items: { id: string; text: string; metadata: ChunkMeta }[], shadow: Map<string, LocalVectorRecord>) {
+    if (!items.length) return;
+    const vectors = await this.target.embedDocuments(items.map((r) => r.text));
+    items.forEach((r, j) => shadow.set(r.id, toRecord({ meta: r.metadata, text: r.text }, vectors[j], this.target.model)));
+    this.saveShadow(shadow);
+  }
+
+  private saveShadow(shadow: Map<string, LocalVectorRecord>) {
+    saveStoreAtomic(this.shadowPath, buildStore([...shadow.values()]));
+  }
+
+  // Catch up, verify the shadow mirrors the live store, keep a backup, then rename shadow -> live
+  async swap(): Promise<LocalVectorStore> {
+    await this.run();
+    const live = loadStore(this.storePath);
+    if (!live) throw new Error(`Store not found: ${this.storePath}`);
+    const shadow = this.loadShadow();
+
+    const stale = this.pendingRecords(live, shadow);
+    if (stale.length) throw new Error(`Shadow store is missing ${stale.length} records; run the migration again`);
+
+    // Built from the live record list, so chunks deleted during the migration are dropped
+    const next = buildStore(live.records.map((r) => shadow.get(r.id)!), live.createdAt, live.parents);
+    saveStoreAtomic(this.shadowPath, next);
+
+    fs.copyFileSync(this.storePath, this.backupPath);
+    fs.renameSync(this.shadowPath, this.storePath);
+    return next;
+  }
+
+  // Drop the shadow store; the live store was never touched
+  static abort(storePath: string) {
+    const shadowPath = VectorStoreMigration.shadowPathFor(storePath);
+    if (fs.existsSync(shadowPath)) fs.unlinkSync(shadowPath);
+  }
+}
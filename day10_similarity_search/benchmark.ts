@@ -0,0 +1,75 @@
+// day10_similarity_search/benchmark.ts
+// Naive kNN (the original Day 10 `knnSearch`) vs Float32Array matrix + heap top-k.
+//
+// Synthetic, seeded vectors — no store or API key needed.
+// Run: npm run dev:day10:bench -- --n 100000 --dims 256 --queries 5 --k 5
+
+import { performance } from "perf_hooks";
+import { createRng } from "../day03_llm_mind/decoding.js";
+import { VectorMatrix, cosineSimilarity } from "./vector_math.js";
+
+function arg(name: string, fallback: number) {
+  const i = process.argv.indexOf(`--${name}`);
+  return i !== -1 ? Number(process.argv[i + 1]) : fallback;
+}
+
+const N = arg("n", 100_000);
+const DIMS = arg("dims", 256);
+const QUERIES = arg("queries", 5);
+const K = arg("k", 5);
+
+// Seeded, so every run uses the same vectors
+const rand = createRng(7);
+const randomVector = () => Array.from({ length: DIMS }, () => rand() * 2 - 1);
+
+// The original Day 10 implementation, kept verbatim for comparison
+function naiveCosine(a: number[], b: number[]): number {
+  const dot = a.reduce((s, v, i) => s + v * (b[i] ?? 0), 0);
+  const magA = Math.sqrt(a.reduce((s, v) => s + v * v, 0));
+  const magB = Math.sqrt(b.reduce((s, v) => s + v * v, 0));
+  return magA && magB ? dot / (magA * magB) : 0;
+}
+
+function naiveKnn(records: { id: number; embedding: number[] }[], query: number[], k: number) {
+  const scored = records.map((r) => ({ record: r, score: naiveCosine(query, r.embedding) }));
+  scored.sort((a, b) => b.score - a.score);
+  return scored.slice(0, k);
+}
+
+function time<T>(fn: () => T): { ms: number; result: T } {
+  const t0 = performance.now();
+  const result = fn();
+  return { ms: performance.now() - t0, result };
+}
+
+console.log(`=== kNN benchmark: ${N.toLocaleString()} vectors x ${DIMS} dims, ${QUERIES} queries, k=${K} ===\n`);
+
+const records = Array.from({ length: N }, (_, id) => ({ id, embedding: randomVector() }));
+const queries = Array.from({ length: QUERIES }, randomVector);
+
+const build = time(() => VectorMatrix.fromVectors(records.map((r) => r.embedding)));
+const matrix = build.result;
+console.log(`Build Float32Array matrix (normalize once): ${build.ms.toFixed(0)}ms, ${(matrix.data.byteLength / 1e6).toFixed(0)} MB`);
+
+const naive = time(() => queries.map((q) => naiveKnn(records, q, K)));
+const fast = time(() => queries.map((q) => matrix.search(q, K)));
+const batch = time(() => matrix.searchBatch(queries, K));
+
+// Same answers? (ids must match; scores agree up to float32 precision)
+let mismatches = 0;
+naive.result.forEach((hits, q) => {
+  const ids = hits.map((h) => h.record.id).join(",");
+  if (ids !== fast.result[q].map((h) => h.index).join(",")) mismatches++;
+  if (ids !== batch.result[q].map((h) => h.index).join(",")) mismatches++;
+});
+const maxScoreDiff = Math.max(
+  ...naive.result.flatMap((hits, q) => hits.map((h, i) => Math.abs(h.score - fast.result[q][i].score)))
+);
+
+const perQuery = (ms: number) => `${(ms / QUERIES).toFixed(1)}ms/query`;
+console.log("");
+console.log(`naive knnSearch (reduce + full sort): ${naive.ms.toFixed(0)}ms  (${perQuery(naive.ms)})`);
+console.log(`matrix.search (dot + heap top-k):     ${fast.ms.toFixed(0)}ms  (${perQuery(fast.ms)})  ${(naive.ms / fast.ms).toFixed(1)}x faster`);
+console.log(`matrix.searchBatch (all queries):     ${batch.ms.toFixed(0)}ms  (${perQuery(batch.ms)})  ${(naive.ms / batch.ms).toFixed(1)}x faster`);
+console.log(`\nresults identical: ${mismatches === 0 ? "yes" : `NO (${mismatches} mismatches)`}, max score diff: ${maxScoreDiff.toExponential(1)}`);
+console.log(`sanity: cosine(q0, top hit) = ${cosineSimilarity(queries[0], records[fast.result[0][0].index].embedding).toFixed(4)}`);
@@ -1,11 +1,20 @@
 import * as fs from "fs";
 import * as path from "path";
+import { fileURLToPath } from "url";
+import { embedderFromEnv } from "../day06_embeddings/embedders.js";
+import { assertCompatible } from "../day09_ingestion_pipeline/vector_store.js";
+import { VectorMatrix, cosineSimilarity as cosine } from "./vector_math.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
 
 interface RecordItem {
   id: string;
   text: string;
   metadata: any;
   embedding: number[];
+  embeddingModel?: string;
+  embeddingDimensions?: number;
 }
 
 interface Store {
@@ -13,15 +22,6 @@ interface Store {
   records: RecordItem[];
 }
 
-// ---------- Utility: cosine similarity ----------
-
-function cosine(a: number[], b: number[]): number {
-  const dot = a.reduce((s, v, i) => s + v * (b[i] ?? 0), 0);
-  const magA = Math.sqrt(a.reduce((s, v) => s + v * v, 0));
-  const magB = Math.sqrt(b.reduce((s, v) => s + v * v, 0));
-  return magA && magB ? dot / (magA * magB) : 0;
-}
-
 // ---------- Load local store from Day 9 ----------
 
 const storePath = path.join(
@@ -41,13 +41,12 @@ const vectors = store.records;
 
 // ---------- 1) kNN: exact linear search ----------
 
+// Embeddings packed into one normalized Float32Array; search = batch dot product + heap top-k
+// (see vector_math.ts and `npm run dev:day10:bench`)
+const matrix = VectorMatrix.fromVectors(vectors.map((r) => r.embedding));
+
 function knnSearch(queryEmbedding: number[], k: number) {
-  const scored = vectors.map((r) => ({
-    record: r,
-    score: cosine(queryEmbedding, r.embedding),
-  }));
-  scored.sort((a, b) => b.score - a.score);
-  return scored.slice(0, k);
+  return matrix.search(queryEmbedding, k).map(({ index, score }) => ({ record: vectors[index], score }));
 }
 
 // ---------- 2) ANN-like bucket search (toy) ----------
@@ -328,13 +327,21 @@ function printResults(label: string, results: { record: RecordItem; score: numbe
   }
 }
 
-function main() {
+async function main() {
   const query = "Explain why chunking matters in RAG.";
   console.log("Query:", query);
 
-  // For this demo, we'll just treat query embedding as a random vector with same dim as stored embeddings
+  // Embed the query with the embedder Day 9 used (same EMBEDDER env); a store built with another
+  // model is refused, since its vectors live in a different space. If the embedding call itself
+  // fails (e.g. no key), fall back to a random vector of the same dim.
   const dim = vectors[0].embedding.length;
-  const queryEmbedding = Array.from({ length: dim }, () => Math.random() * 2 - 1);
+  const embedder = embedderFromEnv({
+    tfidfStatePath: path.join(__dirname, "..", "day09_ingestion_pipeline", "day09_tfidf_state.json"),
+  });
+  assertCompatible(store, { model: embedder.model, dimensions: embedder.dimensions });
+  const embedded = await embedder.embedQuery(query).catch(() => null);
+  const queryEmbedding = embedded ?? Array.from({ length: dim }, () => Math.random() * 2 - 1);
+  console.log(embedded ? `Query embedded with ${embedder.model}` : "Query embedding: random vector (demo)");
 
   const k = 3;
 
@@ -351,4 +358,4 @@ function main() {
   printResults("PQ-Style Compressed Search (Toy)", pq);
 }
 
-main();
\ No newline at end of file
+main().catch(console.error);
\ No newline at end of file
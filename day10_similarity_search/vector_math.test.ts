@@ -0,0 +1,72 @@
+// day10_similarity_search/vector_math.test.ts
+// Run: npm test
+
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { createRng } from "../day03_llm_mind/decoding.js";
+import { VectorMatrix, cosineSimilarity, topK } from "./vector_math.js";
+
+const rng = createRng(10);
+const randomVec = (dims: number) => Array.from({ length: dims }, () => rng() * 2 - 1);
+
+// Reference: sort every score, take the first k
+const fullSort = (scores: ArrayLike<number>, k: number) =>
+  Array.from(scores, (score, index) => ({ index, score }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k);
+
+describe("cosineSimilarity", () => {
+  test("parallel, orthogonal, opposite; a zero vector scores 0", () => {
+    assert.equal(cosineSimilarity([3, 4], [6, 8]), 1);
+    assert.equal(cosineSimilarity([1, 0], [0, 3]), 0);
+    assert.equal(cosineSimilarity([3, 4], [-3, -4]), -1);
+    assert.equal(cosineSimilarity([0, 0], [1, 0]), 0);
+  });
+
+  test("vectors of different lengths are refused, not compared by prefix", () => {
+    assert.throws(() => cosineSimilarity([1, 0, 0], [1, 0]), /Vector length mismatch: 3 vs 2/);
+  });
+});
+
+describe("topK", () => {
+  test("matches a full sort on random scores", () => {
+    const scores = randomVec(500);
+    for (const k of [1, 5, 50, 500]) assert.deepEqual(topK(scores, k), fullSort(scores, k));
+  });
+
+  test("ties keep the right scores; k > n returns everything; k <= 0 returns nothing", () => {
+    const scores = [0.5, 0.9, 0.5, 0.1, 0.5, 0.9];
+    assert.deepEqual(topK(scores, 3).map((s) => s.score), [0.9, 0.9, 0.5]);
+    assert.deepEqual(new Set(topK(scores, 2).map((s) => s.index)), new Set([1, 5]));
+    assert.deepEqual(topK(scores, 10).map((s) => s.score), [0.9, 0.9, 0.5, 0.5, 0.5, 0.1]);
+    assert.deepEqual(topK(scores, 0), []);
+    assert.deepEqual(topK([], 3), []);
+  });
+});
+
+describe("VectorMatrix", () => {
+  const rows = Array.from({ length: 40 }, () => randomVec(16));
+  const queries = Array.from({ length: 3 }, () => randomVec(16));
+  const matrix = VectorMatrix.fromVectors(rows);
+
+  test("scores are cosine similarities against every row", () => {
+    const scores = matrix.scores(queries[0]);
+    rows.forEach((r, i) => assert.ok(Math.abs(scores[i] - cosineSimilarity(queries[0], r)) < 1e-5));
+  });
+
+  test("scoresBatch equals scores for each query; searchBatch equals search", () => {
+    const batch = matrix.scoresBatch(queries);
+    queries.forEach((q, i) => {
+      const single = matrix.scores(q);
+      const slice = batch.subarray(i * matrix.rows, (i + 1) * matrix.rows);
+      single.forEach((s, r) => assert.ok(Math.abs(s - slice[r]) < 1e-6));
+    });
+    assert.deepEqual(matrix.searchBatch(queries, 5), queries.map((q) => matrix.search(q, 5)));
+  });
+
+  test("a query or row of the wrong size is an error", () => {
+    assert.throws(() => matrix.scores([1, 2, 3]), /Query has 3 dims, matrix has 16/);
+    assert.throws(() => matrix.scoresBatch([[1, 2, 3]]), /Queries have 3 dims/);
+    assert.throws(() => VectorMatrix.fromVectors([[1, 2], [1, 2, 3]]), /Vector 1 has 3 dims, expected 2/);
+  });
+});
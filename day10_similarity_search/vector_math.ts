@@ -0,0 +1,165 @@
+// day10_similarity_search/vector_math.ts
+// Shared vector math for similarity search.
+//
+// The naive version (number[] + reduce, both magnitudes recomputed per comparison, sort
+// everything, take k) is fine for 10 vectors and slow for 100k. Here instead:
+// - embeddings live in ONE contiguous Float32Array (rows x dims), cache-friendly
+// - rows are L2-normalized once at build time, so cosine == dot product
+// - top-k uses a size-k min-heap: O(n log k) instead of sorting all n scores
+//
+// Benchmark: npm run dev:day10:bench
+
+export type Vec = ArrayLike<number>;
+
+export type ScoredIndex = { index: number; score: number };
+
+export function dot(a: Vec, b: Vec): number {
+  const n = Math.min(a.length, b.length);
+  let s = 0;
+  for (let i = 0; i < n; i++) s += a[i] * b[i];
+  return s;
+}
+
+export function norm(v: Vec): number {
+  return Math.sqrt(dot(v, v));
+}
+
+// Vectors of different lengths come from different models; comparing them is a bug, not a 0
+export function cosineSimilarity(a: Vec, b: Vec): number {
+  if (a.length !== b.length) throw new Error(`Vector length mismatch: ${a.length} vs ${b.length}`);
+  const denom = norm(a) * norm(b);
+  return denom ? dot(a, b) / denom : 0;
+}
+
+export function normalize(v: Vec): Float32Array {
+  const out = Float32Array.from(v);
+  const n = norm(out);
+  if (n) for (let i = 0; i < out.length; i++) out[i] /= n;
+  return out;
+}
+
+// --------------------------
+// Top-k with a min-heap
+// --------------------------
+
+// Keeps the k best scores seen so far; the root is the worst of them, so most
+// candidates are rejected with a single comparison.
+export function topK(scores: ArrayLike<number>, k: number): ScoredIndex[] {
+  const size = Math.min(k, scores.length);
+  if (size <= 0) return [];
+  const heapIdx = new Int32Array(size);
+  const heapScore = new Float64Array(size);
+  let count = 0;
+
+  const siftDown = (i: number) => {
+    for (;;) {
+      const l = 2 * i + 1;
+      const r = l + 1;
+      let m = i;
+      if (l < count && heapScore[l] < heapScore[m]) m = l;
+      if (r < count && heapScore[r] < heapScore[m]) m = r;
+      if (m === i) return;
+      [heapScore[i], heapScore[m]] = [heapScore[m], heapScore[i]];
+      [heapIdx[i], heapIdx[m]] = [heapIdx[m], heapIdx[i]];
+      i = m;
+    }
+  };
+
+  for (let i = 0; i < scores.length; i++) {
+    const s = scores[i];
+    if (count < size) {
+      // sift up
+      let j = count++;
+      heapScore[j] = s;
+      heapIdx[j] = i;
+      while (j > 0) {
+        const p = (j - 1) >> 1;
+        if (heapScore[p] <= heapScore[j]) break;
+        [heapScore[p], heapScore[j]] = [heapScore[j], heapScore[p]];
+        [heapIdx[p], heapIdx[j]] = [heapIdx[j], heapIdx[p]];
+        j = p;
+      }
+    } else if (s > heapScore[0]) {
+      heapScore[0] = s;
+      heapIdx[0] = i;
+      siftDown(0);
+    }
+  }
+
+  const out: ScoredIndex[] = [];
+  for (let i = 0; i < count; i++) out.push({ index: heapIdx[i], score: heapScore[i] });
+  return out.sort((a, b) => b.score - a.score);
+}
+
+// --------------------------
+// Contiguous embedding matrix
+// --------------------------
+
+// Dot product of two slices; 4 accumulators let the CPU overlap the multiply-adds
+function sliceDot(a: Float32Array, aOff: number, b: Float32Array, bOff: number, dims: number): number {
+  let s0 = 0, s1 = 0, s2 = 0, s3 = 0;
+  let j = 0;
+  for (; j + 3 < dims; j += 4) {
+    s0 += a[aOff + j] * b[bOff + j];
+    s1 += a[aOff + j + 1] * b[bOff + j + 1];
+    s2 += a[aOff + j + 2] * b[bOff + j + 2];
+    s3 += a[aOff + j + 3] * b[bOff + j + 3];
+  }
+  for (; j < dims; j++) s0 += a[aOff + j] * b[bOff + j];
+  return s0 + s1 + s2 + s3;
+}
+
+export class VectorMatrix {
+  private constructor(
+    readonly data: Float32Array,
+    readonly rows: number,
+    readonly dims: number
+  ) {}
+
+  // Copies (and normalizes) the vectors into one Float32Array
+  static fromVectors(vectors: Vec[], opts: { normalize?: boolean } = {}): VectorMatrix {
+    const dims = vectors[0]?.length ?? 0;
+    const data = new Float32Array(vectors.length * dims);
+    vectors.forEach((v, r) => {
+      if (v.length !== dims) throw new Error(`Vector ${r} has ${v.length} dims, expected ${dims}`);
+      data.set(opts.normalize === false ? Float32Array.from(v) : normalize(v), r * dims);
+    });
+    return new VectorMatrix(data, vectors.length, dims);
+  }
+
+  row(i: number): Float32Array {
+    return this.data.subarray(i * this.dims, (i + 1) * this.dims);
+  }
+
+  // One query against every row. With normalized rows + query, these are cosine similarities.
+  scores(query: Vec, out = new Float32Array(this.rows)): Float32Array {
+    if (query.length !== this.dims) throw new Error(`Query has ${query.length} dims, matrix has ${this.dims}`);
+    const q = normalize(query);
+    const { data, dims, rows } = this;
+    for (let r = 0; r < rows; r++) out[r] = sliceDot(data, r * dims, q, 0, dims);
+    return out;
+  }
+
+  // Several queries at once: result[q * rows + r]. Each matrix row is read from memory
+  // once for all queries (instead of once per query), which helps when memory-bound.
+  scoresBatch(queries: Vec[]): Float32Array {
+    const qm = VectorMatrix.fromVectors(queries);
+    if (qm.dims !== this.dims) throw new Error(`Queries have ${qm.dims} dims, matrix has ${this.dims}`);
+    const out = new Float32Array(queries.length * this.rows);
+    const { data, dims, rows } = this;
+    const qd = qm.data;
+    for (let r = 0; r < rows; r++) {
+      for (let q = 0; q < qm.rows; q++) out[q * rows + r] = sliceDot(data, r * dims, qd, q * dims, dims);
+    }
+    return out;
+  }
+
+  search(query: Vec, k: number): ScoredIndex[] {
+    return topK(this.scores(query), k);
+  }
+
+  searchBatch(queries: Vec[], k: number): ScoredIndex[][] {
+    const all = this.scoresBatch(queries);
+    return queries.map((_, q) => topK(all.subarray(q * this.rows, (q + 1) * this.rows), k));
+  }
+}
@@ -2,12 +2,23 @@
 import "dotenv/config";
 import * as fs from "fs";
 import * as path from "path";
+import { fileURLToPath } from "url";
+import { createTemplate } from "../day04_prompt_engineering/templates.js";
+import { cassetteFromEnv } from "../day05_inferencing/cassette.js";
+import { embedderFromEnv } from "../day06_embeddings/embedders.js";
+import { assertCompatible, expandToParents, type ParentRecord } from "../day09_ingestion_pipeline/vector_store.js";
+import { cosineSimilarity } from "../day10_similarity_search/vector_math.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
 
 interface LocalVectorRecord {
   id: string;
   text: string;
   metadata: any;
   embedding: number[];
+  embeddingModel?: string;
+  embeddingDimensions?: number;
 }
 
 interface LocalVectorStore {
@@ -15,41 +26,31 @@ interface LocalVectorStore {
   createdAt: string;
   updatedAt: string;
   records: LocalVectorRecord[];
+  parents?: ParentRecord[];
 }
 
-function cosineSimilarity(a: number[], b: number[]): number {
-  const dot = a.reduce((sum, ai, i) => sum + ai * (b[i] ?? 0), 0);
-  const magA = Math.sqrt(a.reduce((sum, ai) => sum + ai * ai, 0));
-  const magB = Math.sqrt(b.reduce((sum, bi) => sum + bi * bi, 0));
-  if (!magA || !magB) return 0;
-  return dot / (magA * magB);
-}
+// Two-level stores (Day 7 --parents): matched children are swapped for their parent sections, up to this many tokens
+const CONTEXT_TOKEN_BUDGET = 1500;
+
+// CASSETTE_MODE=record saves every API call; CASSETTE_MODE=replay re-runs offline from the cassette
+const cassette = cassetteFromEnv("day11_rag_pipeline");
 
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-if (!OPENAI_API_KEY) {
-  console.error("❌ OPENAI_API_KEY is not set.");
-  process.exit(1);
-}
+// Retrieval runs offline when Day 9 used EMBEDDER=ngram|tfidf; only the answer needs the key (or a replayed cassette)
+const canAnswer = Boolean(OPENAI_API_KEY) || cassette.mode === "replay";
 
-async function embedText(text: string): Promise<number[]> {
-  const res = await fetch("https://api.openai.com/v1/embeddings", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: "text-embedding-3-small",
-      input: text,
-    }),
-  });
+// The embedder Day 9 built the store with (same EMBEDDER env, same fitted TF-IDF vocabulary).
+// Replaying an OpenAI-embedded store without a key needs EMBEDDER=openai (the default is ngram then).
+const embedder = embedderFromEnv({
+  tfidfStatePath: path.join(__dirname, "..", "day09_ingestion_pipeline", "day09_tfidf_state.json"),
+  apiKey: OPENAI_API_KEY ?? (cassette.mode === "replay" ? "replay" : undefined), // replay never sends it
+  fetchImpl: cassette.fetch,
+});
 
-  const json: any = await res.json();
-  return json.data[0].embedding;
-}
+const ragUserPrompt = createTemplate("Question: {{question}}\n\nContext:\n{{context}}", { name: "day11_rag_user" });
 
 async function callChatCompletion(question: string, context: string): Promise<string> {
-  const res = await fetch("https://api.openai.com/v1/chat/completions", {
+  const res = await cassette.fetch("https://api.openai.com/v1/chat/completions", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
@@ -65,7 +66,7 @@ async function callChatCompletion(question: string, context: string): Promise<st
         },
         {
           role: "user",
-          content: `Question: ${question}\n\nContext:\n${context}`,
+          content: ragUserPrompt.render({ question, context }),
         },
       ],
       temperature: 0.2,
@@ -90,13 +91,15 @@ async function main() {
   }
 
   const store: LocalVectorStore = JSON.parse(fs.readFileSync(storePath, "utf8"));
+  // Scores against another model's vectors would be meaningless, so a mismatched store is refused
+  assertCompatible(store, { model: embedder.model, dimensions: embedder.dimensions });
 
   const question =
     "In simple terms, why is chunking important in a RAG system, and how does it affect retrieval quality?";
 
   console.log("User Question:\n", question);
 
-  const queryEmbedding = await embedText(question);
+  const queryEmbedding = await embedder.embedQuery(question);
 
   const scored = store.records
     .map((rec) => ({
@@ -109,13 +112,31 @@ async function main() {
   console.log("\nTop Retrieved Chunks:");
   const contextParts: string[] = [];
   scored.forEach(({ record, score }, index) => {
-    console.log(`\n[${index + 1}] Chunk ID: ${record.id}, Score: ${score.toFixed(3)}`);
+    // Markdown-chunked stores (Day 7 "markdown" strategy) know which section a chunk came from
+    const section = record.metadata?.breadcrumb ? ` (section: ${record.metadata.breadcrumb})` : "";
+    console.log(`\n[${index + 1}] Chunk ID: ${record.id}, Score: ${score.toFixed(3)}${section}`);
     console.log(record.text.slice(0, 200), "...");
-    contextParts.push(`[chunk:${record.id}] ${record.text.replace(/\s+/g, " ").slice(0, 800)}`);
+    contextParts.push(`[chunk:${record.id}]${section} ${record.text.replace(/\s+/g, " ").slice(0, 800)}`);
   });
 
+  // Small-to-big: search the small chunks, answer from the sections around them
+  if (store.parents?.length) {
+    const blocks = expandToParents(scored.map(({ record }) => record), store.parents, CONTEXT_TOKEN_BUDGET);
+    console.log(`\nExpanded ${scored.length} hits to ${blocks.length} parent sections (${blocks.reduce((s, b) => s + b.tokens, 0)} tokens):`);
+    contextParts.length = 0;
+    for (const block of blocks) {
+      const section = block.metadata.breadcrumb ? ` (section: ${block.metadata.breadcrumb})` : "";
+      console.log(`- ${block.id} <- ${block.hits.join(", ")}`);
+      contextParts.push(`[chunk:${block.id}]${section} ${block.text.replace(/\s+/g, " ")}`);
+    }
+  }
+
   const context = contextParts.join("\n\n");
 
+  if (!canAnswer) {
+    console.log("\nOPENAI_API_KEY is not set: retrieval ran offline, skipping the model answer.");
+    return;
+  }
   const answer = await callChatCompletion(question, context);
 
   console.log("\nModel Answer:\n", answer);
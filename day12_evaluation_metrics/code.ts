@@ -2,12 +2,23 @@
 import "dotenv/config";
 import * as fs from "fs";
 import * as path from "path";
+import { fileURLToPath } from "url";
+import { getCostCalculator } from "../day05_inferencing/pricing.js";
+import { cassetteFromEnv } from "../day05_inferencing/cassette.js";
+import { OpenAIEmbedder, embedderFromEnv } from "../day06_embeddings/embedders.js";
+import { assertCompatible } from "../day09_ingestion_pipeline/vector_store.js";
+import { cosineSimilarity } from "../day10_similarity_search/vector_math.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
 
 interface LocalVectorRecord {
   id: string;
   text: string;
   metadata: any;
   embedding: number[];
+  embeddingModel?: string;
+  embeddingDimensions?: number;
 }
 
 interface LocalVectorStore {
@@ -32,6 +43,12 @@ interface RagMetrics {
     completionTokens: number;
     totalTokens: number;
   };
+  cost: {
+    embeddingUsd: number;
+    chatUsd: number;
+    totalUsd: number;
+    estimated: boolean; // true if any usage block was missing and tokens were estimated
+  };
   retrieval: {
     k: number;
     chosenChunkIds: string[];
@@ -42,61 +59,35 @@ interface RagMetrics {
   };
 }
 
-function cosineSimilarity(a: number[], b: number[]): number {
-  const dot = a.reduce((sum, ai, i) => sum + ai * (b[i] ?? 0), 0);
-  const magA = Math.sqrt(a.reduce((sum, ai) => sum + ai * ai, 0));
-  const magB = Math.sqrt(b.reduce((sum, bi) => sum + bi * bi, 0));
-  if (!magA || !magB) return 0;
-  return dot / (magA * magB);
-}
+const CHAT_MODEL = "gpt-4o-mini";
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-if (!OPENAI_API_KEY) {
-  console.error("❌ OPENAI_API_KEY is not set. Add it to your .env file.");
-  process.exit(1);
-}
-
-async function embedText(text: string): Promise<{ embedding: number[]; tokens: number }> {
-  const res = await fetch("https://api.openai.com/v1/embeddings", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      Authorization: `Bearer ${OPENAI_API_KEY}`,
-    },
-    body: JSON.stringify({
-      model: "text-embedding-3-small",
-      input: text,
-    }),
-  });
+// CASSETTE_MODE=record saves every API call; CASSETTE_MODE=replay re-runs offline from the cassette
+const cassette = cassetteFromEnv("day12_evaluation_metrics");
 
-  if (!res.ok) {
-    const errText = await res.text();
-    throw new Error(`Embeddings API error: ${res.status} - ${errText}`);
-  }
-
-  const json: any = await res.json();
-  const embedding = json.data?.[0]?.embedding;
-  const tokens = json.usage?.total_tokens ?? 0;
-
-  if (!embedding || !Array.isArray(embedding)) {
-    throw new Error("Unexpected embeddings response format.");
-  }
-
-  return { embedding, tokens };
-}
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+// Retrieval runs offline when Day 9 used EMBEDDER=ngram|tfidf; only the answer needs the key (or a replayed cassette)
+const canAnswer = Boolean(OPENAI_API_KEY) || cassette.mode === "replay";
+
+// The embedder Day 9 built the store with (same EMBEDDER env, same fitted TF-IDF vocabulary).
+// Replaying an OpenAI-embedded store without a key needs EMBEDDER=openai (the default is ngram then).
+const embedder = embedderFromEnv({
+  tfidfStatePath: path.join(__dirname, "..", "day09_ingestion_pipeline", "day09_tfidf_state.json"),
+  apiKey: OPENAI_API_KEY ?? (cassette.mode === "replay" ? "replay" : undefined), // replay never sends it
+  fetchImpl: cassette.fetch,
+});
 
 async function callChatCompletion(
   question: string,
   context: string
 ): Promise<{ answer: string; promptTokens: number; completionTokens: number; totalTokens: number }> {
-  const res = await fetch("https://api.openai.com/v1/chat/completions", {
+  const res = await cassette.fetch("https://api.openai.com/v1/chat/completions", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
       Authorization: `Bearer ${OPENAI_API_KEY}`,
     },
     body: JSON.stringify({
-      model: "gpt-4o-mini",
+      model: CHAT_MODEL,
       messages: [
         {
           role: "system",
@@ -157,11 +148,13 @@ async function runRagWithMetrics(
 
   const raw = fs.readFileSync(storePath, "utf-8");
   const store: LocalVectorStore = JSON.parse(raw);
+  // Scores against another model's vectors would be meaningless, so a mismatched store is refused
+  assertCompatible(store, { model: embedder.model, dimensions: embedder.dimensions });
 
   const t0 = Date.now();
 
   const tEmbedStart = Date.now();
-  const { embedding: queryEmbedding, tokens: embeddingTokens } = await embedText(question);
+  const queryEmbedding = await embedder.embedQuery(question);
   const tEmbedEnd = Date.now();
 
   const tRetrievalStart = Date.now();
@@ -190,11 +183,27 @@ async function runRagWithMetrics(
     promptTokens,
     completionTokens,
     totalTokens,
-  } = await callChatCompletion(question, context);
+  } = canAnswer
+    ? await callChatCompletion(question, context)
+    : { answer: "(skipped: OPENAI_API_KEY is not set)", promptTokens: 0, completionTokens: 0, totalTokens: 0 };
   const tLlmEnd = Date.now();
 
   const t1 = Date.now();
 
+  // Cost from the API usage blocks (tokenizer estimate if a usage block is missing)
+  const pricing = getCostCalculator();
+  // Embedders return no usage block: OpenAI embedding tokens are estimated, local embedders are free
+  const embedCost =
+    embedder instanceof OpenAIEmbedder ? pricing.costOf(embedder.model, { input: question }) : { inputTokens: 0, totalUsd: 0, estimated: false };
+  const embeddingTokens = embedCost.inputTokens;
+  const chatCost = canAnswer
+    ? pricing.costOf(CHAT_MODEL, {
+        usage: { inputTokens: promptTokens, outputTokens: completionTokens },
+        input: `${question}\n\n${context}`,
+        output: answer,
+      })
+    : { totalUsd: 0, estimated: false };
+
   const metrics: RagMetrics = {
     question,
     timestamp: new Date().toISOString(),
@@ -210,6 +219,12 @@ async function runRagWithMetrics(
       completionTokens,
       totalTokens,
     },
+    cost: {
+      embeddingUsd: embedCost.totalUsd,
+      chatUsd: chatCost.totalUsd,
+      totalUsd: embedCost.totalUsd + chatCost.totalUsd,
+      estimated: embedCost.estimated || chatCost.estimated,
+    },
     retrieval: {
       k,
       chosenChunkIds,
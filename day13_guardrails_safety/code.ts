@@ -2,12 +2,22 @@
 import "dotenv/config";
 import * as fs from "fs";
 import * as path from "path";
+import { fileURLToPath } from "url";
+import { createTemplate } from "../day04_prompt_engineering/templates.js";
+import { embedderFromEnv } from "../day06_embeddings/embedders.js";
+import { assertCompatible } from "../day09_ingestion_pipeline/vector_store.js";
+import { cosineSimilarity } from "../day10_similarity_search/vector_math.js";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
 
 interface LocalVectorRecord {
   id: string;
   text: string;
   metadata: any;
   embedding: number[];
+  embeddingModel?: string;
+  embeddingDimensions?: number;
 }
 
 interface LocalVectorStore {
@@ -16,15 +26,12 @@ interface LocalVectorStore {
 }
 
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-if (!OPENAI_API_KEY) throw new Error("Missing OPENAI_API_KEY");
-
-/** Cosine similarity */
-function cosineSimilarity(a: number[], b: number[]) {
-  const dot = a.reduce((s, ai, i) => s + ai * (b[i] ?? 0), 0);
-  const magA = Math.sqrt(a.reduce((s, ai) => s + ai * ai, 0));
-  const magB = Math.sqrt(b.reduce((s, bi) => s + bi * bi, 0));
-  return !magA || !magB ? 0 : dot / (magA * magB);
-}
+
+// The embedder Day 9 built the store with (same EMBEDDER env, same fitted TF-IDF vocabulary);
+// with EMBEDDER=ngram|tfidf retrieval and the confidence check run without a key
+const embedder = embedderFromEnv({
+  tfidfStatePath: path.join(__dirname, "..", "day09_ingestion_pipeline", "day09_tfidf_state.json"),
+});
 
 /** Input guardrails */
 function validateQuestion(q: string) {
@@ -37,27 +44,20 @@ function validateQuestion(q: string) {
   return { valid: true };
 }
 
-/** Embed text */
-async function embed(text: string): Promise<number[]> {
-  const res = await fetch("https://api.openai.com/v1/embeddings", {
-    method: "POST",
-    headers: { "Content-Type": "application/json", Authorization: `Bearer ${OPENAI_API_KEY}` },
-    body: JSON.stringify({ model: "text-embedding-3-small", input: text })
-  });
-  const json = await res.json();
-  return json.data[0].embedding;
-}
-
-/** Ask LLM with instruction anchoring */
-async function ask(question: string, context: string): Promise<string> {
-  const system = `
+const anchoredSystemPrompt = createTemplate(
+  `
 You MUST follow these instructions:
 - Use ONLY the provided context.
 - If answer is not in the context, say "I don't know."
 - Never create URLs or facts.
 - Always cite chunk ids using [chunk:id].
-`;
+`,
+  { name: "day13_anchored_system" }
+);
+const groundedUserPrompt = createTemplate("Context:\n{{context}}\n\nQuestion: {{question}}", { name: "day13_grounded_user" });
 
+/** Ask LLM with instruction anchoring */
+async function ask(question: string, context: string): Promise<string> {
   const res = await fetch("https://api.openai.com/v1/chat/completions", {
     method: "POST",
     headers: { "Content-Type": "application/json", Authorization: `Bearer ${OPENAI_API_KEY}` },
@@ -65,8 +65,8 @@ You MUST follow these instructions:
       model: "gpt-4o-mini",
       temperature: 0,
       messages: [
-        { role: "system", content: system },
-        { role: "user", content: `Context:\n${context}\n\nQuestion: ${question}` }
+        { role: "system", content: anchoredSystemPrompt.render({}) },
+        { role: "user", content: groundedUserPrompt.render({ context, question }) }
       ]
     })
   });
@@ -93,8 +93,10 @@ async function main() {
 
   const storePath = path.join(__dirname, "..", "day09_ingestion_pipeline", "day09_local_ingestion_store.json");
   const store: LocalVectorStore = JSON.parse(fs.readFileSync(storePath, "utf-8"));
+  // Scores against another model's vectors would be meaningless, so a mismatched store is refused
+  assertCompatible(store, { model: embedder.model, dimensions: embedder.dimensions });
 
-  const qEmbed = await embed(question);
+  const qEmbed = await embedder.embedQuery(question);
 
   const scored = store.records.map(r => ({
     rec: r,
@@ -110,6 +112,10 @@ async function main() {
   }
 
   const context = top3.map(x => `[chunk:${x.rec.id}] ${x.rec.text.replace(/\s+/g, " ")}`).join("\n\n");
+  if (!OPENAI_API_KEY) {
+    console.log("OPENAI_API_KEY is not set: retrieval passed the guardrails offline, skipping the model answer.");
+    return;
+  }
   let answer = await ask(question, context);
   answer = sanitize(answer);
 
@@ -2,9 +2,13 @@
 import "dotenv/config";
 import * as fs from "fs";
 import * as path from "path";
+import { cassetteFromEnv } from "../day05_inferencing/cassette.js";
+
+// CASSETTE_MODE=record saves every API call; CASSETTE_MODE=replay re-runs offline from the cassette
+const cassette = cassetteFromEnv("day15_structured_tool_calling");
 
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-if (!OPENAI_API_KEY) {
+if (!OPENAI_API_KEY && cassette.mode !== "replay") {
   console.error("❌ OPENAI_API_KEY is not set. Add it to your .env file.");
   process.exit(1);
 }
@@ -138,7 +142,7 @@ async function callOpenAiWithTools(
   messages: ChatMessage[],
   toolChoice: "auto" | "none"
 ): Promise<any> {
-  const res = await fetch("https://api.openai.com/v1/chat/completions", {
+  const res = await cassette.fetch("https://api.openai.com/v1/chat/completions", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
@@ -1,6 +1,8 @@
 import "dotenv/config";
 import * as fs from "fs";
 import * as path from "path";
+import { fitToContextWithSummary } from "../day03_llm_mind/context_window.js";
+import { cosineSimilarity as cosine } from "../day10_similarity_search/vector_math.js";
 
 /**
  * Day 18 — Agent Memory (Vanilla TypeScript)
@@ -10,7 +12,7 @@ import * as path from "path";
  * - Task memory (goal/preferences/summaries per task)
  * - Vector memory (embeddings + similarity recall)
  * - Memory routing (choose which memory to retrieve)
- * - Context pruning (keep recent messages, summarize older into task memory)
+ * - Context pruning (token-budgeted window, summarize evicted turns into task memory)
  *
  * Notes:
  * - Uses OpenAI HTTP API via fetch (no OpenAI SDK dependency).
@@ -49,19 +51,6 @@ ensureFile(files.episodes, { episodes: [] });
 ensureFile(files.task, { tasks: {} });
 ensureFile(files.vectors, { vectors: [] });
 
-// --------- Math helpers ----------
-function cosine(a: number[], b: number[]) {
-  let dot = 0;
-  let na = 0;
-  let nb = 0;
-  for (let i = 0; i < a.length; i++) {
-    dot += a[i] * b[i];
-    na += a[i] * a[i];
-    nb += b[i] * b[i];
-  }
-  return dot / (Math.sqrt(na) * Math.sqrt(nb));
-}
-
 // --------- OpenAI helpers ----------
 async function openAiChat(messages: ChatMessage[], temperature = 0) {
   const res = await fetch("https://api.openai.com/v1/chat/completions", {
@@ -109,7 +98,9 @@ async function openAiEmbed(text: string) {
 // --------- Memory Manager ----------
 class MemoryManager {
   shortTerm: ChatMessage[] = []; // in-memory buffer
-  maxShortTerm = 8; // pruning threshold (keep last N messages)
+  summaryNote = ""; // system note standing in for evicted turns (its room is reserved in the budget)
+  contextWindow = 1200; // token budget for short-term messages (prompt + output)
+  maxOutputTokens = 400; // reserved for the model's answer
   taskId: string;
 
   constructor(taskId: string) {
@@ -187,40 +178,45 @@ class MemoryManager {
 
   // --------- Context pruning ----------
   async pruneIfNeeded() {
-    if (this.shortTerm.length <= this.maxShortTerm) return;
-
-    // overflow = old messages to compress
-    const overflow = this.shortTerm.slice(0, this.shortTerm.length - this.maxShortTerm);
-    const keep = this.shortTerm.slice(-this.maxShortTerm);
-
     const existing = this.readTaskMemory()?.summary || "";
 
-    const prompt: ChatMessage[] = [
-      {
-        role: "system",
-        content:
-          "You summarize conversation history into a compact running summary for an AI agent. " +
-          "Keep it short, factual, and include decisions, preferences, and goals.",
+    // Evict the oldest turns that don't fit the token budget and summarize them (overflow = evicted)
+    const fitted = await fitToContextWithSummary(this.shortTerm, {
+      contextWindow: this.contextWindow,
+      maxTokens: this.maxOutputTokens,
+      overflow: "truncate", // one huge message is cut to its tail instead of throwing
+      summarize: async (overflow) => {
+        const prompt: ChatMessage[] = [
+          {
+            role: "system",
+            content:
+              "You summarize conversation history into a compact running summary for an AI agent. " +
+              "Keep it short, factual, and include decisions, preferences, and goals.",
+          },
+          {
+            role: "user",
+            content:
+              `Existing summary:\n${existing}\n\n` +
+              `New messages:\n${overflow.map(m => `${m.role}: ${m.content}`).join("\n")}\n\n` +
+              "Return an updated running summary.",
+          },
+        ];
+
+        this.addEpisode({ type: "SUMMARY_CREATED", detail: { overflowMessages: overflow.length } });
+        const out = await openAiChat(prompt, 0);
+        return out.choices[0].message.content as string;
       },
-      {
-        role: "user",
-        content:
-          `Existing summary:\n${existing}\n\n` +
-          `New messages:\n${overflow.map(m => `${m.role}: ${m.content}`).join("\n")}\n\n` +
-          "Return an updated running summary.",
-      },
-    ];
-
-    this.addEpisode({ type: "SUMMARY_CREATED", detail: { overflowMessages: overflow.length } });
-    const out = await openAiChat(prompt, 0);
-    const summary = out.choices[0].message.content as string;
+    });
+    // Keep only the turns that fit the budget (a cut-down latest message included)
+    this.shortTerm = fitted.kept;
+    if (!fitted.summary) return;
+    // The only system message in the fitted window is the summary note
+    this.summaryNote = fitted.messages.find((m) => m.role === "system")?.content ?? "";
 
     // Write summary into task memory and vector memory
-    this.writeTaskSummary(summary);
-    await this.writeVector(summary, "task_summary");
-
-    // Keep only the latest N messages
-    this.shortTerm = keep;
+    // Persist the whole summary; `summary` is only the part that fit in the prompt note
+    this.writeTaskSummary(fitted.fullSummary ?? fitted.summary);
+    await this.writeVector(fitted.fullSummary ?? fitted.summary, "task_summary");
   }
 
   // --------- Memory routing ----------
@@ -284,7 +280,7 @@ async function agentAnswer(taskId: string, userQuery: string) {
 
   // Final prompt uses ONLY:
   // - routed memory (one slice)
-  // - recent short-term messages (pruned window)
+  // - recent short-term messages (pruned window), after the summary note for the evicted turns
   const messages: ChatMessage[] = [
     {
       role: "system",
@@ -293,6 +289,7 @@ async function agentAnswer(taskId: string, userQuery: string) {
         `Tone: ${task.preferences.tone}. Format: ${task.preferences.format}.`,
     },
     ...(routed.memoryText ? [{ role: "system" as const, content: `Relevant memory:\n${routed.memoryText}` }] : []),
+    ...(mem.summaryNote ? [{ role: "system" as const, content: mem.summaryNote }] : []),
     ...mem.shortTerm,
   ];
 
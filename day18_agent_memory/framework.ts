@@ -2,6 +2,7 @@ import "dotenv/config";
 import * as fs from "fs";
 import * as path from "path";
 import { ChatOpenAI, OpenAIEmbeddings } from "@langchain/openai";
+import { fitToContextWithSummary } from "../day03_llm_mind/context_window.js";
 
 /**
  * Day 18 — Agent Memory (Framework version with LangChain wrappers)
@@ -46,7 +47,9 @@ function cosine(a: number[], b: number[]) {
 
 class MemoryManager {
   shortTerm: ChatMessage[] = [];
-  maxShortTerm = 8;
+  summaryNote = ""; // stands in for evicted turns; its room is reserved in the budget
+  contextWindow = 1200;
+  maxOutputTokens = 400;
   taskId: string;
 
   constructor(taskId: string) {
@@ -109,32 +112,35 @@ class MemoryManager {
   }
 
   async pruneIfNeeded() {
-    if (this.shortTerm.length <= this.maxShortTerm) return;
-
-    const overflow = this.shortTerm.slice(0, this.shortTerm.length - this.maxShortTerm);
-    const keep = this.shortTerm.slice(-this.maxShortTerm);
-
     const existing = this.readTask().summary || "";
 
-    const prompt = [
-      {
-        role: "user" as const,
-        content:
-          `Existing summary:\n${existing}\n\n` +
-          `New messages:\n${overflow.map(m => `${m.role}: ${m.content}`).join("\n")}\n\n` +
-          "Create an updated running summary. Keep it short, factual, and include preferences/goals.",
+    const fitted = await fitToContextWithSummary(this.shortTerm, {
+      contextWindow: this.contextWindow,
+      maxTokens: this.maxOutputTokens,
+      overflow: "truncate", // one huge message is cut to its tail instead of throwing
+      summarize: async (overflow) => {
+        const prompt = [
+          {
+            role: "user" as const,
+            content:
+              `Existing summary:\n${existing}\n\n` +
+              `New messages:\n${overflow.map(m => `${m.role}: ${m.content}`).join("\n")}\n\n` +
+              "Create an updated running summary. Keep it short, factual, and include preferences/goals.",
+          },
+        ];
+
+        this.addEpisode("SUMMARY_CREATED", { overflowMessages: overflow.length });
+        const out = await llm.invoke(prompt);
+        return String(out.content);
       },
-    ];
-
-    this.addEpisode("SUMMARY_CREATED", { overflowMessages: overflow.length });
-
-    const out = await llm.invoke(prompt);
-    const summary = String(out.content);
-
-    this.writeTaskSummary(summary);
-    await this.writeVector(summary, "task_summary");
-
-    this.shortTerm = keep;
+    });
+    this.shortTerm = fitted.kept;
+    if (!fitted.summary) return;
+    this.summaryNote = fitted.messages.find((m) => m.role === "system")?.content ?? "";
+
+    // Persist the whole summary; `summary` is only the part that fit in the prompt note
+    this.writeTaskSummary(fitted.fullSummary ?? fitted.summary);
+    await this.writeVector(fitted.fullSummary ?? fitted.summary, "task_summary");
   }
 
   async routeMemory(userQuery: string) {
@@ -182,6 +188,7 @@ async function agentAnswer(taskId: string, userQuery: string) {
         `You are a helpful assistant for beginners.\n` +
         `Tone: ${task.preferences.tone}. Format: ${task.preferences.format}.\n\n` +
         (routed.memoryText ? `Relevant memory:\n${routed.memoryText}\n\n` : "") +
+        (mem.summaryNote ? `${mem.summaryNote}\n\n` : "") +
         `Recent context:\n${mem.shortTerm.map(m => `${m.role}: ${m.content}`).join("\n")}\n\n` +
         "Answer the user clearly.",
     },
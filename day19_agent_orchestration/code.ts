@@ -1,6 +1,9 @@
 import "dotenv/config";
 import * as fs from "fs";
 import * as path from "path";
+import * as z from "zod";
+import { createTemplate } from "../day04_prompt_engineering/templates.js";
+import { generateStructured, type StructuredMessage } from "../day04_prompt_engineering/structured_output.js";
 
 /**
  * Day 19 — Agent Orchestration (Vanilla TypeScript)
@@ -139,11 +142,12 @@ class DagRunner {
   }
 }
 
-async function openAiChat(prompt: string) {
+async function openAiChat(prompt: string | StructuredMessage[]) {
+  const messages = typeof prompt === "string" ? [{ role: "user", content: prompt }] : prompt;
   const res = await fetch("https://api.openai.com/v1/chat/completions", {
     method: "POST",
     headers: { "Content-Type": "application/json", Authorization: `Bearer ${OPENAI_API_KEY}` },
-    body: JSON.stringify({ model: "gpt-4o-mini", temperature: 0, messages: [{ role: "user", content: prompt }] }),
+    body: JSON.stringify({ model: "gpt-4o-mini", temperature: 0, messages }),
   });
   if (!res.ok) throw new Error(await res.text());
   const json = await res.json();
@@ -177,17 +181,29 @@ const retrieve: NodeDef = {
   },
 };
 
+const answerPrompt = createTemplate(
+  "You are a helpful AI assistant for beginners.\n" +
+    "Question: {{question}}\n\n" +
+    "{{#if context}}Context:\n- {{context}}\n\n{{/if}}" +
+    "Give a clear answer. If context is provided, ground your answer in it.",
+  { name: "day19_answer" }
+);
+
+const evaluatePrompt = createTemplate(
+  "Evaluate the answer for helpfulness and whether it addressed the question.\n" +
+    "Return JSON with keys: ok(boolean), reason(string).\n\n" +
+    "Question: {{question}}\n\nAnswer:\n{{answer}}",
+  { name: "day19_evaluate" }
+);
+
+const EvaluationSchema = z.object({ ok: z.boolean(), reason: z.string() });
+
 const answer: NodeDef = {
   name: "answer",
   retries: 1,
   timeoutMs: 25_000,
   run: async (state) => {
-    const ctx = state.retrievedChunks?.length ? `Context:\n- ${state.retrievedChunks.join("\n- ")}\n\n` : "";
-    const prompt =
-      `You are a helpful AI assistant for beginners.\n` +
-      `Question: ${state.question}\n\n` +
-      ctx +
-      `Give a clear answer. If context is provided, ground your answer in it.`;
+    const prompt = answerPrompt.render({ question: state.question, context: state.retrievedChunks?.join("\n- ") });
 
     const draftAnswer = await openAiChat(prompt);
     return { draftAnswer };
@@ -199,18 +215,15 @@ const evaluate: NodeDef = {
   retries: 1,
   timeoutMs: 25_000,
   run: async (state) => {
-    const prompt =
-      `Evaluate the answer for helpfulness and whether it addressed the question.\n` +
-      `Return JSON with keys: ok(boolean), reason(string).\n\n` +
-      `Question: ${state.question}\n\nAnswer:\n${state.draftAnswer}`;
+    const prompt = evaluatePrompt.render({ question: state.question, answer: state.draftAnswer ?? "" });
 
-    const raw = await openAiChat(prompt);
-    try {
-      const j = JSON.parse(raw);
-      return { evaluation: { ok: !!j.ok, reason: String(j.reason ?? "") } };
-    } catch {
-      return { evaluation: { ok: false, reason: "Could not parse evaluation JSON." } };
-    }
+    // Validate against the schema; invalid JSON is sent back to the model with the errors
+    const result = await generateStructured({
+      schema: EvaluationSchema,
+      messages: [{ role: "user", content: prompt }],
+      call: openAiChat,
+    });
+    return { evaluation: result.ok ? result.value : { ok: false, reason: result.error } };
   },
 };
 
@@ -2,6 +2,13 @@ import "dotenv/config";
 import * as fs from "fs";
 import * as path from "path";
 import { performance } from "perf_hooks";
+import * as z from "zod";
+import { estimateTokens } from "../day03_llm_mind/tokenizer.js";
+import { createTemplate } from "../day04_prompt_engineering/templates.js";
+import { generateStructured } from "../day04_prompt_engineering/structured_output.js";
+import { MockProvider } from "../day05_inferencing/mock_provider.js";
+import { getCostCalculator } from "../day05_inferencing/pricing.js";
+import { configFromEnv, createProvider, type ChatMessage } from "../day05_inferencing/providers.js";
 
 const OPENAI_API_KEY = process.env.OPENAI_API_KEY ?? "";
 const MOCK_LLM = (process.env.MOCK_LLM ?? "").toLowerCase() === "true";
@@ -12,8 +19,6 @@ if (!MOCK_LLM && !OPENAI_API_KEY) {
 }
 
 type Route = "direct" | "rag";
-type Role = "system" | "user" | "assistant";
-type ChatMessage = { role: Role; content: string };
 
 type State = {
   question: string;
@@ -55,26 +60,21 @@ class Tracer {
   }
 }
 
-function estimateTokens(text: string) {
-  return Math.ceil(text.length / 4);
-}
 function estimateCostUSD(inputTokens: number, outputTokens: number) {
-  const PRICE_IN_PER_1K = 0.0005;  // placeholder
-  const PRICE_OUT_PER_1K = 0.0015; // placeholder
-  return (inputTokens / 1000) * PRICE_IN_PER_1K + (outputTokens / 1000) * PRICE_OUT_PER_1K;
+  return getCostCalculator().cost(provider.model, { inputTokens, outputTokens }).totalUsd;
 }
 
-async function openAiChat(messages: ChatMessage[]) {
-  if (MOCK_LLM) return `MOCK_ANSWER: ${messages[messages.length - 1].content.slice(0, 60)}...`;
+// MOCK_LLM=true swaps in a scripted offline provider: the judge gets valid JSON, everything else is echoed
+const provider = MOCK_LLM
+  ? new MockProvider({
+      model: "gpt-4o-mini",
+      rules: [{ match: /Return STRICT JSON only/, reply: JSON.stringify({ ok: true, score: 0.9, notes: "MOCK eval: ok." }) }],
+    })
+  : createProvider(configFromEnv("openai", { apiKey: OPENAI_API_KEY }));
 
-  const res = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: { "Content-Type": "application/json", Authorization: `Bearer ${OPENAI_API_KEY}` },
-    body: JSON.stringify({ model: "gpt-4o-mini", temperature: 0, messages }),
-  });
-  if (!res.ok) throw new Error(await res.text());
-  const json = await res.json();
-  return json.choices[0].message.content as string;
+async function openAiChat(messages: ChatMessage[]) {
+  const res = await provider.chat({ messages, temperature: 0 });
+  return res.text;
 }
 
 async function stepClassify(state: State, tracer: Tracer) {
@@ -106,17 +106,37 @@ async function stepRetrieve(state: State, tracer: Tracer) {
   return { context };
 }
 
+const answerPrompt = createTemplate(
+  "You are a helpful assistant for beginners. Be clear and concise. " +
+    "If context is provided, use it and avoid making up facts.\n\n" +
+    "Question: {{question}}\n\n" +
+    "{{#if context}}Context:\n{{context}}\n\n{{/if}}" +
+    "Answer:",
+  { name: "day20_answer" }
+);
+
+const judgePrompt = createTemplate(
+  "Return STRICT JSON only: {\"ok\":boolean,\"score\":number (0-1),\"notes\":string}\n\n" +
+    "Question: {{question}}\n\n" +
+    "{{#if context}}Context:\n{{context}}\n\n{{/if}}" +
+    "Answer:\n{{answer}}\n\n" +
+    "Criteria: beginner-friendly; grounded if context exists; no fake citations.",
+  { name: "day20_judge" }
+);
+
+const JudgeSchema = z.object({
+  ok: z.boolean(),
+  score: z.number().min(0).max(1),
+  notes: z.string(),
+});
+
 async function stepAnswer(state: State, tracer: Tracer) {
   const sp = tracer.startSpan("answer", { route: state.route });
 
-  const system =
-    "You are a helpful assistant for beginners. Be clear and concise. " +
-    "If context is provided, use it and avoid making up facts.";
-
-  const prompt =
-    state.route === "rag"
-      ? `${system}\n\nQuestion: ${state.question}\n\nContext:\n${state.context}\n\nAnswer:`
-      : `${system}\n\nQuestion: ${state.question}\n\nAnswer:`;
+  const prompt = answerPrompt.render({
+    question: state.question,
+    context: state.route === "rag" ? state.context : undefined,
+  });
 
   const inTok = estimateTokens(prompt);
   const answer = await openAiChat([{ role: "user", content: prompt }]);
@@ -128,33 +148,23 @@ async function stepAnswer(state: State, tracer: Tracer) {
 }
 
 async function stepEvaluate(state: State, tracer: Tracer) {
-  const sp = tracer.startSpan("evaluate", { method: MOCK_LLM ? "mock" : "llm-judge" });
+  const sp = tracer.startSpan("evaluate", { method: "llm-judge", provider: provider.name });
 
-  if (MOCK_LLM) {
-    tracer.endSpan(sp, { ok: true, score: 0.9 });
-    return { eval: { ok: true, score: 0.9, notes: "MOCK eval: ok." } };
-  }
+  const prompt = judgePrompt.render({ question: state.question, context: state.context, answer: state.answer ?? "" });
+
+  const result = await generateStructured({
+    schema: JudgeSchema,
+    messages: [{ role: "user", content: prompt }],
+    call: openAiChat,
+  });
 
-  const prompt =
-    "Return STRICT JSON only: {\"ok\":boolean,\"score\":number,\"notes\":string}\n\n" +
-    `Question: ${state.question}\n\n` +
-    (state.context ? `Context:\n${state.context}\n\n` : "") +
-    `Answer:\n${state.answer}\n\n` +
-    "Criteria: beginner-friendly; grounded if context exists; no fake citations.";
-
-  const raw = await openAiChat([{ role: "user", content: prompt }]);
-
-  try {
-    const j = JSON.parse(raw);
-    const ok = Boolean(j.ok);
-    const score = Number(j.score);
-    const notes = String(j.notes ?? "");
-    tracer.endSpan(sp, { ok, score });
-    return { eval: { ok, score, notes } };
-  } catch {
-    tracer.endSpan(sp, { ok: false, score: 0, parseError: true });
-    return { eval: { ok: false, score: 0, notes: "Eval JSON parse failed." } };
+  if (!result.ok) {
+    tracer.endSpan(sp, { ok: false, score: 0, parseError: true, attempts: result.attempts.length });
+    return { eval: { ok: false, score: 0, notes: result.error } };
   }
+  const { ok, score, notes } = result.value;
+  tracer.endSpan(sp, { ok, score, attempts: result.attempts.length });
+  return { eval: { ok, score, notes } };
 }
 
 async function runPipeline(question: string) {
@@ -217,6 +227,7 @@ async function runTests() {
   }
 
   console.log(`\n✅ Tests passed: ${pass}/${tests.length}`);
+  if (provider instanceof MockProvider) console.log(`🧾 Mock provider recorded ${provider.chatCalls().length} chat calls`);
 }
 
 (async () => {
@@ -3,6 +3,11 @@ import * as fs from "fs";
 import * as path from "path";
 import { performance } from "perf_hooks";
 import { ChatOpenAI } from "@langchain/openai";
+import * as z from "zod";
+import { estimateTokens } from "../day03_llm_mind/tokenizer.js";
+import { createTemplate } from "../day04_prompt_engineering/templates.js";
+import { generateStructured } from "../day04_prompt_engineering/structured_output.js";
+import { getCostCalculator } from "../day05_inferencing/pricing.js";
 
 /**
  * Day 20 — Testing, Tracing & Observability (LangChain framework)
@@ -19,7 +24,8 @@ import { ChatOpenAI } from "@langchain/openai";
 
 const MOCK_LLM = (process.env.MOCK_LLM ?? "").toLowerCase() === "true";
 
-const llm = new ChatOpenAI({ modelName: "gpt-4o-mini", temperature: 0 });
+const MODEL_NAME = "gpt-4o-mini";
+const llm = new ChatOpenAI({ modelName: MODEL_NAME, temperature: 0 });
 
 type Route = "direct" | "rag";
 type State = {
@@ -50,12 +56,8 @@ class Tracer {
   }
 }
 
-function estimateTokens(text: string) {
-  return Math.ceil(text.length / 4);
-}
 function estimateCostUSD(inputTokens: number, outputTokens: number) {
-  const IN = 0.0005, OUT = 0.0015; // placeholders
-  return (inputTokens / 1000) * IN + (outputTokens / 1000) * OUT;
+  return getCostCalculator().cost(MODEL_NAME, { inputTokens, outputTokens }).totalUsd;
 }
 
 async function llmCall(prompt: string) {
@@ -91,17 +93,37 @@ async function retrieve(state: State, tracer: Tracer) {
   return { context };
 }
 
+const answerPrompt = createTemplate(
+  "You are a helpful assistant for beginners. Be clear and concise. " +
+    "If context is provided, use it and avoid making up facts.\n\n" +
+    "Question: {{question}}\n\n" +
+    "{{#if context}}Context:\n{{context}}\n\n{{/if}}" +
+    "Answer:",
+  { name: "day20_answer" }
+);
+
+const judgePrompt = createTemplate(
+  "Return STRICT JSON only: {\"ok\":boolean,\"score\":number (0-1),\"notes\":string}\n\n" +
+    "Question: {{question}}\n\n" +
+    "{{#if context}}Context:\n{{context}}\n\n{{/if}}" +
+    "Answer:\n{{answer}}\n\n" +
+    "Criteria: beginner-friendly; grounded if context exists; no fake citations.",
+  { name: "day20_judge" }
+);
+
+const JudgeSchema = z.object({
+  ok: z.boolean(),
+  score: z.number().min(0).max(1),
+  notes: z.string(),
+});
+
 async function answer(state: State, tracer: Tracer) {
   const sp = tracer.start("answer", { route: state.route });
 
-  const system =
-    "You are a helpful assistant for beginners. Be clear and concise. " +
-    "If context is provided, use it and avoid making up facts.";
-
-  const prompt =
-    state.route === "rag"
-      ? `${system}\n\nQuestion: ${state.question}\n\nContext:\n${state.context}\n\nAnswer:`
-      : `${system}\n\nQuestion: ${state.question}\n\nAnswer:`;
+  const prompt = answerPrompt.render({
+    question: state.question,
+    context: state.route === "rag" ? state.context : undefined,
+  });
 
   const inTok = estimateTokens(prompt);
   const out = await llmCall(prompt);
@@ -119,25 +141,21 @@ async function evaluate(state: State, tracer: Tracer) {
     return { eval: { ok: true, score: 0.9, notes: "MOCK eval: ok." } };
   }
 
-  const prompt =
-    "Return STRICT JSON only: {\"ok\":boolean,\"score\":number,\"notes\":string}\n\n" +
-    `Question: ${state.question}\n\n` +
-    (state.context ? `Context:\n${state.context}\n\n` : "") +
-    `Answer:\n${state.answer}\n\n` +
-    "Criteria: beginner-friendly; grounded if context exists; no fake citations.";
-
-  const raw = await llmCall(prompt);
-  try {
-    const j = JSON.parse(raw);
-    const ok = Boolean(j.ok);
-    const score = Number(j.score);
-    const notes = String(j.notes ?? "");
-    tracer.end(sp, { ok, score });
-    return { eval: { ok, score, notes } };
-  } catch {
-    tracer.end(sp, { ok: false, score: 0, parseError: true });
-    return { eval: { ok: false, score: 0, notes: "Eval JSON parse failed." } };
+  const prompt = judgePrompt.render({ question: state.question, context: state.context, answer: state.answer ?? "" });
+
+  const result = await generateStructured({
+    schema: JudgeSchema,
+    messages: [{ role: "user", content: prompt }],
+    call: async (messages) => String((await llm.invoke(messages)).content),
+  });
+
+  if (!result.ok) {
+    tracer.end(sp, { ok: false, score: 0, parseError: true, attempts: result.attempts.length });
+    return { eval: { ok: false, score: 0, notes: result.error } };
   }
+  const { ok, score, notes } = result.value;
+  tracer.end(sp, { ok, score, attempts: result.attempts.length });
+  return { eval: { ok, score, notes } };
 }
 
 async function runPipeline(question: string) {
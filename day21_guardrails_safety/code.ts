@@ -1,4 +1,7 @@
 import "dotenv/config";
+import { FallbackRouter } from "../day05_inferencing/fallback_router.js";
+import { MockProvider } from "../day05_inferencing/mock_provider.js";
+import { configFromEnv, createProvider } from "../day05_inferencing/providers.js";
 
 /**
  * Day 21 — Guardrails (Vanilla TypeScript) — Expanded
@@ -8,11 +11,10 @@ import "dotenv/config";
  * - Input guardrails (injection, secret exfiltration, tool abuse)
  * - Output guardrails (unsafe advice, schema validation, fake citations hint)
  * - Policy enforcement (business rules)
- * - Reliability patterns (timeout + retry + fallback)
+ * - Reliability patterns (timeout + retry + provider failover with circuit breakers)
  * - Human-in-the-loop escalation (HITL)
  */
 
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY ?? "";
 const MOCK_LLM = (process.env.MOCK_LLM ?? "").toLowerCase() === "true";
 
 // -------------------- Types --------------------
@@ -186,24 +188,33 @@ async function tool_createTicket(summary: string) {
 }
 
 // -------------------- LLM Call (Vanilla Fetch) --------------------
+// Failover: OpenAI first, then Anthropic (if configured). Each provider has its own
+// timeout + circuit breaker, and every attempt is logged with why it fell through.
+const llmRouter = (() => {
+  const providers = (["openai", "anthropic"] as const).map((kind) => configFromEnv(kind)).filter((cfg) => cfg.apiKey);
+  return providers.length
+    ? new FallbackRouter(providers.map((cfg) => ({ provider: createProvider(cfg), timeoutMs: 20_000 })))
+    : null;
+})();
+
+// MOCK_LLM=true: scripted offline provider (no network, no API key)
+const mockLLM = new MockProvider({
+  rules: [
+    {
+      match: /Question: Explain chunking/i,
+      reply: "Chunking splits documents into smaller pieces; metadata keeps each chunk traceable and filterable.",
+    },
+    { reply: (req) => `MOCK_OUTPUT: ${req.messages[req.messages.length - 1].content.slice(0, 80)}...` },
+  ],
+  latencyMs: 20,
+});
+
 async function callLLM(prompt: string) {
-  if (MOCK_LLM) return `MOCK_OUTPUT: ${prompt.slice(0, 80)}...`;
-
-  if (!OPENAI_API_KEY) throw new Error("Missing OPENAI_API_KEY");
-
-  const res = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: { "Content-Type": "application/json", Authorization: `Bearer ${OPENAI_API_KEY}` },
-    body: JSON.stringify({
-      model: "gpt-4o-mini",
-      temperature: 0,
-      messages: [{ role: "user", content: prompt }],
-    }),
-  });
+  const llm = MOCK_LLM ? mockLLM : llmRouter;
+  if (!llm) throw new Error("Missing OPENAI_API_KEY (or ANTHROPIC_API_KEY)");
 
-  if (!res.ok) throw new Error(await res.text());
-  const json = await res.json();
-  return json.choices[0].message.content as string;
+  const res = await llm.chat({ messages: [{ role: "user", content: prompt }], temperature: 0 });
+  return res.text;
 }
 
 // -------------------- Agent Pipeline --------------------
@@ -1,6 +1,7 @@
 import "dotenv/config";
 import { ChatOpenAI } from "@langchain/openai";
 import * as z from "zod";
+import { generateStructured } from "../day04_prompt_engineering/structured_output.js";
 
 /**
  * Day 21 — Guardrails (Framework) — Expanded
@@ -100,19 +101,24 @@ const StructuredAnswer = z.object({
   reason: z.string().optional(),
 });
 
-async function callStructuredLLM(question: string, context?: string): Promise<string> {
-  if (MOCK_LLM) {
-    return JSON.stringify({ answer: "MOCK answer", confidence: 0.8, needsHumanReview: false });
-  }
-
+async function callStructuredLLM(question: string, context?: string) {
   const prompt =
     "Return STRICT JSON matching this schema:\n" +
     '{ "answer": string, "confidence": number(0-1), "needsHumanReview": boolean, "reason"?: string }\n\n' +
     (context ? `Context:\n${context}\n\n` : "") +
     `Question: ${question}\n`;
 
-  const msg = await llm.invoke([{ role: "user", content: prompt }]);
-  return String(msg.content);
+  // Extract + validate; on schema errors the model gets the errors back and retries.
+  // Timeout + retry wrap each model call, so every repair attempt gets its own 25s budget.
+  return generateStructured({
+    schema: StructuredAnswer,
+    messages: [{ role: "user", content: prompt }],
+    call: async (messages) => {
+      if (MOCK_LLM) return JSON.stringify({ answer: "MOCK answer", confidence: 0.8, needsHumanReview: false });
+      const res = await withRetries(() => withTimeout(llm.invoke(messages), 25_000), 1);
+      return String(res.content);
+    },
+  });
 }
 
 // Mock tool for context retrieval
@@ -143,32 +149,30 @@ async function run(question: string, policy: PolicyContext, requestedTool?: Tool
     context = docs.join("\n- ");
   }
 
-  // Reliability: retry + timeout around LLM
-  let raw = "";
+  // Reliability: retry + timeout per LLM call (see callStructuredLLM)
+  let checked: Awaited<ReturnType<typeof callStructuredLLM>>;
   try {
-    raw = await withRetries(() => withTimeout(callStructuredLLM(question, context), 25_000), 1);
+    checked = await callStructuredLLM(question, context);
   } catch {
     return { type: "answer", text: "Model is unavailable right now. Try again shortly." };
   }
 
-  // Schema validation
-  const parsed = typeof raw === "string" ? (() => { try { return JSON.parse(raw); } catch { return null; } })() : raw;
-  const checked = StructuredAnswer.safeParse(parsed);
-  if (!checked.success) {
+  // Schema validation (after the repair attempts)
+  if (!checked.ok) {
     // Output guardrail: invalid schema → escalate
-    return { type: "needs_human", reason: "Invalid structured output from model" };
+    return { type: "needs_human", reason: "Invalid structured output from model", detail: checked.error };
   }
 
   // Output guardrails
-  const outCheck: any = outputGuardrails(checked.data.answer);
+  const outCheck: any = outputGuardrails(checked.value.answer);
   if (!outCheck.ok) return { type: "blocked", reason: outCheck.reason };
 
   // HITL based on confidence
-  if (checked.data.needsHumanReview || checked.data.confidence < 0.5) {
-    return { type: "needs_human", reason: checked.data.reason ?? "Low confidence", draft: checked.data.answer };
+  if (checked.value.needsHumanReview || checked.value.confidence < 0.5) {
+    return { type: "needs_human", reason: checked.value.reason ?? "Low confidence", draft: checked.value.answer };
   }
 
-  return { type: "answer", text: checked.data.answer, confidence: checked.data.confidence };
+  return { type: "answer", text: checked.value.answer, confidence: checked.value.confidence };
 }
 
 // Demo scenarios
@@ -1,5 +1,7 @@
 import "dotenv/config";
 import readline from "readline";
+import { fitToContext, truncateAtSentence, type ContextMessage } from "../day03_llm_mind/context_window.js";
+import { embed, cosine } from "./hashed_embedding.js";
 
 /**
  * Day 25 — Conversation Memory (Vanilla TS) — Real Implementation
@@ -34,10 +36,6 @@ function now() {
   return Date.now();
 }
 
-function estimateTokens(text: string) {
-  return Math.ceil(text.length / 4);
-}
-
 function redactPII(text: string) {
   return text
     .replace(/[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi, "[REDACTED_EMAIL]")
@@ -45,35 +43,6 @@ function redactPII(text: string) {
     .replace(/sk-[a-zA-Z0-9]{10,}/g, "[REDACTED_API_KEY]");
 }
 
-function hashStr(s: string) {
-  let h = 2166136261;
-  for (let i = 0; i < s.length; i++) {
-    h ^= s.charCodeAt(i);
-    h = Math.imul(h, 16777619);
-  }
-  return h >>> 0;
-}
-
-function embed(text: string, dims = 256): number[] {
-  const v = new Array(dims).fill(0);
-  const tokens = text
-    .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, " ")
-    .split(/\s+/)
-    .filter(Boolean);
-
-  for (const t of tokens) v[hashStr(t) % dims] += 1;
-
-  const norm = Math.sqrt(v.reduce((s, x) => s + x * x, 0)) || 1;
-  return v.map((x) => x / norm);
-}
-
-function cosine(a: number[], b: number[]) {
-  let s = 0;
-  for (let i = 0; i < Math.min(a.length, b.length); i++) s += a[i] * b[i];
-  return s;
-}
-
 // -------------------- Stores --------------------
 const messages: Message[] = [];
 let sessionSummary = "";
@@ -170,43 +139,40 @@ function assembleContext(userText: string, budgetTokens = 900) {
     "Never store secrets or PII. If unsure, say you don't know.";
 
   const profile = `User preferences: style=${userProfile.preferredStyle}, length=${userProfile.preferredLength}.`;
-  const summary = sessionSummary || "Session summary: (none yet).";
+  // Pinned parts get fixed shares of the budget, so they can never crowd out the current turn
+  const summary = truncateAtSentence(sessionSummary || "Session summary: (none yet).", 150);
 
   // retrieve episodic only when it helps (simple heuristic)
   const episodicItems = retrieveEpisodic(userText, 3);
   const episodic = episodicItems.length
-    ? "Relevant past notes:\n" + episodicItems.map((m) => `- ${m.content}`).join("\n")
+    ? "Relevant past notes:\n" + episodicItems.map((m) => `- ${truncateAtSentence(m.content, 60)}`).join("\n")
     : "Relevant past notes: (none).";
 
-  const recentChat = getWindowMessages().map((m) => `${m.role.toUpperCase()}: ${m.content}`).join("\n");
-
-  // budget in priority order
-  const parts = [
-    { name: "system", text: system },
-    { name: "profile", text: profile },
-    { name: "summary", text: summary },
-    { name: "episodic", text: episodic },
-    { name: "recentChat", text: recentChat },
-  ];
-
-  let used = 0;
-  const kept: Record<string, string> = {};
-
-  for (const p of parts) {
-    const t = estimateTokens(p.text);
-    if (used + t <= budgetTokens) {
-      kept[p.name] = p.text;
-      used += t;
-    } else {
-      const remaining = Math.max(0, budgetTokens - used);
-      const approxChars = remaining * 4;
-      kept[p.name] = p.text.slice(0, approxChars) + "\n[...truncated for budget...]";
-      used += estimateTokens(kept[p.name]);
-      break;
-    }
-  }
+  // budget: system/profile/summary/episodic are pinned; oldest chat turns are evicted first,
+  // and a single message too long for the budget keeps only its last part
+  const fitted = fitToContext<ContextMessage>(
+    [
+      { role: "system", content: system },
+      { role: "system", content: profile },
+      { role: "system", content: summary },
+      { role: "system", content: episodic },
+      ...getWindowMessages().map((m) => ({ role: m.role, content: m.content })),
+    ],
+    { contextWindow: budgetTokens, maxTokens: 0, overflow: "truncate" }
+  );
 
-  return { ...kept, usedTokens: used };
+  const recentChat = fitted.kept.map((m) => `${m.role.toUpperCase()}: ${m.content}`).join("\n");
+
+  return {
+    system,
+    profile,
+    summary,
+    episodic,
+    recentChat,
+    usedTokens: fitted.usedTokens,
+    evictedTurns: fitted.evicted.length,
+    truncatedTurn: Boolean(fitted.truncated),
+  };
 }
 
 // -------------------- Reflection (before answering) --------------------
@@ -225,7 +191,7 @@ function reply(userText: string, ctx: any) {
     ctx.recentChat ? "recent chat window" : null,
   ].filter(Boolean);
 
-  const meta = `Memory used: ${memoryUsed.join(", ") || "none"} (≈${ctx.usedTokens} tokens).`;
+  const meta = `Memory used: ${memoryUsed.join(", ") || "none"} (≈${ctx.usedTokens} tokens, ${ctx.evictedTurns} older turns evicted).`;
 
   let answer = "";
   const t = userText.toLowerCase();
@@ -339,6 +305,7 @@ function onUserInput(input: string) {
   }
 
   const ctx = assembleContext(input, 900);
+  if (ctx.truncatedTurn) console.log("\n⚠️ Your message is longer than the context budget; only its last part is used.\n");
   const reflection = reflectBeforeAnswer(ctx);
 
   let output = "";
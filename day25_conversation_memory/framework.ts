@@ -17,6 +17,7 @@ import "dotenv/config";
 
 import { ChatOpenAI } from "@langchain/openai";
 import { HumanMessage, AIMessage, SystemMessage } from "@langchain/core/messages";
+import { embed, cosine } from "./hashed_embedding.js";
 
 type ChatMsg = HumanMessage | AIMessage;
 
@@ -36,39 +37,6 @@ function redactPII(text: string) {
     .replace(/sk-[a-zA-Z0-9]{10,}/g, "[REDACTED_API_KEY]");
 }
 
-function hashStr(s: string) {
-  let h = 2166136261;
-  for (let i = 0; i < s.length; i++) {
-    h ^= s.charCodeAt(i);
-    h = Math.imul(h, 16777619);
-  }
-  return h >>> 0;
-}
-
-/**
- * Demo embedding: hashed bag-of-words into a fixed vector.
- * (Not a real embedding model, but it teaches the mechanics of vector memory.)
- */
-function embed(text: string, dims = 256): number[] {
-  const v = new Array(dims).fill(0);
-  const tokens = text
-    .toLowerCase()
-    .replace(/[^a-z0-9\s]/g, " ")
-    .split(/\s+/)
-    .filter(Boolean);
-
-  for (const t of tokens) v[hashStr(t) % dims] += 1;
-
-  const norm = Math.sqrt(v.reduce((s, x) => s + x * x, 0)) || 1;
-  return v.map((x) => x / norm);
-}
-
-function cosine(a: number[], b: number[]) {
-  let s = 0;
-  for (let i = 0; i < Math.min(a.length, b.length); i++) s += a[i] * b[i];
-  return s;
-}
-
 // ---------------------------
 // Short-term memory (sliding window)
 // ---------------------------
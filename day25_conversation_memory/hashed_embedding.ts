@@ -0,0 +1,34 @@
+// day25_conversation_memory/hashed_embedding.ts
+// Offline demo embedding shared by the memory demos and the day04 example selector.
+// No API key needed — good enough to teach the mechanics of vector recall.
+
+// FNV-1a 32-bit hash
+export function hashStr(s: string) {
+  let h = 2166136261;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+/**
+ * Demo embedding: hashed bag-of-words into a fixed vector.
+ * (Not a real embedding model, but it teaches the mechanics of vector memory.)
+ */
+export function embed(text: string, dims = 256): number[] {
+  const v = new Array(dims).fill(0);
+  const tokens = text
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+
+  for (const t of tokens) v[hashStr(t) % dims] += 1;
+
+  const norm = Math.sqrt(v.reduce((s, x) => s + x * x, 0)) || 1;
+  return v.map((x) => x / norm);
+}
+
+// Cosine similarity (for unit vectors from `embed` this is just the dot product)
+export { cosineSimilarity as cosine } from "../day10_similarity_search/vector_math.js";
@@ -1,4 +1,8 @@
 import "dotenv/config";
+import { estimateTokens, getDefaultTokenizer } from "../day03_llm_mind/tokenizer.js";
+import { getCostCalculator } from "../day05_inferencing/pricing.js";
+import { EmbeddingCache } from "../day06_embeddings/embedding_cache.js";
+import { HashedNgramEmbedder } from "../day06_embeddings/embedders.js";
 
 /**
  * Day 26 — Cost & Performance Optimization (Vanilla TS)
@@ -18,24 +22,17 @@ function tnow() {
   return performance.now();
 }
 
-// Rough token estimate for budgeting.
-function estimateTokens(text: string) {
-  return Math.ceil(text.length / 4);
-}
-
 type Provider = "cheap" | "strong";
 
 type ModelConfig = {
-  name: string;
-  inputCostPer1k: number;
-  outputCostPer1k: number;
+  name: string; // priced via day05 pricing.json
   speedMsPer100Tokens: number;
 };
 
-// Illustrative pricing/speed (not real).
+// Real per-token prices come from the pricing table; speeds are simulated.
 const MODELS: Record<Provider, ModelConfig> = {
-  cheap: { name: "small-model", inputCostPer1k: 0.05, outputCostPer1k: 0.2, speedMsPer100Tokens: 40 },
-  strong: { name: "strong-model", inputCostPer1k: 0.5, outputCostPer1k: 2.0, speedMsPer100Tokens: 90 },
+  cheap: { name: "gpt-4o-mini", speedMsPer100Tokens: 40 },
+  strong: { name: "gpt-4o", speedMsPer100Tokens: 90 },
 };
 
 // -----------------------------
@@ -86,8 +83,7 @@ function makeBudget(totalTokens: number): Budget {
 }
 
 function trimToBudget(text: string, maxTokens: number) {
-  const maxChars = maxTokens * 4;
-  return text.length <= maxChars ? text : text.slice(0, maxChars) + "\n[...trimmed for budget...]";
+  return estimateTokens(text) <= maxTokens ? text : getDefaultTokenizer().truncate(text, maxTokens) + "\n[...trimmed for budget...]";
 }
 
 function assemblePrompt(parts: PromptParts, budget: Budget) {
@@ -109,7 +105,7 @@ function assemblePrompt(parts: PromptParts, budget: Budget) {
 // -----------------------------
 // 2) Caching layers
 // -----------------------------
-const embeddingCache = new Map<string, number[]>();
+const embeddingCache = new EmbeddingCache(); // keyed by (model, dims, text hash); pass a file path to persist
 const retrievalCache = new Map<string, string>();
 const outputCache = new Map<string, string>();
 
@@ -125,10 +121,13 @@ function hashKey(s: string) {
 // -----------------------------
 // 3) Embeddings + retrieval (mock)
 // -----------------------------
+const localEmbedder = new HashedNgramEmbedder({ dimensions: 64 }); // offline, deterministic
+
 function fakeEmbed(text: string) {
-  if (embeddingCache.has(text)) return { vector: embeddingCache.get(text)!, cacheHit: true };
-  const v = Array.from({ length: 32 }, (_, i) => (text.length * (i + 1)) % 7);
-  embeddingCache.set(text, v);
+  const cached = embeddingCache.get(localEmbedder.model, localEmbedder.dimensions, text);
+  if (cached) return { vector: cached, cacheHit: true };
+  const v = localEmbedder.embed(text);
+  embeddingCache.set(localEmbedder.model, localEmbedder.dimensions, text, v);
   return { vector: v, cacheHit: false };
 }
 
@@ -213,9 +212,7 @@ async function fakeLlm(prompt: string, provider: Provider, opts: { streaming: bo
 
   const answer = base + (opts.streaming ? " (streamed)" : "");
 
-  const costUsd =
-    (inputTokens / 1000) * model.inputCostPer1k +
-    (outputTokens / 1000) * model.outputCostPer1k;
+  const costUsd = getCostCalculator().cost(model.name, { inputTokens, outputTokens }).totalUsd;
 
   outputCache.set(key, answer);
   return { answer, provider, inputTokens, outputTokens, costUsd, modelLatencyMs, outputCacheHit: false };
@@ -353,7 +350,7 @@ function allowRequest(userId: string) {
 // -----------------------------
 // 10) Cost attribution & accounting
 // -----------------------------
-type CostRow = { userId: string; feature: string; costUsd: number; latencyMs: number; provider: Provider; ts: number };
+type CostRow = { userId: string; feature: string; model: string; costUsd: number; latencyMs: number; provider: Provider; ts: number };
 const ledger: CostRow[] = [];
 
 function recordCost(row: CostRow) {
@@ -400,13 +397,13 @@ async function main() {
 
   // Cold vs warm comparison
   const cold = await answerAdaptive("Design cost guardrails for an LLM app and explain token budgeting.", { cold: true, streaming: true });
-  recordCost({ userId, feature, costUsd: cold.costUsd, latencyMs: cold.totalLatencyMs, provider: cold.provider, ts: Date.now() });
+  recordCost({ userId, feature, model: MODELS[cold.provider].name, costUsd: cold.costUsd, latencyMs: cold.totalLatencyMs, provider: cold.provider, ts: Date.now() });
 
   console.log("Cold request:", cold);
   if (cold.answer.includes("(streamed)")) await demoStreaming(cold.answer);
 
   const warm = await answerAdaptive("Design cost guardrails for an LLM app and explain token budgeting.", { cold: false, streaming: false });
-  recordCost({ userId, feature, costUsd: warm.costUsd, latencyMs: warm.totalLatencyMs, provider: warm.provider, ts: Date.now() });
+  recordCost({ userId, feature, model: MODELS[warm.provider].name, costUsd: warm.costUsd, latencyMs: warm.totalLatencyMs, provider: warm.provider, ts: Date.now() });
 
   console.log("\nWarm request:", warm);
 
@@ -1,4 +1,6 @@
 import "dotenv/config";
+import { estimateTokens, getDefaultTokenizer } from "../day03_llm_mind/tokenizer.js";
+import { getCostCalculator } from "../day05_inferencing/pricing.js";
 
 /**
  * Day 26 — Cost & Performance Optimization (Framework-style Pipeline)
@@ -19,25 +21,19 @@ import "dotenv/config";
 type Provider = "cheap" | "strong";
 
 type ModelConfig = {
-  name: string;
-  inputCostPer1k: number;
-  outputCostPer1k: number;
+  name: string; // priced via day05 pricing.json
   speedMsPer100Tokens: number;
 };
 
 const MODELS: Record<Provider, ModelConfig> = {
-  cheap: { name: "small-model", inputCostPer1k: 0.05, outputCostPer1k: 0.2, speedMsPer100Tokens: 40 },
-  strong: { name: "strong-model", inputCostPer1k: 0.5, outputCostPer1k: 2.0, speedMsPer100Tokens: 90 },
+  cheap: { name: "gpt-4o-mini", speedMsPer100Tokens: 40 },
+  strong: { name: "gpt-4o", speedMsPer100Tokens: 90 },
 };
 
 function sleep(ms: number) {
   return new Promise((r) => setTimeout(r, ms));
 }
 
-function estimateTokens(text: string) {
-  return Math.ceil(text.length / 4);
-}
-
 function hashKey(s: string) {
   let h = 2166136261;
   for (let i = 0; i < s.length; i++) {
@@ -59,7 +55,7 @@ class Cache<T> {
   has(k: string) { return this.m.has(k); }
 }
 
-type LedgerRow = { userId: string; feature: string; costUsd: number; latencyMs: number; provider: Provider; ts: number };
+type LedgerRow = { userId: string; feature: string; model: string; costUsd: number; latencyMs: number; provider: Provider; ts: number };
 class Ledger {
   rows: LedgerRow[] = [];
   add(r: LedgerRow) { this.rows.push(r); }
@@ -87,8 +83,7 @@ class Budgeter {
     return { system: 150, memory: 250, retrieval: 700, chat: 200, user: 100 };
   }
   trim(text: string, maxTokens: number) {
-    const maxChars = maxTokens * 4;
-    return text.length <= maxChars ? text : text.slice(0, maxChars) + "\n[...trimmed...]";
+    return estimateTokens(text) <= maxTokens ? text : getDefaultTokenizer().truncate(text, maxTokens) + "\n[...trimmed...]";
   }
 }
 
@@ -136,7 +131,7 @@ class LLM {
         ? "Strong-model answer: robust plan with budgeting, caching, routing, rate limiting."
         : "Cheap-model answer: use budgets, caching, routing.") + (streaming ? " (streamed)" : "");
 
-    const costUsd = (inputTokens / 1000) * model.inputCostPer1k + (outputTokens / 1000) * model.outputCostPer1k;
+    const costUsd = getCostCalculator().cost(model.name, { inputTokens, outputTokens }).totalUsd;
 
     this.outputCache.set(key, answer);
     return { answer, cacheHit: false, inputTokens, outputTokens, costUsd, modelLatencyMs };
@@ -213,7 +208,7 @@ class Pipeline {
     const totalMs = tAll.ms();
 
     // Cost attribution
-    this.ledger.add({ userId, feature: "chat", costUsd: final.costUsd, latencyMs: totalMs, provider, ts: Date.now() });
+    this.ledger.add({ userId, feature: "chat", model: MODELS[provider].name, costUsd: final.costUsd, latencyMs: totalMs, provider, ts: Date.now() });
 
     // Streaming adapter (simulated)
     if (opts.streaming && final.answer.includes("(streamed)")) {
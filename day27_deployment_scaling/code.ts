@@ -1,4 +1,5 @@
 import "dotenv/config";
+import { PromptRegistry } from "../day04_prompt_engineering/prompt_registry.js";
 
 /**
  * Day 27 — Deployment & Scaling GenAI Systems (Vanilla TS)
@@ -78,13 +79,12 @@ const vectorDbPlacement: Record<Region, string> = { "us-east": "vector-db-us", "
 // --------------------------
 // 5) Model & prompt versioning + registry
 // --------------------------
-type PromptVersion = "prompt_v1" | "prompt_v2";
+// Prompts live in the file-backed registry (day04_prompt_engineering/prompts/*.json).
+// A release references them as "name@version" (pinned) or "name@latest".
+type PromptRef = `${string}@${string}`;
 type ModelVersion = "cheap-model" | "mid-model" | "strong-model";
 
-const promptRegistry: Record<PromptVersion, string> = {
-  prompt_v1: "You are a helpful assistant. Answer concisely using context.",
-  prompt_v2: "You are a helpful assistant. Be clear. Use context. If unsure, say you don't know.",
-};
+const promptRegistry = new PromptRegistry();
 
 const modelRegistry: Record<ModelVersion, { costPerReq: number; latencyMs: number }> = {
   "cheap-model": { costPerReq: 0.001, latencyMs: 120 },
@@ -98,8 +98,8 @@ const modelRegistry: Record<ModelVersion, { costPerReq: number; latencyMs: numbe
 type ReleaseStrategy = "canary" | "blue-green";
 type Release = {
   strategy: ReleaseStrategy;
-  stablePrompt: PromptVersion;
-  candidatePrompt: PromptVersion;
+  stablePrompt: PromptRef;
+  candidatePrompt: PromptRef;
   stableModel: ModelVersion;
   candidateModel: ModelVersion;
   canaryPct: number;
@@ -108,8 +108,8 @@ type Release = {
 
 const release: Release = {
   strategy: "canary",
-  stablePrompt: "prompt_v1",
-  candidatePrompt: "prompt_v2",
+  stablePrompt: "assistant_system@1.0.0", // pinned: stable never changes under your feet
+  candidatePrompt: "assistant_system@latest",
   stableModel: "mid-model",
   candidateModel: "strong-model",
   canaryPct: 0.1,
@@ -251,7 +251,8 @@ async function handleChat(req: Request) {
   const variant = pickReleaseVariant();
   trace.spans.push({ name: "release_select", ms: rand(1, 3) });
 
-  const prompt = `${promptRegistry[variant.prompt]}\nMemory: ${memory}\nUser: ${req.body.userText}\nAssistant:`;
+  const systemPrompt = promptRegistry.resolve(variant.prompt);
+  const prompt = `${systemPrompt.content}\nMemory: ${memory}\nUser: ${req.body.userText}\nAssistant:`;
   trace.spans.push({ name: "prompt_assemble", ms: rand(2, 8) });
 
   const model = modelRegistry[variant.model];
@@ -267,9 +268,10 @@ async function handleChat(req: Request) {
 
   if (latency > 800) alert("Latency SLO breach", { latencyMs: latency, region, model: variant.model });
 
-  log("info", "Request complete", { status: 200, latencyMs: latency, variant: variant.variant, model: variant.model });
+  const promptVersion = `${systemPrompt.name}@${systemPrompt.version}`;
+  log("info", "Request complete", { status: 200, latencyMs: latency, variant: variant.variant, model: variant.model, prompt: promptVersion, promptHash: systemPrompt.hash });
 
-  return { status: 200, body: { answer: `(${variant.model}/${variant.prompt}) Here is a response.`, trace } };
+  return { status: 200, body: { answer: `(${variant.model}/${promptVersion}) Here is a response.`, trace } };
 }
 
 // --------------------------
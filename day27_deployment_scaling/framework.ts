@@ -1,4 +1,5 @@
 import "dotenv/config";
+import { PromptRegistry, type PromptVersionRecord } from "../day04_prompt_engineering/prompt_registry.js";
 
 /**
  * Day 27 — Deployment & Scaling GenAI Systems (Framework-style)
@@ -54,11 +55,19 @@ class Security {
 class ReleaseManager {
   strategy: "canary" | "blue-green" = "canary";
   canaryPct = 0.1;
-  stablePrompt: "prompt_v1" | "prompt_v2" = "prompt_v1";
-  candidatePrompt: "prompt_v1" | "prompt_v2" = "prompt_v2";
+  // Prompt refs resolved from the registry: pinned for stable, latest for the candidate
+  stablePromptRef = "assistant_system@1.0.0";
+  candidatePromptRef = "assistant_system@latest";
   stableModel: Provider = "mid-model";
   candidateModel: Provider = "strong-model";
   activeColor: "blue" | "green" = "blue";
+  constructor(private prompts = new PromptRegistry()) {}
+  get stablePrompt(): PromptVersionRecord {
+    return this.prompts.resolve(this.stablePromptRef);
+  }
+  get candidatePrompt(): PromptVersionRecord {
+    return this.prompts.resolve(this.candidatePromptRef);
+  }
   pick(canaryEnabled: boolean) {
     if (this.strategy === "canary") {
       const isCanary = canaryEnabled && Math.random() < this.canaryPct;
@@ -170,11 +179,6 @@ async function main() {
 
   scaler.startWorkerPool();
 
-  const promptRegistry = {
-    prompt_v1: "You are a helpful assistant. Answer concisely using context.",
-    prompt_v2: "You are a helpful assistant. Be clear. Use context. If unsure, say you don't know.",
-  };
-
   const modelRegistry = {
     "cheap-model": { cost: 0.001, latencyMs: 120 },
     "mid-model": { cost: 0.004, latencyMs: 220 },
@@ -207,7 +211,7 @@ async function main() {
     await new Promise(res => setTimeout(res, modelRegistry[variant.model].latencyMs));
     obs.metrics.costUsd += modelRegistry[variant.model].cost;
 
-    obs.log("info", "Handled request", { region, api, variant: variant.variant, model: variant.model, prompt: variant.prompt });
+    obs.log("info", "Handled request", { region, api, variant: variant.variant, model: variant.model, prompt: `${variant.prompt.name}@${variant.prompt.version}`, promptHash: variant.prompt.hash });
 
     if (req.path === "/ingest") {
       qs.enqueue({ id: `job_${Date.now()}`, type: "ingest", payload: req.body, attempts: 0 });